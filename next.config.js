@@ -15,6 +15,8 @@ const nextConfig = {
   
   // Optimize for Cloudflare deployment
   experimental: {
+    // Native server canvas used by /api/render must not be bundled by webpack
+    serverComponentsExternalPackages: ['@napi-rs/canvas'],
     ...(process.env.NODE_ENV === 'production' && {
       outputFileTracingRoot: process.cwd(),
     }),
@@ -0,0 +1,159 @@
+// Batch renderer: turns recipe files or a range of seeds into image files, using the same
+// render pipeline as the editor. Same recipe + size always produces the same image.
+//
+//   npm run render:bg -- recipes/*.json --size L --format png
+//   npm run render:bg -- --seeds 1-200 --aspect 16:9 --size 1200x630 --format jpeg --out public/og
+//
+// Run with --help for all options.
+
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import { parseArgs } from 'util'
+import { BackgroundRecipe, DEFAULT_RECIPE, parseRecipe, parseRecipeJSON, recipeFromSeed } from '@/lib/recipe'
+import {
+  RESOLUTION_OPTIONS,
+  ResolutionKey,
+  SIZE_PRESETS,
+  aspectRatioFromSize,
+  findSizePreset,
+  fitToAspectRatio,
+  isSameAspectRatio,
+  parseAspectRatio
+} from '@/lib/dimensions'
+import { SERVER_IMAGE_FORMATS, ServerImageFormat, isServerImageFormat, renderToBuffer } from '@/lib/render/server'
+
+const USAGE = `Usage: render-bg [recipe.json ...] [options]
+
+Renders each recipe file, and/or one background per seed, to an image file.
+
+Options:
+  --seeds <a-b|a,b,c>   Render generated backgrounds for these seeds
+  --base <recipe.json>  Settings used for --seeds backgrounds (default: editor defaults)
+  --aspect <w:h>        Override the aspect ratio of every recipe
+  --size <size>         ${Object.keys(RESOLUTION_OPTIONS).join(', ')} (fit to the aspect ratio), WxH (exact),
+                        W (height from the aspect ratio) or a preset id (exact size and ratio).
+                        Repeat for several sizes. Default: S
+                        Presets: ${SIZE_PRESETS.map(preset => preset.id).join(', ')}
+  --format <format>     ${Object.keys(SERVER_IMAGE_FORMATS).join(', ')} (default: png)
+  --quality <0-1>       Quality for jpeg and webp (default: 0.95)
+  --out <dir>           Output directory (default: ./backgrounds)
+  -h, --help            Show this help
+`
+
+interface Job {
+  name: string
+  recipe: BackgroundRecipe
+}
+
+const fail = (message: string): never => {
+  console.error(`render-bg: ${message}`)
+  process.exit(1)
+}
+
+// "1-100", "7,42,1000" or a mix such as "1-10,42"
+const parseSeeds = (value: string): number[] => {
+  const seeds: number[] = []
+  value.split(',').forEach(part => {
+    const range = part.trim().match(/^(\d+)(?:-(\d+))?$/)
+    if (!range) fail(`invalid seed list "${value}"`)
+    const start = Number(range![1])
+    const end = range![2] !== undefined ? Number(range![2]) : start
+    if (end < start) fail(`invalid seed range "${part}"`)
+    for (let seed = start; seed <= end; seed++) seeds.push(seed)
+  })
+  return seeds
+}
+
+const resolveSize = (size: string, aspectRatio: string) => {
+  const resolution = RESOLUTION_OPTIONS[size.toUpperCase() as ResolutionKey]
+  if (resolution) return fitToAspectRatio(aspectRatio, resolution.width, resolution.height)
+
+  // Platform presets are exact sizes; the recipe takes on their aspect ratio
+  const preset = findSizePreset(size)
+  if (preset) return { width: preset.width, height: preset.height }
+
+  const match = size.match(/^(\d+)(?:x(\d+))?$/i)
+  if (!match) return fail(`invalid size "${size}"`)
+  const width = Number(match[1])
+  const height = match[2] !== undefined ? Number(match[2]) : Math.round(width / parseAspectRatio(aspectRatio))
+  if (width < 1 || height < 1) return fail(`invalid size "${size}"`)
+  return { width, height }
+}
+
+const loadRecipe = async (file: string): Promise<BackgroundRecipe> => {
+  const result = parseRecipeJSON(await readFile(file, 'utf8'))
+  if (!result.ok) return fail(`${file}: ${result.errors.join('; ')}`)
+  result.warnings.forEach(warning => console.warn(`${file}: ${warning}`))
+  return result.recipe
+}
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      seeds: { type: 'string' },
+      base: { type: 'string' },
+      aspect: { type: 'string' },
+      size: { type: 'string', multiple: true },
+      format: { type: 'string', default: 'png' },
+      quality: { type: 'string', default: '0.95' },
+      out: { type: 'string', default: 'backgrounds' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+
+  if (values.help || (positionals.length === 0 && !values.seeds)) {
+    console.log(USAGE)
+    return
+  }
+
+  const format = values.format!.toLowerCase().replace('jpg', 'jpeg')
+  if (!isServerImageFormat(format)) fail(`unsupported format "${values.format}"`)
+
+  const quality = Number(values.quality)
+  if (!(quality > 0 && quality <= 1)) fail('quality must be between 0 and 1')
+
+  if (values.aspect && !/^\d+(\.\d+)?:\d+(\.\d+)?$/.test(values.aspect)) fail(`invalid aspect ratio "${values.aspect}"`)
+
+  const jobs: Job[] = []
+  for (const file of positionals) {
+    jobs.push({ name: path.basename(file, path.extname(file)), recipe: await loadRecipe(file) })
+  }
+  if (values.seeds) {
+    const base = values.base ? await loadRecipe(values.base) : DEFAULT_RECIPE
+    parseSeeds(values.seeds).forEach(seed => {
+      jobs.push({ name: `background-${seed}`, recipe: recipeFromSeed(seed, base) })
+    })
+  }
+
+  // Every recipe and size is resolved before the first file is written, so a typo in the last
+  // --size fails the run up front instead of leaving a partial batch
+  const sizes = values.size ?? ['S']
+  const renders = jobs.flatMap(job => {
+    // Round-trip through the validator so --aspect gets the same checks as a recipe file
+    const recipe = values.aspect ? parseRecipe({ ...job.recipe, aspectRatio: values.aspect }) : { ok: true as const, recipe: job.recipe }
+    if (!recipe.ok) return fail(`${job.name}: ${recipe.errors.join('; ')}`)
+
+    return sizes.map(size => {
+      const { width, height } = resolveSize(size, recipe.recipe.aspectRatio)
+      const aspectRatio = aspectRatioFromSize(width, height)
+      const sized = isSameAspectRatio(aspectRatio, recipe.recipe.aspectRatio) ? recipe.recipe : { ...recipe.recipe, aspectRatio }
+      return { recipe: sized, width, height, name: `${job.name}-${width}x${height}.${format === 'jpeg' ? 'jpg' : format}` }
+    })
+  })
+
+  const outDir = path.resolve(values.out!)
+  await mkdir(outDir, { recursive: true })
+
+  for (const [index, { recipe, width, height, name }] of renders.entries()) {
+    const image = await renderToBuffer(recipe, width, height, format as ServerImageFormat, quality)
+    const file = path.join(outDir, name)
+    await writeFile(file, image)
+    console.log(`[${index + 1}/${renders.length}] ${path.relative(process.cwd(), file)}`)
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
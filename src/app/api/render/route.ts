@@ -0,0 +1,152 @@
+// Headless render endpoint for CMS and email tooling
+//
+//   POST /api/render  { recipe, width?, height?, format?, quality? }
+//   GET  /api/render?r=<share link payload>&width=&height=&format=&quality=
+//
+// Missing width/height are derived from the recipe's aspect ratio
+//
+// Rendering needs the native @napi-rs/canvas addon, so this route only works on a Node.js host
+// (`next start` or the standalone build). Cloudflare Workers, where `npm run deploy` and Webflow
+// Cloud run the app, can't load native addons; there the route answers 501.
+
+import { NextRequest, NextResponse } from 'next/server'
+import { BackgroundRecipe, RecipeParseResult, parseRecipe } from '@/lib/recipe'
+import { decodeRecipe } from '@/lib/share'
+import { resolveDimensions } from '@/lib/dimensions'
+import { SERVER_IMAGE_FORMATS, isServerImageFormat } from '@/lib/render/server-formats'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const MAX_DIMENSION = 8192
+const MAX_PIXELS = 40_000_000
+
+interface RenderRequest {
+  recipe: RecipeParseResult
+  width?: number
+  height?: number
+  format?: unknown
+  quality?: unknown
+}
+
+type ServerRenderer = typeof import('@/lib/render/server')
+
+// Loaded on first use, so a host without the native canvas still serves the rest of the app.
+// undefined until tried, null when it can't load here.
+let renderer: ServerRenderer | null | undefined
+
+const isWorkersRuntime = () => typeof navigator !== 'undefined' && navigator.userAgent === 'Cloudflare-Workers'
+
+const loadRenderer = async (): Promise<ServerRenderer | null> => {
+  if (renderer !== undefined) return renderer
+  if (isWorkersRuntime()) {
+    renderer = null
+    return renderer
+  }
+  try {
+    renderer = await import('@/lib/render/server')
+  } catch (error) {
+    console.error('Server renderer unavailable:', error)
+    renderer = null
+  }
+  return renderer
+}
+
+const badRequest = (error: string, details?: string[]) => {
+  return NextResponse.json({ error, details }, { status: 400 })
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const optionalNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : NaN
+}
+
+const render = async ({ recipe: parsed, width, height, format = 'png', quality = 0.95 }: RenderRequest) => {
+  if (!parsed.ok) {
+    return badRequest('Invalid recipe', parsed.errors)
+  }
+  const recipe: BackgroundRecipe = parsed.recipe
+
+  if (!isServerImageFormat(format)) {
+    return badRequest(`format must be one of ${Object.keys(SERVER_IMAGE_FORMATS).join(', ')}`)
+  }
+
+  const qualityValue = Number(quality)
+  if (!Number.isFinite(qualityValue) || qualityValue <= 0 || qualityValue > 1) {
+    return badRequest('quality must be between 0 and 1')
+  }
+
+  if (Number.isNaN(width) || Number.isNaN(height)) {
+    return badRequest('width and height must be numbers')
+  }
+
+  const size = resolveDimensions(recipe.aspectRatio, width, height)
+  if (size.width < 1 || size.height < 1 || size.width > MAX_DIMENSION || size.height > MAX_DIMENSION) {
+    return badRequest(`width and height must be between 1 and ${MAX_DIMENSION}`)
+  }
+  if (size.width * size.height > MAX_PIXELS) {
+    return badRequest(`Images are limited to ${MAX_PIXELS.toLocaleString('en-US')} pixels`)
+  }
+
+  const server = await loadRenderer()
+  if (!server) {
+    return NextResponse.json(
+      { error: 'Server rendering is not available on this host', details: ['/api/render needs a Node.js server that can load @napi-rs/canvas'] },
+      { status: 501 }
+    )
+  }
+
+  try {
+    const image = await server.renderToBuffer(recipe, size.width, size.height, format, qualityValue)
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': SERVER_IMAGE_FORMATS[format],
+        'Content-Disposition': `inline; filename="background-${size.width}x${size.height}.${format}"`,
+        // Same recipe and size always give the same bytes
+        'Cache-Control': 'public, max-age=31536000, immutable'
+      }
+    })
+  } catch (error) {
+    console.error('Render failed:', error)
+    return NextResponse.json({ error: 'Render failed' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return badRequest('Request body must be JSON')
+  }
+  if (!isRecord(body)) {
+    return badRequest('Request body must be a JSON object')
+  }
+
+  return render({
+    recipe: parseRecipe(body.recipe),
+    width: optionalNumber(body.width),
+    height: optionalNumber(body.height),
+    format: body.format,
+    quality: body.quality
+  })
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const encoded = params.get('r')
+  if (!encoded) {
+    return badRequest('Missing r parameter (the payload of a share link)')
+  }
+
+  return render({
+    recipe: decodeRecipe(encoded),
+    width: optionalNumber(params.get('width')),
+    height: optionalNumber(params.get('height')),
+    format: params.get('format') ?? undefined,
+    quality: params.get('quality') ?? undefined
+  })
+}
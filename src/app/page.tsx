@@ -1,154 +1,389 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { CanvasRenderer } from '@/components/CanvasRenderer'
+import { TextAreaOverlay } from '@/components/TextAreaOverlay'
 import { ControlsPanel } from '@/components/ControlsPanel'
+import { RecipeMenu } from '@/components/RecipeMenu'
+import { HistoryMenu } from '@/components/HistoryMenu'
+import { ExportSizePicker } from '@/components/ExportSizePicker'
+import { BundleExportDialog } from '@/components/BundleExportDialog'
+import { AnimationExportDialog } from '@/components/AnimationExportDialog'
+import { LibraryDialog } from '@/components/LibraryDialog'
+import { VariationsDialog } from '@/components/VariationsDialog'
+import { PaletteDialog } from '@/components/PaletteDialog'
 import { ThemeToggle } from '@/components/theme-toggle'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
-import { Color, getRandomMidToneColors } from '@/utils/colors'
-import { Download } from 'lucide-react'
+import { Color } from '@/utils/colors'
+import { randomSeed } from '@/utils/random'
+import {
+  BackgroundRecipe,
+  DEFAULT_RECIPE,
+  ForegroundSettings,
+  GradientLayer,
+  LayerTransform,
+  LogoSettings,
+  OverlaySettings,
+  RippleSettings,
+  TextAreaSettings,
+  TextLayerSettings,
+  recipeFromSeed
+} from '@/lib/recipe'
+import { AreaPixels, LegibilityReport, analyzeAtSize, analyzeLegibility, readCanvasArea } from '@/lib/legibility'
+import { readLogoFile } from '@/lib/logo'
+import { hasForegroundText } from '@/lib/render/foreground'
+import { ImageAnalysis, applyImageAnalysis } from '@/lib/analysis/analyze'
+import { canAddLayer, createLayer, moveLayer, patchLayer, removeLayer } from '@/lib/layers'
+import { downloadBlob } from '@/lib/download'
+import { ExportSize, aspectRatioFromSize, isSameAspectRatio, resolveExportSize } from '@/lib/dimensions'
+import { EXPORT_FORMATS, EXPORT_QUALITIES, ExportFormat, detectSupportedFormats, exportFilename } from '@/lib/export'
+import { RenderCancelledError, renderExport } from '@/lib/render/worker-client'
+import { createRecipeHash, readRecipeFromHash } from '@/lib/share'
+import { saveDesign } from '@/lib/library'
+import { Variation } from '@/lib/variations'
+import { DEFAULT_PALETTE, StoredPalettes, loadPalettes, savePalettes } from '@/lib/palette'
+import { BUILT_IN_MOODS, StoredMoods, createMoodFromColors, loadMoods, saveMoods } from '@/lib/moods'
+import {
+  HistoryChange,
+  createHistory,
+  describeLayerChange,
+  describeRecipeChange,
+  jumpHistory,
+  pushHistory,
+  redoHistory,
+  replaceHistoryState,
+  undoHistory
+} from '@/lib/history'
+import { Check, Download, Film, Library, Package, Save, X } from 'lucide-react'
 
 export default function Home() {
-  const [colors, setColors] = useState<Color[]>([
-    { name: 'Blue 500', hex: '#3B82F6', rgb: [59, 130, 246] },
-    { name: 'Green 500', hex: '#10B981', rgb: [16, 185, 129] },
-    { name: 'Purple 500', hex: '#8B5CF6', rgb: [139, 92, 246] }
-  ])
+  // Everything that describes the background lives in one recipe document,
+  // and every change to it is a step in the undo history
+  const [history, setHistory] = useState(() => createHistory<BackgroundRecipe>(DEFAULT_RECIPE))
+  const recipe = history.present.state
+  const { colors, seed } = recipe
 
-  // Initialize colors after component mounts (client-side only)
+  // Saved palettes load with the page; the active one feeds every color choice
+  const [paletteState, setPaletteState] = useState<StoredPalettes>({ palettes: [DEFAULT_PALETTE], activeId: DEFAULT_PALETTE.id })
+  const [paletteDialogOpen, setPaletteDialogOpen] = useState(false)
+  const activePalette = paletteState.palettes.find(palette => palette.id === paletteState.activeId) ?? DEFAULT_PALETTE
+
+  const handlePalettesChange = useCallback((palettes: StoredPalettes['palettes'], activeId: string) => {
+    const next = { palettes, activeId }
+    setPaletteState(next)
+    savePalettes(next)
+  }, [])
+
+  // An optional mood narrows Regenerate to one color rule (warm, triadic, a saved set...)
+  const [moodState, setMoodState] = useState<StoredMoods>({ moods: BUILT_IN_MOODS, activeId: null })
+  const activeMood = moodState.moods.find(mood => mood.id === moodState.activeId)
+
+  const handleMoodsChange = useCallback((next: StoredMoods) => {
+    setMoodState(next)
+    saveMoods(next)
+  }, [])
+
+  const commitRecipe = useCallback((update: (prev: BackgroundRecipe) => BackgroundRecipe, change: HistoryChange) => {
+    setHistory(prev => pushHistory(prev, update(prev.present.state), change))
+  }, [])
+
+  // Initialize seed and colors after component mounts (client-side only)
+  // A shared link (#r=...) restores that exact background instead
   useEffect(() => {
-    console.log('Initializing colors...')
-    const initialColors = getRandomMidToneColors(3)
-    console.log('Initial colors:', initialColors)
-    setColors(initialColors)
+    const storedPalettes = loadPalettes()
+    setPaletteState(storedPalettes)
+    const storedMoods = loadMoods()
+    setMoodState(storedMoods)
+
+    const shared = readRecipeFromHash(window.location.hash)
+    if (shared?.ok) {
+      setHistory(prev => replaceHistoryState(prev, shared.recipe))
+      return
+    }
+    if (shared && !shared.ok) {
+      console.warn('Ignoring invalid shared background:', shared.errors)
+    }
+
+    const palette = storedPalettes.palettes.find(entry => entry.id === storedPalettes.activeId)
+    const mood = storedMoods.moods.find(entry => entry.id === storedMoods.activeId)
+    setHistory(prev => replaceHistoryState(prev, recipeFromSeed(randomSeed(), prev.present.state, palette, mood)))
   }, [])
-  
-  const handleColorsChange = useCallback((newColors: Color[]) => {
-    console.log('Main state updating colors to:', newColors.map((c, i) => `${i}: ${c.hex} (${c.name})`));
-    setColors(newColors)
+
+  // Load backgrounds from links pasted into an already-open tab
+  useEffect(() => {
+    const handleHashChange = () => {
+      const shared = readRecipeFromHash(window.location.hash)
+      if (shared?.ok) {
+        commitRecipe(() => shared.recipe, { label: 'Open shared link' })
+      }
+    }
+
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [commitRecipe])
+
+  // Keep the URL in sync so a refresh or a copied address bar keeps the background
+  // Debounced because browsers throttle rapid history updates during slider drags
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const hash = createRecipeHash(recipe)
+      if (window.location.hash !== hash) {
+        window.history.replaceState(null, '', hash)
+      }
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [recipe])
+
+  const updateRecipe = useCallback((patch: Partial<BackgroundRecipe>) => {
+    commitRecipe(prev => ({ ...prev, ...patch }), describeRecipeChange(patch))
+  }, [commitRecipe])
+
+  const updateOverlay = useCallback((patch: Partial<OverlaySettings>) => {
+    commitRecipe(prev => ({ ...prev, overlay: { ...prev.overlay, ...patch } }), describeRecipeChange(patch, 'overlay'))
+  }, [commitRecipe])
+
+  const updateRipple = useCallback((patch: Partial<RippleSettings>) => {
+    commitRecipe(prev => ({ ...prev, ripple: { ...prev.ripple, ...patch } }), describeRecipeChange(patch, 'ripple'))
+  }, [commitRecipe])
+
+  const updateTextArea = useCallback((patch: Partial<TextAreaSettings>) => {
+    commitRecipe(prev => ({ ...prev, textArea: { ...prev.textArea, ...patch } }), describeRecipeChange(patch, 'textArea'))
+  }, [commitRecipe])
+
+  // Legibility of the text safe area, measured on each preview frame (at most a few times a
+  // second while animating) or on demand at the export size
+  const [legibility, setLegibility] = useState<LegibilityReport | null>(null)
+  const [checkingLegibility, setCheckingLegibility] = useState(false)
+  const textAreaRef = useRef(recipe.textArea)
+  textAreaRef.current = recipe.textArea
+  const legibilityTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const latestAreaRef = useRef<AreaPixels | null>(null)
+
+  const handleCanvasReady = useCallback((canvas: HTMLCanvasElement) => {
+    if (!textAreaRef.current.enabled) return
+    // Copied right away: the foreground text is drawn over this canvas next
+    latestAreaRef.current = readCanvasArea(canvas, textAreaRef.current)
+    if (legibilityTimeoutRef.current) return
+    legibilityTimeoutRef.current = setTimeout(() => {
+      legibilityTimeoutRef.current = null
+      if (latestAreaRef.current) setLegibility(analyzeLegibility(latestAreaRef.current))
+    }, 250)
   }, [])
-  const [posterizeSteps, setPosterizeSteps] = useState(8)
-  const [noiseIntensity, setNoiseIntensity] = useState(0.15)
-  const [gradientStyle, setGradientStyle] = useState<'organic' | 'linear' | 'radial' | 'wave' | 'sunburst'>('organic')
-  const [gradientIntensity, setGradientIntensity] = useState(0.8)
-  const [gradientDensity, setGradientDensity] = useState(0.7)
-  const [zoomLevel, setZoomLevel] = useState(1.0)
-  const [isAnimated, setIsAnimated] = useState(false) // Hidden feature for now
-  const [animationSpeed, setAnimationSpeed] = useState(1.0)
-  const [colorBlobs, setColorBlobs] = useState<any[]>([])
+
+  const updateForeground = useCallback((patch: Partial<ForegroundSettings>) => {
+    commitRecipe(prev => ({ ...prev, foreground: { ...prev.foreground, ...patch } }), describeRecipeChange(patch, 'foreground'))
+  }, [commitRecipe])
+
+  const updateTextLayer = useCallback((layer: 'headline' | 'subtitle', patch: Partial<TextLayerSettings>) => {
+    commitRecipe(
+      prev => ({ ...prev, foreground: { ...prev.foreground, [layer]: { ...prev.foreground[layer], ...patch } } }),
+      describeRecipeChange(patch, `foreground.${layer}`)
+    )
+  }, [commitRecipe])
+
+  const updateLogo = useCallback((patch: Partial<LogoSettings>) => {
+    commitRecipe(
+      prev => ({ ...prev, foreground: { ...prev.foreground, logo: { ...prev.foreground.logo, ...patch } } }),
+      describeRecipeChange(patch, 'foreground.logo')
+    )
+  }, [commitRecipe])
+
+  const handleLogoUpload = useCallback(async (file: File) => {
+    try {
+      updateLogo({ src: await readLogoFile(file) })
+    } catch (error) {
+      console.error('Logo upload failed:', error)
+      alert(`Could not use this logo${error instanceof Error ? `: ${error.message}` : ''}`)
+    }
+  }, [updateLogo])
+
+  // Layers are edited by id, so an edit always lands on the layer it was made on
+  const updateLayer = useCallback((id: string, patch: Partial<GradientLayer>) => {
+    commitRecipe(prev => ({ ...prev, layers: patchLayer(prev.layers, id, patch) }), describeLayerChange(id, patch))
+  }, [commitRecipe])
+
+  const updateLayerTransform = useCallback((id: string, patch: Partial<LayerTransform>) => {
+    commitRecipe(
+      prev => ({
+        ...prev,
+        layers: prev.layers.map(layer => (layer.id === id ? { ...layer, transform: { ...layer.transform, ...patch } } : layer))
+      }),
+      describeLayerChange(id, patch, 'layer.transform')
+    )
+  }, [commitRecipe])
+
+  // One history step for everything the picture sets
+  const handleImageAnalyzed = useCallback((analysis: ImageAnalysis, snapToBrand: boolean) => {
+    commitRecipe(prev => applyImageAnalysis(prev, analysis, activePalette, snapToBrand), { label: 'Colors from image' })
+  }, [commitRecipe, activePalette])
+
+  const handleAddLayer = useCallback(() => {
+    if (!canAddLayer(recipe.layers)) return
+    commitRecipe(prev => ({ ...prev, layers: [...prev.layers, createLayer('radial')] }), { label: 'Add layer' })
+  }, [commitRecipe, recipe.layers])
+
+  const handleRemoveLayer = useCallback((id: string) => {
+    commitRecipe(prev => ({ ...prev, layers: removeLayer(prev.layers, id) }), { label: 'Remove layer' })
+  }, [commitRecipe])
+
+  const handleMoveLayer = useCallback((id: string, offset: number) => {
+    commitRecipe(prev => ({ ...prev, layers: moveLayer(prev.layers, id, offset) }), { label: 'Reorder layers' })
+  }, [commitRecipe])
+
+  const handleUndo = useCallback(() => setHistory(undoHistory), [])
+  const handleRedo = useCallback(() => setHistory(redoHistory), [])
+  const handleHistoryJump = useCallback((index: number) => setHistory(prev => jumpHistory(prev, index)), [])
+
+  // Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) handleUndo()
+      else if ((key === 'z' && event.shiftKey) || key === 'y') handleRedo()
+      else return
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleUndo, handleRedo])
   
-  // Aspect Ratio Controls
-  const [aspectRatio, setAspectRatio] = useState<string>('1:1')
+  const handleColorsChange = useCallback((newColors: Color[]) => {
+    updateRecipe({ colors: newColors })
+  }, [updateRecipe])
   
   // Export Resolution Controls
-  const [exportResolution, setExportResolution] = useState<string>('M')
-  
-  const resolutionOptions = {
-    'S': { width: 1920, height: 1080, label: 'S' },
-    'M': { width: 2880, height: 1800, label: 'M' },
-    'L': { width: 3840, height: 2160, label: 'L' },
-    'XL': { width: 5120, height: 2880, label: 'XL' }
-  }
-  
-  // Overlay Effects
-  const [overlayEnabled, setOverlayEnabled] = useState(false)
-  const [overlayType, setOverlayType] = useState<'glass' | 'horizontal-glitch' | 'vertical-glitch' | 'pattern' | 'noise'>('glass')
-  const [overlayIntensity, setOverlayIntensity] = useState(0.5)
-
-  // Glass Ripple Effect
-  const [rippleEnabled, setRippleEnabled] = useState(false)
-  const [rippleFrequencyX, setRippleFrequencyX] = useState(0.02)
-  const [rippleFrequencyY, setRippleFrequencyY] = useState(0.015)
-  const [rippleAmplitudeX, setRippleAmplitudeX] = useState(8)
-  const [rippleAmplitudeY, setRippleAmplitudeY] = useState(12)
+  const [exportSize, setExportSize] = useState<ExportSize>({ kind: 'fit', key: 'M' })
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('webp')
+  const [exportQuality, setExportQuality] = useState(0.95)
+  const [supportedFormats, setSupportedFormats] = useState<ExportFormat[]>(['png', 'jpeg'])
+  const [bundleOpen, setBundleOpen] = useState(false)
+  const [animationExportOpen, setAnimationExportOpen] = useState(false)
+  const [libraryOpen, setLibraryOpen] = useState(false)
+  const [variationsOpen, setVariationsOpen] = useState(false)
+  const [justSaved, setJustSaved] = useState(false)
+  const [exportProgress, setExportProgress] = useState<number | null>(null)
+  const exportControllerRef = useRef<AbortController | null>(null)
 
+  useEffect(() => {
+    detectSupportedFormats().then(setSupportedFormats)
+  }, [])
+  
   const [regenerateTrigger, setRegenerateTrigger] = useState(0)
-  const [currentCanvas, setCurrentCanvas] = useState<HTMLCanvasElement | null>(null)
 
   const handleRegenerate = useCallback(() => {
-    handleColorsChange(getRandomMidToneColors(Math.floor(Math.random() * 4) + 2))
-    setColorBlobs([]) // Clear positioned blobs to go back to random generation
+    commitRecipe(prev => recipeFromSeed(randomSeed(), prev, activePalette, activeMood), { label: 'Regenerate' })
     setRegenerateTrigger(prev => prev + 1)
-  }, [handleColorsChange])
+  }, [commitRecipe, activePalette, activeMood])
 
-  const handleExport = useCallback(async () => {
-    // Get selected resolution settings
-    const resolution = resolutionOptions[exportResolution as keyof typeof resolutionOptions]
-    if (!resolution) return
-
-    // Calculate canvas dimensions based on current aspect ratio
-    const [widthRatio, heightRatio] = aspectRatio.split(':').map(Number)
-    const targetAspectRatio = widthRatio / heightRatio
-    
-    let exportWidth = resolution.width
-    let exportHeight = resolution.width / targetAspectRatio
-    
-    // If height exceeds resolution height, scale to fit height
-    if (exportHeight > resolution.height) {
-      exportHeight = resolution.height
-      exportWidth = resolution.height * targetAspectRatio
+  // Picking a mood regenerates within it right away
+  const handleMoodChange = useCallback((id: string | null) => {
+    handleMoodsChange({ ...moodState, activeId: id })
+    const mood = moodState.moods.find(entry => entry.id === id)
+    commitRecipe(prev => recipeFromSeed(randomSeed(), prev, activePalette, mood), { label: mood ? `Mood: ${mood.name}` : 'Regenerate' })
+    setRegenerateTrigger(prev => prev + 1)
+  }, [handleMoodsChange, moodState, commitRecipe, activePalette])
+
+  const handleSaveMood = useCallback(() => {
+    const name = prompt('Name this mood:', 'My mood')?.trim()
+    if (!name) return
+    const mood = createMoodFromColors(name, colors)
+    handleMoodsChange({ moods: [...moodState.moods, mood], activeId: mood.id })
+  }, [colors, moodState, handleMoodsChange])
+
+  const handleDeleteMood = useCallback((id: string) => {
+    const mood = moodState.moods.find(entry => entry.id === id)
+    if (!mood?.custom || !confirm(`Delete the mood "${mood.name}"?`)) return
+    handleMoodsChange({ moods: moodState.moods.filter(entry => entry.id !== id), activeId: moodState.activeId === id ? null : moodState.activeId })
+  }, [moodState, handleMoodsChange])
+
+  const handleRecipeLoad = useCallback((loaded: BackgroundRecipe) => {
+    commitRecipe(() => loaded, { label: 'Import recipe' })
+  }, [commitRecipe])
+
+  const handleAdoptVariation = useCallback((variation: Variation) => {
+    commitRecipe(() => variation.recipe, { label: `Variation: ${variation.label}` })
+  }, [commitRecipe])
+
+  const handleLibraryLoad = useCallback((loaded: BackgroundRecipe, name: string) => {
+    commitRecipe(() => loaded, { label: `Load "${name}"` })
+  }, [commitRecipe])
+
+  // Quick save; naming and tagging happen in the library
+  const handleSave = useCallback(async () => {
+    try {
+      await saveDesign(recipe, `Background ${recipe.seed}`)
+      setJustSaved(true)
+      setTimeout(() => setJustSaved(false), 1500)
+    } catch (error) {
+      console.error('Saving design failed:', error)
+      alert(`Could not save the design${error instanceof Error ? `: ${error.message}` : ''}`)
     }
-    
-    exportWidth = Math.round(exportWidth)
-    exportHeight = Math.round(exportHeight)
+  }, [recipe])
 
-    // Create high-resolution export canvas
-    const exportCanvas = document.createElement('canvas')
-    const exportCtx = exportCanvas.getContext('2d')
-    if (!exportCtx) return
+  // Presets and custom sizes carry their own aspect ratio
+  const handleExportSizeChange = useCallback((size: ExportSize) => {
+    setExportSize(size)
+    if (size.kind === 'exact') {
+      commitRecipe(prev => {
+        const aspectRatio = aspectRatioFromSize(size.width, size.height)
+        return isSameAspectRatio(prev.aspectRatio, aspectRatio) ? prev : { ...prev, aspectRatio }
+      }, { label: 'Aspect ratio' })
+    }
+  }, [commitRecipe])
 
-    exportCanvas.width = exportWidth
-    exportCanvas.height = exportHeight
+  const exportDimensions = useMemo(() => resolveExportSize(exportSize, recipe.aspectRatio), [exportSize, recipe.aspectRatio])
 
-    // Call the CanvasRenderer's high-resolution rendering method
+  const handleCheckLegibility = useCallback(async () => {
+    setCheckingLegibility(true)
     try {
-      // Call the renderAtResolution method we exposed on the canvas
-      if (currentCanvas && (currentCanvas as any).renderAtResolution) {
-        (currentCanvas as any).renderAtResolution(exportCanvas, exportWidth, exportHeight)
-      } else {
-        // Fallback: just scale up current canvas (lower quality but works)
-        exportCtx.drawImage(currentCanvas!, 0, 0, exportWidth, exportHeight)
-      }
+      setLegibility(await analyzeAtSize(recipe, recipe.textArea, exportDimensions.width, exportDimensions.height))
+    } catch (error) {
+      console.error('Checking the text area failed:', error)
+      alert('Checking the text area failed. Please try again.')
+    } finally {
+      setCheckingLegibility(false)
+    }
+  }, [recipe, exportDimensions])
 
-      // Export as WebP
-      exportCanvas.toBlob((blob) => {
-        if (!blob) return
-        
-        const url = URL.createObjectURL(blob)
-        const a = document.createElement('a')
-        a.href = url
-        a.download = `background-${exportWidth}x${exportHeight}-${Date.now()}.webp`
-        document.body.appendChild(a)
-        a.click()
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
-      }, 'image/webp', 0.95)
-      
+  const handleExport = useCallback(async () => {
+    // A second click while rendering cancels the running export
+    if (exportControllerRef.current) {
+      exportControllerRef.current.abort()
+      return
+    }
+
+    const { width: exportWidth, height: exportHeight } = exportDimensions
+    const controller = new AbortController()
+    exportControllerRef.current = controller
+
+    try {
+      // Same pipeline as the preview, at export resolution, in the render worker (very large sizes render in strips)
+      setExportProgress(0)
+      const { blob, format, fellBack } = await renderExport(
+        { recipe, width: exportWidth, height: exportHeight, format: exportFormat, quality: exportQuality },
+        { onProgress: (done, total) => setExportProgress(done / total), signal: controller.signal }
+      )
+      downloadBlob(blob, exportFilename(exportWidth, exportHeight, format))
+
+      if (fellBack) {
+        alert(`This browser cannot export ${EXPORT_FORMATS[exportFormat].label}; saved as ${EXPORT_FORMATS[format].label} instead`)
+      }
     } catch (error) {
+      if (error instanceof RenderCancelledError) return
       console.error('Export failed:', error)
+      alert('Export failed')
+    } finally {
+      exportControllerRef.current = null
+      setExportProgress(null)
     }
-  }, [
-    exportResolution, 
-    aspectRatio, 
-    resolutionOptions, 
-    currentCanvas, 
-    colors, 
-    posterizeSteps, 
-    noiseIntensity, 
-    gradientStyle, 
-    gradientIntensity, 
-    gradientDensity, 
-    colorBlobs, 
-    zoomLevel, 
-    overlayEnabled, 
-    overlayType, 
-    overlayIntensity
-  ])
-
-  const handleCanvasReady = useCallback((canvas: HTMLCanvasElement) => {
-    setCurrentCanvas(canvas)
-  }, [])
+  }, [exportDimensions, exportFormat, exportQuality, recipe])
 
   return (
     <main className="flex h-screen bg-neutral-100 dark:bg-neutral-900 transition-colors relative">
@@ -161,42 +396,73 @@ export default function Home() {
       <div className="w-80 h-full overflow-y-auto">
         <ControlsPanel
           colors={colors}
-          posterizeSteps={posterizeSteps}
-          noiseIntensity={noiseIntensity}
-          gradientStyle={gradientStyle}
-          gradientIntensity={gradientIntensity}
-          gradientDensity={gradientDensity}
+          posterizeSteps={recipe.posterizeSteps}
+          noiseIntensity={recipe.noiseIntensity}
+          layers={recipe.layers}
+          gradientIntensity={recipe.gradientIntensity}
+          gradientDensity={recipe.gradientDensity}
           onColorsChange={handleColorsChange}
-          onPosterizeStepsChange={setPosterizeSteps}
-          onNoiseIntensityChange={setNoiseIntensity}
-          onGradientStyleChange={setGradientStyle}
-          onGradientIntensityChange={setGradientIntensity}
-          onGradientDensityChange={setGradientDensity}
-          zoomLevel={zoomLevel}
-          onZoomLevelChange={setZoomLevel}
-          isAnimated={isAnimated}
-          onAnimatedChange={setIsAnimated}
-          animationSpeed={animationSpeed}
-          onAnimationSpeedChange={setAnimationSpeed}
-          onColorBlobsChange={setColorBlobs}
-          overlayEnabled={overlayEnabled}
-          overlayType={overlayType}
-          overlayIntensity={overlayIntensity}
-          onOverlayEnabledChange={setOverlayEnabled}
-          onOverlayTypeChange={setOverlayType}
-          onOverlayIntensityChange={setOverlayIntensity}
-          aspectRatio={aspectRatio}
-          onAspectRatioChange={setAspectRatio}
-          rippleEnabled={rippleEnabled}
-          rippleFrequencyX={rippleFrequencyX}
-          rippleFrequencyY={rippleFrequencyY}
-          rippleAmplitudeX={rippleAmplitudeX}
-          rippleAmplitudeY={rippleAmplitudeY}
-          onRippleEnabledChange={setRippleEnabled}
-          onRippleFrequencyXChange={setRippleFrequencyX}
-          onRippleFrequencyYChange={setRippleFrequencyY}
-          onRippleAmplitudeXChange={setRippleAmplitudeX}
-          onRippleAmplitudeYChange={setRippleAmplitudeY}
+          palette={activePalette}
+          palettes={paletteState.palettes}
+          onPaletteChange={(id) => handlePalettesChange(paletteState.palettes, id)}
+          onManagePalettes={() => setPaletteDialogOpen(true)}
+          moods={moodState.moods}
+          mood={activeMood ?? null}
+          onMoodChange={handleMoodChange}
+          onSaveMood={handleSaveMood}
+          onDeleteMood={handleDeleteMood}
+          seed={seed}
+          onSeedChange={(value) => updateRecipe({ seed: value })}
+          onRegenerate={handleRegenerate}
+          onShowVariations={() => setVariationsOpen(true)}
+          onPosterizeStepsChange={(value) => updateRecipe({ posterizeSteps: value })}
+          onNoiseIntensityChange={(value) => updateRecipe({ noiseIntensity: value })}
+          onLayerChange={updateLayer}
+          onLayerTransformChange={updateLayerTransform}
+          onAddLayer={handleAddLayer}
+          onRemoveLayer={handleRemoveLayer}
+          onMoveLayer={handleMoveLayer}
+          onGradientIntensityChange={(value) => updateRecipe({ gradientIntensity: value })}
+          onGradientDensityChange={(value) => updateRecipe({ gradientDensity: value })}
+          zoomLevel={recipe.zoomLevel}
+          onZoomLevelChange={(value) => updateRecipe({ zoomLevel: value })}
+          isAnimated={recipe.isAnimated}
+          onAnimatedChange={(value) => updateRecipe({ isAnimated: value })}
+          animationSpeed={recipe.animationSpeed}
+          onAnimationSpeedChange={(value) => updateRecipe({ animationSpeed: value })}
+          loopDuration={recipe.loopDuration}
+          onLoopDurationChange={(value) => updateRecipe({ loopDuration: value })}
+          onImageAnalyzed={handleImageAnalyzed}
+          overlayEnabled={recipe.overlay.enabled}
+          overlayType={recipe.overlay.type}
+          overlayIntensity={recipe.overlay.intensity}
+          onOverlayEnabledChange={(value) => updateOverlay({ enabled: value })}
+          onOverlayTypeChange={(value) => updateOverlay({ type: value })}
+          onOverlayIntensityChange={(value) => updateOverlay({ intensity: value })}
+          aspectRatio={recipe.aspectRatio}
+          onAspectRatioChange={(value) => updateRecipe({ aspectRatio: value })}
+          rippleEnabled={recipe.ripple.enabled}
+          rippleFrequencyX={recipe.ripple.frequencyX}
+          rippleFrequencyY={recipe.ripple.frequencyY}
+          rippleAmplitudeX={recipe.ripple.amplitudeX}
+          rippleAmplitudeY={recipe.ripple.amplitudeY}
+          onRippleEnabledChange={(value) => updateRipple({ enabled: value })}
+          onRippleFrequencyXChange={(value) => updateRipple({ frequencyX: value })}
+          onRippleFrequencyYChange={(value) => updateRipple({ frequencyY: value })}
+          onRippleAmplitudeXChange={(value) => updateRipple({ amplitudeX: value })}
+          onRippleAmplitudeYChange={(value) => updateRipple({ amplitudeY: value })}
+          textArea={recipe.textArea}
+          onTextAreaChange={updateTextArea}
+          legibility={legibility}
+          exportWidth={exportDimensions.width}
+          exportHeight={exportDimensions.height}
+          isCheckingLegibility={checkingLegibility}
+          onCheckLegibility={handleCheckLegibility}
+          foreground={recipe.foreground}
+          onForegroundChange={updateForeground}
+          onTextLayerChange={updateTextLayer}
+          onLogoChange={updateLogo}
+          onLogoUpload={handleLogoUpload}
         />
       </div>
       
@@ -204,55 +470,149 @@ export default function Home() {
       <div className="flex-1 h-full p-8 flex items-center justify-center">
         <div className="canvas-container rounded-xl shadow-lg overflow-hidden inline-block relative">
           <CanvasRenderer
-          colors={colors}
-          posterizeSteps={posterizeSteps}
-          noiseIntensity={noiseIntensity}
-          gradientStyle={gradientStyle}
-          gradientIntensity={gradientIntensity}
-          gradientDensity={gradientDensity}
-          colorBlobs={colorBlobs}
-          zoomLevel={zoomLevel}
-          isAnimated={isAnimated}
-          animationSpeed={animationSpeed}
+          recipe={recipe}
           triggerRegenerate={regenerateTrigger}
-          overlayEnabled={overlayEnabled}
-          overlayType={overlayType}
-          overlayIntensity={overlayIntensity}
-          aspectRatio={aspectRatio}
-          rippleEnabled={rippleEnabled}
-          rippleFrequencyX={rippleFrequencyX}
-          rippleFrequencyY={rippleFrequencyY}
-          rippleAmplitudeX={rippleAmplitudeX}
-          rippleAmplitudeY={rippleAmplitudeY}
           onCanvasReady={handleCanvasReady}
         />
+
+        {(recipe.textArea.enabled || hasForegroundText(recipe)) && (
+          <TextAreaOverlay
+            area={recipe.textArea}
+            textColor={recipe.textArea.textColor}
+            showSample={!hasForegroundText(recipe)}
+            onChange={updateTextArea}
+          />
+        )}
         
         {/* Export Controls Overlay */}
         <div className="absolute top-3 right-3 flex gap-2 items-center">
-          <Select value={exportResolution} onValueChange={setExportResolution}>
-            <SelectTrigger className="w-16 h-8 bg-white/10 hover:bg-white/20 text-white border-white/20 backdrop-blur-sm text-xs">
-              <SelectValue />
+          <ExportSizePicker
+            value={exportSize}
+            width={exportDimensions.width}
+            height={exportDimensions.height}
+            onChange={handleExportSizeChange}
+          />
+
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+            <SelectTrigger className="w-20 h-8 bg-white/10 hover:bg-white/20 text-white border-white/20 backdrop-blur-sm text-xs">
+              <SelectValue>{EXPORT_FORMATS[exportFormat].label.split(' ')[0]}</SelectValue>
             </SelectTrigger>
             <SelectContent>
-              {Object.entries(resolutionOptions).map(([key, option]) => (
-                <SelectItem key={key} value={key} className="text-xs">
-                  {key}
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+                <SelectItem key={format} value={format} className="text-xs" disabled={!supportedFormats.includes(format)}>
+                  {EXPORT_FORMATS[format].label}
+                  {!supportedFormats.includes(format) && ' (not supported)'}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
+
+          {EXPORT_FORMATS[exportFormat].lossy && (
+            <Select value={String(exportQuality)} onValueChange={(value) => setExportQuality(Number(value))}>
+              <SelectTrigger className="w-16 h-8 bg-white/10 hover:bg-white/20 text-white border-white/20 backdrop-blur-sm text-xs" title="Quality">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_QUALITIES.map((quality) => (
+                  <SelectItem key={quality} value={String(quality)} className="text-xs">
+                    {Math.round(quality * 100)}%
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <HistoryMenu history={history} onUndo={handleUndo} onRedo={handleRedo} onJump={handleHistoryJump} />
+
+          <RecipeMenu recipe={recipe} onRecipeLoad={handleRecipeLoad} />
+
+          <Button
+            onClick={handleSave}
+            className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
+            size="sm"
+            title="Save to library"
+          >
+            {justSaved ? <Check className="w-4 h-4" /> : <Save className="w-4 h-4" />}
+          </Button>
+
+          <Button
+            onClick={() => setLibraryOpen(true)}
+            className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
+            size="sm"
+            title="Library"
+          >
+            <Library className="w-4 h-4" />
+          </Button>
+
+          <Button
+            onClick={() => setBundleOpen(true)}
+            className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
+            size="sm"
+            title="Bundle export (ZIP)"
+          >
+            <Package className="w-4 h-4" />
+          </Button>
+
+          {recipe.isAnimated && (
+            <Button
+              onClick={() => setAnimationExportOpen(true)}
+              className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
+              size="sm"
+              title="Export animation (WebP, GIF, WebM)"
+            >
+              <Film className="w-4 h-4" />
+            </Button>
+          )}
           
           <Button 
             onClick={handleExport}
             className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
             size="sm"
+            title={exportProgress === null ? undefined : 'Cancel export'}
           >
-            <Download className="w-4 h-4 mr-2" />
-            Export
+            {exportProgress === null ? <Download className="w-4 h-4 mr-2" /> : <X className="w-4 h-4 mr-2" />}
+            {exportProgress === null ? 'Export' : `${Math.round(exportProgress * 100)}%`}
           </Button>
         </div>
         </div>
       </div>
+
+      <BundleExportDialog
+        isOpen={bundleOpen}
+        onClose={() => setBundleOpen(false)}
+        recipe={recipe}
+        format={exportFormat}
+        quality={exportQuality}
+      />
+
+      <AnimationExportDialog
+        isOpen={animationExportOpen}
+        onClose={() => setAnimationExportOpen(false)}
+        recipe={recipe}
+      />
+
+      <VariationsDialog
+        isOpen={variationsOpen}
+        onClose={() => setVariationsOpen(false)}
+        recipe={recipe}
+        palette={activePalette}
+        onAdopt={handleAdoptVariation}
+      />
+
+      <PaletteDialog
+        isOpen={paletteDialogOpen}
+        onClose={() => setPaletteDialogOpen(false)}
+        palettes={paletteState.palettes}
+        activeId={paletteState.activeId}
+        onChange={handlePalettesChange}
+      />
+
+      <LibraryDialog
+        isOpen={libraryOpen}
+        onClose={() => setLibraryOpen(false)}
+        recipe={recipe}
+        onLoad={handleLibraryLoad}
+      />
     </main>
   )
 } 
\ No newline at end of file
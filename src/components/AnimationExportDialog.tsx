@@ -0,0 +1,189 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { ModalPortal } from './ui/modal-portal'
+import { BackgroundRecipe } from '@/lib/recipe'
+import {
+  ANIMATION_FORMATS,
+  ANIMATION_FRAME_RATES,
+  ANIMATION_SIZES,
+  AnimationFormat,
+  SEQUENCE_LOOP_COUNTS,
+  animationDimensions,
+  detectAnimationFormats,
+  frameCount
+} from '@/lib/animation'
+import { RenderCancelledError, renderAnimation } from '@/lib/render/worker-client'
+import { downloadBlob } from '@/lib/download'
+import { Film } from 'lucide-react'
+
+interface AnimationExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  recipe: BackgroundRecipe
+}
+
+interface OptionGroupProps<T extends string | number> {
+  label: string
+  options: T[]
+  value: T
+  onChange: (value: T) => void
+  format?: (value: T) => string
+  disabled: boolean
+}
+
+const OptionGroup = <T extends string | number>({ label, options, value, onChange, format = String, disabled }: OptionGroupProps<T>) => (
+  <div className="space-y-2">
+    <Label className="text-gray-900 dark:text-white">{label}</Label>
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <Button
+          key={option}
+          variant={option === value ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => onChange(option)}
+          disabled={disabled}
+        >
+          {format(option)}
+        </Button>
+      ))}
+    </div>
+  </div>
+)
+
+export const AnimationExportDialog: React.FC<AnimationExportDialogProps> = ({ isOpen, onClose, recipe }) => {
+  const [formats, setFormats] = useState<AnimationFormat[]>(['gif'])
+  const [format, setFormat] = useState<AnimationFormat>('gif')
+  const [fps, setFps] = useState(24)
+  const [longestSide, setLongestSide] = useState(720)
+  const [loops, setLoops] = useState(1)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Prefer WebP where the browser can encode it: far smaller than GIF, full color
+  useEffect(() => {
+    detectAnimationFormats().then(supported => {
+      setFormats(supported)
+      if (supported.includes('webp')) setFormat('webp')
+    })
+  }, [])
+
+  const { width, height } = animationDimensions(recipe.aspectRatio, longestSide)
+  const sequence = format === 'png-sequence'
+  const duration = recipe.loopDuration * (sequence ? loops : 1)
+  const frames = frameCount(duration, fps)
+
+  const handleExport = async () => {
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    try {
+      setProgress({ done: 0, total: frames })
+      const blob = await renderAnimation(
+        { recipe, width, height, fps, format, duration },
+        { onProgress: (done, total) => setProgress({ done, total }), signal: controller.signal }
+      )
+      const name = sequence ? `background-frames-${width}x${height}-${fps}fps-${recipe.seed}` : `background-loop-${width}x${height}-${recipe.seed}`
+      downloadBlob(blob, `${name}.${ANIMATION_FORMATS[format].extension}`)
+      onClose()
+    } catch (error) {
+      if (error instanceof RenderCancelledError) return
+      console.error('Animation export failed:', error)
+      alert(`Animation export failed${error instanceof Error ? `: ${error.message}` : ''}`)
+    } finally {
+      controllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  // While rendering, Cancel stops the export instead of closing the dialog
+  const handleCancel = () => {
+    if (controllerRef.current) controllerRef.current.abort()
+    else onClose()
+  }
+
+  const busy = progress !== null
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4" onClick={(e) => e.target === e.currentTarget && !busy && onClose()}>
+        <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          {/* Header */}
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-xl font-semibold mb-1 text-gray-900 dark:text-white">Export Animation</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {sequence
+                ? `Renders ${duration}s of the timeline as numbered PNG frames: ${frames} frames at ${width}×${height}.`
+                : `Renders one seamless ${recipe.loopDuration}s loop frame by frame: ${frames} frames at ${width}×${height}.`}
+            </p>
+          </div>
+
+          {/* Options */}
+          <div className="p-6 overflow-y-auto flex-1 space-y-5">
+            <OptionGroup
+              label="Format"
+              options={formats}
+              value={format}
+              onChange={setFormat}
+              format={option => ANIMATION_FORMATS[option].label}
+              disabled={busy}
+            />
+            <OptionGroup
+              label="Frame rate"
+              options={ANIMATION_FRAME_RATES}
+              value={fps}
+              onChange={setFps}
+              format={option => `${option} fps`}
+              disabled={busy}
+            />
+            <OptionGroup
+              label="Size (longest side)"
+              options={ANIMATION_SIZES}
+              value={longestSide}
+              onChange={setLongestSide}
+              format={option => `${option}px`}
+              disabled={busy}
+            />
+            {sequence && (
+              <OptionGroup
+                label="Duration"
+                options={SEQUENCE_LOOP_COUNTS}
+                value={loops}
+                onChange={setLoops}
+                format={option => `${option * recipe.loopDuration}s${option > 1 ? ` (${option} loops)` : ''}`}
+                disabled={busy}
+              />
+            )}
+            {format === 'gif' && longestSide > 720 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Large GIFs get heavy quickly; WebP or WebM keep the same loop far smaller.
+              </p>
+            )}
+            {sequence && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Lossless frames named frame_0001.png onwards, with a manifest.json of the fps and recipe. Import them as an image sequence in After Effects or similar tools.
+              </p>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-6 border-t border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700">
+            <div className="flex gap-3">
+              <Button onClick={handleExport} className="flex-1 text-base py-2" disabled={busy}>
+                <Film className="w-5 h-5 mr-2" />
+                {progress
+                  ? `Rendering frame ${Math.min(progress.done + 1, progress.total)} of ${progress.total}…`
+                  : `Export ${ANIMATION_FORMATS[format].label}`}
+              </Button>
+              <Button variant="outline" onClick={handleCancel} className="text-base py-2 px-6 dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ModalPortal>
+  )
+}
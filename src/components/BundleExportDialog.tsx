@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { ModalPortal } from './ui/modal-portal'
+import { BackgroundRecipe } from '@/lib/recipe'
+import { ExportSize, RESOLUTION_OPTIONS, SIZE_PRESETS, fitToAspectRatio } from '@/lib/dimensions'
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export'
+import { BUNDLE_GROUPS, BundleProgress, FIT_SIZES, renderBundle } from '@/lib/bundle'
+import { downloadBlob } from '@/lib/download'
+import { RenderCancelledError } from '@/lib/render/worker-client'
+import { Package } from 'lucide-react'
+
+interface BundleExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  recipe: BackgroundRecipe
+  format: ExportFormat
+  quality: number
+}
+
+const CATEGORIES = Array.from(new Set(SIZE_PRESETS.map(preset => preset.category)))
+
+const sizeKey = (size: ExportSize) => (size.kind === 'fit' ? `fit:${size.key}` : `preset:${size.presetId}`)
+
+const PRESET_SIZES: ExportSize[] = SIZE_PRESETS.map(preset => ({
+  kind: 'exact',
+  width: preset.width,
+  height: preset.height,
+  presetId: preset.id
+}))
+
+export const BundleExportDialog: React.FC<BundleExportDialogProps> = ({ isOpen, onClose, recipe, format, quality }) => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(BUNDLE_GROUPS[0].presetIds.map(id => `preset:${id}`)))
+  const [progress, setProgress] = useState<BundleProgress | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const selectGroup = (presetIds: string[]) => {
+    setSelected(prev => new Set([...Array.from(prev), ...presetIds.map(id => `preset:${id}`)]))
+  }
+
+  const handleExport = async () => {
+    const sizes = [...FIT_SIZES, ...PRESET_SIZES].filter(size => selected.has(sizeKey(size)))
+    if (sizes.length === 0) return
+
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    try {
+      setProgress({ done: 0, total: sizes.length })
+      const zip = await renderBundle(recipe, sizes, { format, quality, onProgress: setProgress, signal: controller.signal })
+      downloadBlob(zip, `background-bundle-${recipe.seed}.zip`)
+      onClose()
+    } catch (error) {
+      if (error instanceof RenderCancelledError) return
+      console.error('Bundle export failed:', error)
+      alert('Bundle export failed')
+    } finally {
+      controllerRef.current = null
+      setProgress(null)
+    }
+  }
+
+  // While rendering, Cancel stops the bundle instead of closing the dialog
+  const handleCancel = () => {
+    if (controllerRef.current) controllerRef.current.abort()
+    else onClose()
+  }
+
+  const renderOption = (size: ExportSize, label: string, width: number, height: number) => {
+    const key = sizeKey(size)
+    return (
+      <label key={key} className="flex items-center gap-2 text-sm text-gray-800 dark:text-gray-200 cursor-pointer">
+        <input type="checkbox" checked={selected.has(key)} onChange={() => toggle(key)} disabled={progress !== null} />
+        <span className="flex-1">{label}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">{width}×{height}</span>
+      </label>
+    )
+  }
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4" onClick={(e) => e.target === e.currentTarget && progress === null && onClose()}>
+        <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          {/* Header */}
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-xl font-semibold mb-1 text-gray-900 dark:text-white">Bundle Export</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Render this design at several sizes into one ZIP with a manifest.json. Files are saved as {EXPORT_FORMATS[format].label}.
+            </p>
+            <div className="flex flex-wrap gap-2 mt-4">
+              {BUNDLE_GROUPS.map(group => (
+                <Button key={group.label} variant="outline" size="sm" onClick={() => selectGroup(group.presetIds)} disabled={progress !== null}>
+                  + {group.label}
+                </Button>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setSelected(new Set())} disabled={progress !== null}>
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          {/* Size list */}
+          <div className="p-6 overflow-y-auto flex-1 grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-gray-900 dark:text-white">Current aspect ratio ({recipe.aspectRatio})</Label>
+              {FIT_SIZES.map(size => {
+                if (size.kind !== 'fit') return null
+                const box = RESOLUTION_OPTIONS[size.key]
+                const { width, height } = fitToAspectRatio(recipe.aspectRatio, box.width, box.height)
+                return renderOption(size, size.key, width, height)
+              })}
+            </div>
+            {CATEGORIES.map(category => (
+              <div key={category} className="space-y-2">
+                <Label className="text-gray-900 dark:text-white">{category}</Label>
+                {SIZE_PRESETS.filter(preset => preset.category === category).map(preset =>
+                  renderOption({ kind: 'exact', width: preset.width, height: preset.height, presetId: preset.id }, preset.label, preset.width, preset.height)
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Footer */}
+          <div className="p-6 border-t border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700">
+            <div className="flex gap-3">
+              <Button onClick={handleExport} className="flex-1 text-base py-2" disabled={selected.size === 0 || progress !== null}>
+                <Package className="w-5 h-5 mr-2" />
+                {progress
+                  ? `Rendering ${Math.min(progress.done + 1, progress.total)} of ${progress.total}…`
+                  : `Export ${selected.size} ${selected.size === 1 ? 'file' : 'files'} as ZIP`}
+              </Button>
+              <Button variant="outline" onClick={handleCancel} className="text-base py-2 px-6 dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </ModalPortal>
+  )
+}
@@ -1,27 +1,72 @@
 'use client'
 
-import React, { useState, useRef } from 'react'
+import React, { useState, useMemo } from 'react'
 import { Button } from './ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
 import { Slider } from './ui/slider'
 import { Switch } from './ui/switch'
 import { Label } from './ui/label'
-import { Color, BRAND_COLORS, getRandomMidToneColors } from '@/utils/colors'
-import { Shuffle, Plus, X, Palette, Upload, Image } from 'lucide-react'
+import { Color, hexToRgb } from '@/utils/colors'
+import { Palette, findPaletteColor, paletteColors, randomMidToneColors, snapToPalette } from '@/lib/palette'
+import { COLOR_FORMATS, ColorFormat, formatColor } from '@/lib/color-space'
+import { Mood } from '@/lib/moods'
+import { parseCssColor } from '@/lib/palette-import'
+import { normalizeSeed, randomSeed } from '@/utils/random'
+import {
+  ForegroundSettings,
+  GradientLayer,
+  LayerTransform,
+  LogoSettings,
+  OverlayType,
+  TextAreaSettings,
+  TextLayerSettings,
+  colorFromHex
+} from '@/lib/recipe'
+import { LegibilityReport } from '@/lib/legibility'
+import { ImageAnalysis } from '@/lib/analysis/analyze'
+import { Shuffle, Plus, X, Palette as PaletteIcon, Dices, LayoutGrid, Paintbrush, Pipette, BookmarkPlus, Trash2 } from 'lucide-react'
 import { getDisplayVersion } from '@/lib/version'
 import { ModalPortal } from './ui/modal-portal'
+import { TextAreaPanel } from './TextAreaPanel'
+import { ForegroundPanel } from './ForegroundPanel'
+import { ImageAnalysisPanel } from './ImageAnalysisPanel'
+import { LayersPanel } from './LayersPanel'
+
+const STANDARD_ASPECT_RATIOS = ['1:1', '3:4', '4:3', '16:9', '9:16']
+
+// The EyeDropper API is Chromium-only and not yet in the DOM typings
+interface EyeDropperWindow {
+  EyeDropper: new () => { open: () => Promise<{ sRGBHex: string }> }
+}
 
 interface ControlsPanelProps {
   colors: Color[]
   posterizeSteps: number
   noiseIntensity: number
-  gradientStyle: 'organic' | 'linear' | 'radial' | 'wave' | 'sunburst'
+  layers: GradientLayer[]
   gradientIntensity: number
   gradientDensity: number
   onColorsChange: (colors: Color[]) => void
+  palette: Palette
+  palettes: Palette[]
+  onPaletteChange: (id: string) => void
+  onManagePalettes: () => void
+  moods: Mood[]
+  mood: Mood | null
+  onMoodChange: (id: string | null) => void
+  onSaveMood: () => void
+  onDeleteMood: (id: string) => void
+  seed: number
+  onSeedChange: (seed: number) => void
+  onRegenerate: () => void
+  onShowVariations: () => void
   onPosterizeStepsChange: (steps: number) => void
   onNoiseIntensityChange: (intensity: number) => void
-  onGradientStyleChange: (style: 'organic' | 'linear' | 'radial' | 'wave' | 'sunburst') => void
+  onLayerChange: (id: string, patch: Partial<GradientLayer>) => void
+  onLayerTransformChange: (id: string, patch: Partial<LayerTransform>) => void
+  onAddLayer: () => void
+  onRemoveLayer: (id: string) => void
+  onMoveLayer: (id: string, offset: number) => void
   onGradientIntensityChange: (intensity: number) => void
   onGradientDensityChange: (density: number) => void
   zoomLevel: number
@@ -30,12 +75,14 @@ interface ControlsPanelProps {
   onAnimatedChange: (animated: boolean) => void
   animationSpeed: number
   onAnimationSpeedChange: (speed: number) => void
-  onColorBlobsChange?: (blobs: any[]) => void
+  loopDuration: number
+  onLoopDurationChange: (seconds: number) => void
+  onImageAnalyzed: (analysis: ImageAnalysis, snapToBrand: boolean) => void
   overlayEnabled: boolean
-  overlayType: 'glass' | 'horizontal-glitch' | 'vertical-glitch' | 'pattern' | 'noise'
+  overlayType: OverlayType
   overlayIntensity: number
   onOverlayEnabledChange: (enabled: boolean) => void
-  onOverlayTypeChange: (type: 'glass' | 'horizontal-glitch' | 'vertical-glitch' | 'pattern' | 'noise') => void
+  onOverlayTypeChange: (type: OverlayType) => void
   onOverlayIntensityChange: (intensity: number) => void
   aspectRatio: string
   onAspectRatioChange: (ratio: string) => void
@@ -49,6 +96,18 @@ interface ControlsPanelProps {
   onRippleFrequencyYChange: (frequency: number) => void
   onRippleAmplitudeXChange: (amplitude: number) => void
   onRippleAmplitudeYChange: (amplitude: number) => void
+  textArea: TextAreaSettings
+  onTextAreaChange: (patch: Partial<TextAreaSettings>) => void
+  legibility: LegibilityReport | null
+  exportWidth: number
+  exportHeight: number
+  isCheckingLegibility: boolean
+  onCheckLegibility: () => void
+  foreground: ForegroundSettings
+  onForegroundChange: (patch: Partial<ForegroundSettings>) => void
+  onTextLayerChange: (layer: 'headline' | 'subtitle', patch: Partial<TextLayerSettings>) => void
+  onLogoChange: (patch: Partial<LogoSettings>) => void
+  onLogoUpload: (file: File) => void
 }
 
 
@@ -57,13 +116,30 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
   colors,
   posterizeSteps,
   noiseIntensity,
-  gradientStyle,
+  layers,
   gradientIntensity,
   gradientDensity,
   onColorsChange,
+  palette,
+  palettes,
+  onPaletteChange,
+  onManagePalettes,
+  moods,
+  mood,
+  onMoodChange,
+  onSaveMood,
+  onDeleteMood,
+  seed,
+  onSeedChange,
+  onRegenerate,
+  onShowVariations,
   onPosterizeStepsChange,
   onNoiseIntensityChange,
-  onGradientStyleChange,
+  onLayerChange,
+  onLayerTransformChange,
+  onAddLayer,
+  onRemoveLayer,
+  onMoveLayer,
   onGradientIntensityChange,
   onGradientDensityChange,
   zoomLevel,
@@ -72,7 +148,9 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
   onAnimatedChange,
   animationSpeed,
   onAnimationSpeedChange,
-  onColorBlobsChange,
+  loopDuration,
+  onLoopDurationChange,
+  onImageAnalyzed,
   overlayEnabled,
   overlayType,
   overlayIntensity,
@@ -91,350 +169,51 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
   onRippleFrequencyYChange,
   onRippleAmplitudeXChange,
   onRippleAmplitudeYChange,
+  textArea,
+  onTextAreaChange,
+  legibility,
+  exportWidth,
+  exportHeight,
+  isCheckingLegibility,
+  onCheckLegibility,
+  foreground,
+  onForegroundChange,
+  onTextLayerChange,
+  onLogoChange,
+  onLogoUpload,
 }) => {
+  const availableColors = useMemo(() => paletteColors(palette), [palette])
+
   const handleColorSelection = (colorName: string) => {
     if (colorName === 'random') {
-      onColorsChange(getRandomMidToneColors(3))
+      onColorsChange(randomMidToneColors(palette, 3))
     } else {
-      const selectedColor = BRAND_COLORS.find(c => c.name === colorName)
+      const selectedColor = availableColors.find(c => c.name === colorName)
       if (selectedColor) {
         onColorsChange([selectedColor])
       }
     }
   }
 
-  const handleMultiColorSelect = () => {
-    onColorsChange(getRandomMidToneColors(Math.floor(Math.random() * 4) + 2))
-  }
-
-
-
-  // Color distance calculation for finding closest brand color
-  const colorDistance = (color1: [number, number, number], color2: [number, number, number]): number => {
-    const [r1, g1, b1] = color1
-    const [r2, g2, b2] = color2
-    return Math.sqrt(Math.pow(r2 - r1, 2) + Math.pow(g2 - g1, 2) + Math.pow(b2 - b1, 2))
-  }
-
-  // Find closest brand color to a given RGB color
-  const findClosestBrandColor = (targetRgb: [number, number, number]): Color => {
-    let closestColor = BRAND_COLORS[0]
-    let minDistance = Infinity
-
-    BRAND_COLORS.forEach(brandColor => {
-      const distance = colorDistance(targetRgb, brandColor.rgb)
-      if (distance < minDistance) {
-        minDistance = distance
-        closestColor = brandColor
-      }
-    })
-
-    return closestColor
-  }
-
-  // Extract positioned color blobs from image
-  const extractColorBlobsFromImage = (imageData: ImageData): { colors: Color[]; blobs: any[] } => {
-    const data = imageData.data
-    const width = imageData.width
-    const height = imageData.height
-    const colorRegions = new Map<string, { 
-      count: number; 
-      rgb: [number, number, number];
-      positions: { x: number; y: number }[];
-      avgX: number;
-      avgY: number;
-      maxIntensity: number;
-    }>()
-    
-    // Sample every 2nd pixel for better spatial resolution
-    for (let y = 0; y < height; y += 2) {
-      for (let x = 0; x < width; x += 2) {
-        const i = (y * width + x) * 4
-        const r = data[i]
-        const g = data[i + 1]
-        const b = data[i + 2]
-        const alpha = data[i + 3]
-        
-        // Skip transparent pixels
-        if (alpha < 128) continue
-        
-        // Group similar colors (gentler clustering to preserve nuance)
-        const groupedR = Math.floor(r / 20) * 20
-        const groupedG = Math.floor(g / 20) * 20
-        const groupedB = Math.floor(b / 20) * 20
-        const colorKey = `${groupedR}-${groupedG}-${groupedB}`
-        
-        // Calculate color intensity (how vibrant/bright it is)
-        const intensity = Math.sqrt(r * r + g * g + b * b) / 255
-        
-        if (colorRegions.has(colorKey)) {
-          const region = colorRegions.get(colorKey)!
-          region.count++
-          region.positions.push({ x: x / width, y: y / height })
-          region.avgX = (region.avgX * (region.count - 1) + x / width) / region.count
-          region.avgY = (region.avgY * (region.count - 1) + y / height) / region.count
-          region.maxIntensity = Math.max(region.maxIntensity, intensity)
-        } else {
-          colorRegions.set(colorKey, { 
-            count: 1, 
-            rgb: [groupedR, groupedG, groupedB],
-            positions: [{ x: x / width, y: y / height }],
-            avgX: x / width,
-            avgY: y / height,
-            maxIntensity: intensity
-          })
-        }
-      }
+  const handleSeedInput = (value: string) => {
+    const parsed = parseInt(value, 10)
+    if (!Number.isNaN(parsed)) {
+      onSeedChange(normalizeSeed(parsed))
     }
-    
-    // Get the most significant color regions (by count and intensity)
-    const sortedRegions = Array.from(colorRegions.entries())
-      .sort((a, b) => (b[1].count * b[1].maxIntensity) - (a[1].count * a[1].maxIntensity))
-      .slice(0, 12) // Top 12 color regions
-    
-    // Convert to brand colors and create positioned blobs
-    const colorBlobs: any[] = []
-    const uniqueColors = new Set<string>()
-    
-    sortedRegions.forEach(([_, regionData]) => {
-      const brandColor = findClosestBrandColor(regionData.rgb)
-      
-      // Create multiple blobs for each color region if it's spread out
-      if (regionData.positions.length > 20) {
-        // For widespread colors, create multiple positioned blobs
-        const numBlobs = Math.min(3, Math.floor(regionData.positions.length / 30))
-        
-        // Cluster positions into groups
-        for (let i = 0; i < numBlobs; i++) {
-          const startIndex = Math.floor(i * regionData.positions.length / numBlobs)
-          const endIndex = Math.floor((i + 1) * regionData.positions.length / numBlobs)
-          const cluster = regionData.positions.slice(startIndex, endIndex)
-          
-          const clusterX = cluster.reduce((sum, pos) => sum + pos.x, 0) / cluster.length
-          const clusterY = cluster.reduce((sum, pos) => sum + pos.y, 0) / cluster.length
-          
-          colorBlobs.push({
-            color: brandColor,
-            x: clusterX,
-            y: clusterY,
-            radius: 0.15 + Math.random() * 0.15, // Vary blob sizes
-            intensity: regionData.maxIntensity * (0.7 + Math.random() * 0.3)
-          })
-        }
-      } else {
-        // For concentrated colors, create single positioned blob
-        colorBlobs.push({
-          color: brandColor,
-          x: regionData.avgX,
-          y: regionData.avgY,
-          radius: 0.1 + Math.random() * 0.2,
-          intensity: regionData.maxIntensity
-        })
-      }
-      
-      uniqueColors.add(brandColor.hex)
-    })
-    
-    // Get unique colors for the color palette - fix the extraction logic
-    const uniqueColorObjects: Color[] = []
-    const seenHexes = new Set<string>()
-    
-    colorBlobs.forEach(blob => {
-      if (blob && blob.color && !seenHexes.has(blob.color.hex)) {
-        uniqueColorObjects.push(blob.color)
-        seenHexes.add(blob.color.hex)
-      }
-    })
-    
-    const colors = uniqueColorObjects.slice(0, 6) // Top 6 colors
-    
-    return { colors, blobs: colorBlobs.filter(blob => blob && blob.color) }
   }
 
-  // Analyze image composition to determine gradient style
-  const analyzeComposition = (imageData: ImageData): { style: string; intensity: number; density: number } => {
-    const data = imageData.data
-    const width = imageData.width
-    const height = imageData.height
-    
-    // Calculate brightness gradient in different directions
-    let horizontalGradient = 0
-    let verticalGradient = 0
-    let radialGradient = 0
-    let complexity = 0
-    
-    const centerX = width / 2
-    const centerY = height / 2
-    
-    // Sample brightness changes
-    for (let y = 0; y < height; y += 4) {
-      for (let x = 0; x < width; x += 4) {
-        const i = (y * width + x) * 4
-        const brightness = (data[i] + data[i + 1] + data[i + 2]) / 3
-        
-        // Check horizontal gradient
-        if (x > 0) {
-          const prevI = (y * width + x - 4) * 4
-          const prevBrightness = (data[prevI] + data[prevI + 1] + data[prevI + 2]) / 3
-          horizontalGradient += Math.abs(brightness - prevBrightness)
-        }
-        
-        // Check vertical gradient
-        if (y > 0) {
-          const prevI = ((y - 4) * width + x) * 4
-          const prevBrightness = (data[prevI] + data[prevI + 1] + data[prevI + 2]) / 3
-          verticalGradient += Math.abs(brightness - prevBrightness)
-        }
-        
-        // Check radial pattern
-        const distanceFromCenter = Math.sqrt(Math.pow(x - centerX, 2) + Math.pow(y - centerY, 2))
-        const normalizedDistance = distanceFromCenter / (Math.sqrt(width * width + height * height) / 2)
-        radialGradient += brightness * (1 - normalizedDistance)
-        
-        // Complexity based on local variance
-        complexity += Math.abs(brightness - 128) / 128
-      }
-    }
-    
-    // Determine best gradient style
-    let style = 'organic'
-    if (horizontalGradient > verticalGradient && horizontalGradient > radialGradient) {
-      style = 'linear'
-    } else if (radialGradient > horizontalGradient && radialGradient > verticalGradient) {
-      style = 'radial'
-    } else if (complexity > width * height * 0.1) {
-      style = Math.random() > 0.5 ? 'spiral' : 'wave'
-    }
-    
-    // Calculate intensity and density based on image characteristics
-    const avgComplexity = complexity / (width * height / 16)
-    const intensity = Math.max(0.4, Math.min(1.0, avgComplexity))
-    const density = Math.max(0.3, Math.min(1.2, avgComplexity * 1.5))
-    
-    return { style, intensity, density }
-  }
-
-  // Handle image upload and analysis
-  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-    
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      alert('Please select a valid image file')
-      return
-    }
-    
-    setIsAnalyzing(true)
-    
-    try {
-      // Create image URL for preview
-      const imageUrl = URL.createObjectURL(file)
-      setUploadedImage(imageUrl)
-      
-      // Create canvas for analysis
-      const img = new globalThis.Image()
-      img.onload = () => {
-        try {
-          const canvas = document.createElement('canvas')
-          const ctx = canvas.getContext('2d')
-          if (!ctx) {
-            throw new Error('Could not get canvas context')
-          }
-          
-          // Resize for faster processing
-          const maxSize = 200
-          const scale = Math.min(maxSize / img.width, maxSize / img.height)
-          canvas.width = img.width * scale
-          canvas.height = img.height * scale
-          
-          ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
-          const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-          
-          // Validate image data
-          if (!imageData || imageData.data.length === 0) {
-            throw new Error('Could not extract image data')
-          }
-          
-          // Extract colors and positioned blobs
-          const { colors: extractedColors, blobs: colorBlobs } = extractColorBlobsFromImage(imageData)
-          const composition = analyzeComposition(imageData)
-          
-          // Apply the analysis results with better validation
-          if (extractedColors && extractedColors.length > 0) {
-            console.log('Extracted colors from image:', extractedColors.length)
-
-            onColorsChange(extractedColors)
-          } else {
-            console.log('No colors extracted, using fallback')
-            // Fallback to random colors if no colors extracted
-            onColorsChange(getRandomMidToneColors(3))
-          }
-          
-          // Pass the positioned color blobs to the parent with validation
-          if (onColorBlobsChange && colorBlobs && colorBlobs.length > 0) {
-            // Validate blobs before passing
-            const validBlobs = colorBlobs.filter(blob => 
-              blob && blob.color && blob.color.hex &&
-              typeof blob.x === 'number' && typeof blob.y === 'number' &&
-              typeof blob.radius === 'number' && typeof blob.intensity === 'number' &&
-              blob.x >= 0 && blob.x <= 1 && blob.y >= 0 && blob.y <= 1
-            )
-            console.log('Valid blobs created:', validBlobs.length, 'out of', colorBlobs.length)
-            onColorBlobsChange(validBlobs)
-          } else {
-            console.log('No valid color blobs to pass')
-          }
-          
-          onGradientStyleChange(composition.style as any)
-          onGradientIntensityChange(composition.intensity)
-          onGradientDensityChange(composition.density)
-          
-          setIsAnalyzing(false)
-          URL.revokeObjectURL(imageUrl)
-        } catch (analysisError) {
-          console.error('Error during image analysis:', analysisError)
-          setIsAnalyzing(false)
-          URL.revokeObjectURL(imageUrl)
-          // Fallback to random colors if analysis fails
-          onColorsChange(getRandomMidToneColors(3))
-        }
-      }
-      
-      img.onerror = () => {
-        console.error('Error loading image')
-        setIsAnalyzing(false)
-        URL.revokeObjectURL(imageUrl)
-        onColorsChange(getRandomMidToneColors(3))
-      }
-      
-      img.src = imageUrl
-    } catch (error) {
-      console.error('Error analyzing image:', error)
-      setIsAnalyzing(false)
-      // Fallback to random colors
-      onColorsChange(getRandomMidToneColors(3))
-    }
-  }
 
-  const handleImageUploadClick = () => {
-    fileInputRef.current?.click()
-  }
-
-  const clearUploadedImage = () => {
-    setUploadedImage(null)
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
-    }
-  }
 
   const [colorPickerIndex, setColorPickerIndex] = useState<number | null>(null)
-  const [customColor, setCustomColor] = useState('#ff0000')
+  const [customColor, setCustomColor] = useState('#FF0000')
+  const [colorFormat, setColorFormat] = useState<ColorFormat>('hex')
+  const [colorInput, setColorInput] = useState('#FF0000')
+  // Strict mode keeps picks on-brand by snapping them to the nearest palette color
+  const [strictBrand, setStrictBrand] = useState(true)
   const [selectedColorFamily, setSelectedColorFamily] = useState<string>('All')
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const fileInputRef = useRef<HTMLInputElement>(null)
-  
+  // Density means something different per style; it is named after the style when there is only one
+  const densityStyle = layers.length === 1 ? layers[0].style : null
+
   // Drag and drop state for color reordering
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null)
@@ -442,32 +221,54 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
 
   const handleColorClick = (index: number) => {
     setColorPickerIndex(index)
-    setCustomColor(colors[index]?.hex || '#ff0000')
+    handleColorChange(colors[index]?.hex || '#FF0000')
     setSelectedColorFamily('All') // Reset to show all colors when opening
   }
 
   // Filter colors by selected family
   const getFilteredColors = () => {
     if (selectedColorFamily === 'All') {
-      return BRAND_COLORS
+      return availableColors
     }
-    return BRAND_COLORS.filter(color => 
-      color.name.toLowerCase().includes(selectedColorFamily.toLowerCase())
-    )
+    return palette.families.find(family => family.name === selectedColorFamily)?.colors ?? []
+  }
+
+  const handleColorChange = (newColor: string, format: ColorFormat = colorFormat) => {
+    const hex = newColor.toUpperCase()
+    setCustomColor(hex)
+    setColorInput(formatColor(hexToRgb(hex), format))
+  }
+
+  const handleFormatChange = (format: ColorFormat) => {
+    setColorFormat(format)
+    handleColorChange(customColor, format)
+  }
+
+  // Typed values apply as soon as they parse; the field is tidied up on blur
+  const handleColorInput = (value: string) => {
+    setColorInput(value)
+    const hex = parseCssColor(value)
+    if (hex) setCustomColor(hex)
   }
 
-  const handleColorChange = (newColor: string) => {
-    setCustomColor(newColor)
+  const handleEyeDropper = async () => {
+    try {
+      const { sRGBHex } = await new (window as unknown as EyeDropperWindow).EyeDropper().open()
+      const hex = parseCssColor(sRGBHex)
+      if (hex) handleColorChange(hex)
+    } catch {
+      // Cancelled with Escape
+    }
   }
 
+  const pickerMatch = colorPickerIndex !== null ? snapToPalette(palette, hexToRgb(customColor)) : null
+  const isOffPalette = pickerMatch !== null && !findPaletteColor(palette, customColor)
+
   const handleColorConfirm = () => {
-    if (colorPickerIndex !== null) {
-      const selectedBrandColor = BRAND_COLORS.find(c => c.hex === customColor)
-      if (selectedBrandColor) {
-        const newColors = [...colors]
-        newColors[colorPickerIndex] = selectedBrandColor
-        onColorsChange(newColors)
-      }
+    if (colorPickerIndex !== null && pickerMatch) {
+      const newColors = [...colors]
+      newColors[colorPickerIndex] = strictBrand ? pickerMatch.color : colorFromHex(customColor, undefined, palette)
+      onColorsChange(newColors)
     }
     setColorPickerIndex(null)
   }
@@ -476,10 +277,10 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
     if (colors.length < 6) {
       // Pick a random brand color that's not already in use
       const usedColors = new Set(colors.map(c => c.hex))
-      const availableColors = BRAND_COLORS.filter(c => !usedColors.has(c.hex))
+      const unusedColors = availableColors.filter(c => !usedColors.has(c.hex))
       
-      if (availableColors.length > 0) {
-        const randomColor = availableColors[Math.floor(Math.random() * availableColors.length)]
+      if (unusedColors.length > 0) {
+        const randomColor = unusedColors[Math.floor(Math.random() * unusedColors.length)]
         onColorsChange([...colors, randomColor])
       }
     }
@@ -587,6 +388,46 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
             <Label>Colors ({colors.length})</Label>
             <span className="text-xs text-gray-500 dark:text-gray-400">Drag to reorder</span>
           </div>
+          <div className="flex gap-2">
+            <Select value={palette.id} onValueChange={onPaletteChange}>
+              <SelectTrigger className="flex-1" title="Active palette">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {palettes.map((entry) => (
+                  <SelectItem key={entry.id} value={entry.id}>
+                    {entry.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={onManagePalettes} title="Manage palettes">
+              <Paintbrush className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Select value={mood?.id ?? 'none'} onValueChange={(value) => onMoodChange(value === 'none' ? null : value)}>
+              <SelectTrigger className="flex-1" title="Mood: Regenerate draws colors by this rule">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-72 overflow-y-auto">
+                <SelectItem value="none">Any mood</SelectItem>
+                {moods.map((entry) => (
+                  <SelectItem key={entry.id} value={entry.id}>
+                    {entry.name}{entry.custom ? ' (saved)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={onSaveMood} title="Save the current colors as a mood">
+              <BookmarkPlus className="w-4 h-4" />
+            </Button>
+            {mood?.custom && (
+              <Button variant="outline" size="sm" onClick={() => onDeleteMood(mood.id)} title="Delete this mood">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
           <div className="flex gap-2">
             <Select onValueChange={handleColorSelection}>
               <SelectTrigger className="flex-1">
@@ -594,7 +435,7 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
               </SelectTrigger>
               <SelectContent className="max-h-60 overflow-y-auto">
                 <SelectItem value="random">Random Mix</SelectItem>
-                {BRAND_COLORS.map((color) => (
+                {availableColors.map((color) => (
                   <SelectItem key={color.name} value={color.name}>
                     <div className="flex items-center gap-2">
                       <div 
@@ -607,9 +448,12 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 ))}
               </SelectContent>
             </Select>
-            <Button variant="outline" size="sm" onClick={handleMultiColorSelect}>
+            <Button variant="outline" size="sm" onClick={onRegenerate} title="Regenerate with a new seed">
               <Shuffle className="w-4 h-4" />
             </Button>
+            <Button variant="outline" size="sm" onClick={onShowVariations} title="Variations of this design">
+              <LayoutGrid className="w-4 h-4" />
+            </Button>
           </div>
           
                     {/* Interactive Draggable Color Swatches */}
@@ -618,7 +462,6 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 const isDragging = draggedIndex === index
                 const isDropTarget = dragOverIndex === index && draggedIndex !== null && draggedIndex !== index
                 
-                console.log(`Swatch ${index}: visual=${color.hex}, name=${color.name}, full object:`, color);
                 return (
                   <div 
                     key={`${index}-${color.hex}`} 
@@ -664,13 +507,11 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     if (el) {
                       el.style.setProperty('background-color', color.hex, 'important');
                       el.style.setProperty('background', color.hex, 'important');
-                      console.log(`Applied ${color.hex} to swatch ${index}, computed style:`, getComputedStyle(el).backgroundColor);
                     }
                   }}
                     onClick={(e) => {
                       // Prevent click when dragging
                       if (isDragging) return
-                      console.log(`Clicked swatch ${index}:`, color);
                       handleColorClick(index);
                     }}
                                     />
@@ -708,6 +549,27 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
           </div>
         </div>
 
+        {/* Seed */}
+        <div className="space-y-2">
+          <Label htmlFor="seed-input">Seed</Label>
+          <div className="flex gap-2">
+            <input
+              id="seed-input"
+              type="number"
+              min={0}
+              value={seed}
+              onChange={(e) => handleSeedInput(e.target.value)}
+              className="flex-1 h-9 rounded-md border border-input bg-transparent px-3 text-sm font-mono"
+            />
+            <Button variant="outline" size="sm" onClick={() => onSeedChange(randomSeed())} title="New seed, same colors">
+              <Dices className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Same seed and settings always render the same image
+          </p>
+        </div>
+
         {/* Brand Color Picker Modal */}
         <ModalPortal isOpen={colorPickerIndex !== null}>
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4" onClick={(e) => e.target === e.currentTarget && setColorPickerIndex(null)}>
@@ -715,33 +577,88 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
               {/* Header */}
               <div className="p-6 border-b border-gray-200 dark:border-gray-600">
                 <h3 className="text-xl font-semibold mb-3 text-gray-900 dark:text-white">
-                  Choose Brand Color {(colorPickerIndex ?? 0) + 1}
+                  Choose {palette.name} Color {(colorPickerIndex ?? 0) + 1}
                 </h3>
                 
                 {/* Current Color Preview */}
-                <div className="flex items-center gap-4 bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
-                  <div
-                    className="w-16 h-16 rounded-xl border border-gray-300 dark:border-gray-500 shadow-sm"
+                <div className="flex items-start gap-4 bg-gray-50 dark:bg-gray-700 p-4 rounded-lg">
+                  <label
+                    className="relative w-16 h-16 shrink-0 rounded-xl border border-gray-300 dark:border-gray-500 shadow-sm cursor-pointer overflow-hidden"
                     style={{ backgroundColor: customColor }}
-                  />
-                  <div>
-                    <Label className="text-base font-medium text-gray-900 dark:text-white">Current Selection</Label>
-                    <p className="text-lg font-mono text-gray-700 dark:text-gray-200 mt-1">{customColor}</p>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">
-                      {BRAND_COLORS.find(c => c.hex === customColor)?.name || 'Custom Color'}
-                    </p>
+                    title="Pick any color"
+                  >
+                    <input
+                      type="color"
+                      value={customColor.toLowerCase()}
+                      onChange={(e) => handleColorChange(e.target.value)}
+                      className="absolute inset-0 opacity-0 cursor-pointer"
+                    />
+                  </label>
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex flex-wrap gap-1">
+                      {COLOR_FORMATS.map(({ format, label }) => (
+                        <Button
+                          key={format}
+                          variant={colorFormat === format ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => handleFormatChange(format)}
+                          className="h-7 px-2 text-xs dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600"
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        value={colorInput}
+                        onChange={(e) => handleColorInput(e.target.value)}
+                        onBlur={() => handleColorChange(customColor)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleColorChange(customColor)}
+                        spellCheck={false}
+                        className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-2 py-1 font-mono text-sm text-gray-900 dark:text-white"
+                        aria-label="Color value"
+                      />
+                      {typeof window !== 'undefined' && 'EyeDropper' in window && (
+                        <Button variant="outline" size="sm" onClick={handleEyeDropper} title="Pick a color from the screen" className="dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
+                          <Pipette className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </div>
+                    {pickerMatch && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 flex items-center gap-2">
+                        {isOffPalette ? (
+                          <>
+                            <span className="w-4 h-4 rounded border border-gray-300 dark:border-gray-500" style={{ backgroundColor: pickerMatch.color.hex }} />
+                            <span className="truncate">
+                              {strictBrand ? 'Snaps to' : 'Custom color; nearest is'} {pickerMatch.color.name} (ΔE {pickerMatch.deltaE.toFixed(1)})
+                            </span>
+                          </>
+                        ) : (
+                          pickerMatch.color.name
+                        )}
+                      </p>
+                    )}
                   </div>
                 </div>
+                <div className="flex items-center justify-between mt-3">
+                  <Label htmlFor="strict-brand-toggle" className="text-sm text-gray-900 dark:text-white">
+                    Strict brand colors
+                    <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {strictBrand ? 'Off-palette picks snap to the closest palette color' : 'Any color is kept as picked'}
+                    </span>
+                  </Label>
+                  <Switch checked={strictBrand} onCheckedChange={setStrictBrand} id="strict-brand-toggle" />
+                </div>
               </div>
               
               {/* Color Family Tabs */}
               <div className="p-6 pb-4 border-b border-gray-200 dark:border-gray-600">
                 <Label className="text-base font-medium mb-3 block text-gray-900 dark:text-white">Browse by Family</Label>
                 <div className="flex flex-wrap gap-2">
-                  {['All', 'Red', 'Orange', 'Yellow', 'Green', 'Blue', 'Purple', 'Pink'].map(family => {
+                  {['All', ...palette.families.map(family => family.name)].map(family => {
                     const familyCount = family === 'All' 
-                      ? BRAND_COLORS.length 
-                      : BRAND_COLORS.filter(c => c.name.toLowerCase().includes(family.toLowerCase())).length
+                      ? availableColors.length 
+                      : palette.families.find(entry => entry.name === family)?.colors.length ?? 0
                     
                     return (
                       <Button
@@ -805,7 +722,7 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
               <div className="p-6 border-t border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700">
                 <div className="flex gap-3">
                   <Button onClick={handleColorConfirm} className="flex-1 text-base py-2">
-                    <Palette className="w-5 h-5 mr-2" />
+                    <PaletteIcon className="w-5 h-5 mr-2" />
                     Apply Color
                   </Button>
                   <Button variant="outline" onClick={() => setColorPickerIndex(null)} className="text-base py-2 px-6 dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
@@ -817,78 +734,19 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
           </div>
         </ModalPortal>
 
-{/* Image Analysis - Hidden due to performance issues */}
-        {false && (
-        <div className="space-y-2">
-          <Label>AI Image Analysis</Label>
-          <div className="space-y-2">
-            <Button 
-              variant="outline" 
-              className="w-full"
-              onClick={handleImageUploadClick}
-              disabled={isAnalyzing}
-            >
-              {isAnalyzing ? (
-                <>
-                  <div className="w-4 h-4 mr-2 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
-                  Analyzing...
-                </>
-              ) : (
-                <>
-                  <Upload className="w-4 h-4 mr-2" />
-                  Upload Image
-                </>
-              )}
-            </Button>
-            
-            {uploadedImage && (
-              <div className="flex items-center gap-2 p-2 bg-gray-50 rounded border">
-                <Image className="w-4 h-4 text-gray-600" />
-                <span className="text-sm text-gray-600 flex-1">Image analyzed</span>
-                <Button 
-                  variant="ghost" 
-                  size="sm"
-                  onClick={clearUploadedImage}
-                  className="h-6 w-6 p-0"
-                >
-                  <X className="w-3 h-3" />
-                </Button>
-              </div>
-            )}
-            
-            <p className="text-xs text-gray-500 dark:text-gray-400">
-              Upload an image to extract colors and composition. Creates an abstract, hyper-zoomed gradient inspired by your photo.
-            </p>
-          </div>
-          
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept="image/*"
-            onChange={handleImageUpload}
-            className="hidden"
-          />
-        </div>
-        )}
-
+        {/* Image Analysis */}
+        <ImageAnalysisPanel snapToBrand={strictBrand} onAnalyzed={(analysis) => onImageAnalyzed(analysis, strictBrand)} />
 
-
-        {/* Gradient Style */}
-        <div className="space-y-2">
-          <Label>Gradient Style</Label>
-          <Select value={gradientStyle} onValueChange={onGradientStyleChange}>
-            <SelectTrigger>
-              <SelectValue placeholder="Select gradient style" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="organic">Organic Blobs</SelectItem>
-              <SelectItem value="linear">Linear Flow</SelectItem>
-              <SelectItem value="radial">Radial Burst</SelectItem>
-              <SelectItem value="wave">Gradient Mesh</SelectItem>
-              <SelectItem value="sunburst">Sunburst Rays</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        {/* Gradient Layers */}
+        <LayersPanel
+          layers={layers}
+          colors={colors}
+          onLayerChange={onLayerChange}
+          onLayerTransformChange={onLayerTransformChange}
+          onAddLayer={onAddLayer}
+          onRemoveLayer={onRemoveLayer}
+          onMoveLayer={onMoveLayer}
+        />
 
         {/* Canvas Aspect Ratio */}
         <div className="space-y-2">
@@ -903,6 +761,10 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
               <SelectItem value="4:3">Landscape (4:3)</SelectItem>
               <SelectItem value="16:9">Widescreen (16:9)</SelectItem>
               <SelectItem value="9:16">Mobile (9:16)</SelectItem>
+              {/* Ratios set by an export size preset or custom size */}
+              {!STANDARD_ASPECT_RATIOS.includes(aspectRatio) && (
+                <SelectItem value={aspectRatio}>Custom ({aspectRatio})</SelectItem>
+              )}
             </SelectContent>
           </Select>
         </div>
@@ -926,11 +788,12 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
         {/* Contextual Gradient Control */}
         <div className="space-y-2">
           <Label>
-            {gradientStyle === 'organic' && `Complexity: ${Math.round(gradientDensity * 100)}%`}
-            {gradientStyle === 'linear' && `Layers: ${Math.round(gradientDensity * 100)}%`}
-            {gradientStyle === 'radial' && `Centers: ${Math.round(gradientDensity * 100)}%`}
-            {gradientStyle === 'wave' && `Density: ${Math.round(gradientDensity * 100)}%`}
-            {gradientStyle === 'sunburst' && `Rays: ${Math.round(gradientDensity * 100)}%`}
+            {densityStyle === 'organic' && `Complexity: ${Math.round(gradientDensity * 100)}%`}
+            {densityStyle === 'linear' && `Layers: ${Math.round(gradientDensity * 100)}%`}
+            {densityStyle === 'radial' && `Centers: ${Math.round(gradientDensity * 100)}%`}
+            {densityStyle === 'wave' && `Density: ${Math.round(gradientDensity * 100)}%`}
+            {densityStyle === 'sunburst' && `Rays: ${Math.round(gradientDensity * 100)}%`}
+            {densityStyle === null && `Detail: ${Math.round(gradientDensity * 100)}%`}
           </Label>
           <Slider
             value={[gradientDensity]}
@@ -941,11 +804,12 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
             className="w-full"
           />
           <p className="text-xs text-gray-500 dark:text-gray-400">
-            {gradientStyle === 'organic' && 'More complexity = more color blobs'}
-            {gradientStyle === 'linear' && 'More layers = richer gradient depth'}
-            {gradientStyle === 'radial' && 'More centers = multiple focal points'}
-            {gradientStyle === 'wave' && 'Higher density = more triangular mesh zones'}
-            {gradientStyle === 'sunburst' && 'More rays = denser sunburst pattern'}
+            {densityStyle === 'organic' && 'More complexity = more color blobs'}
+            {densityStyle === 'linear' && 'More layers = richer gradient depth'}
+            {densityStyle === 'radial' && 'More centers = multiple focal points'}
+            {densityStyle === 'wave' && 'Higher density = more triangular mesh zones'}
+            {densityStyle === 'sunburst' && 'More rays = denser sunburst pattern'}
+            {densityStyle === null && 'Applies to every layer'}
           </p>
         </div>
 
@@ -967,50 +831,66 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
           </p>
         </div>
 
-        {/* Animation Controls - Hidden for now due to performance issues */}
-        {false && (
-          <div className="space-y-3 border-t pt-3">
-            <h3 className="text-sm font-medium text-gray-700">Animation</h3>
-            
-            {/* Animation Toggle */}
-            <div className="flex items-center space-x-2">
-              <Switch 
-                checked={isAnimated} 
-                onCheckedChange={onAnimatedChange}
-                id="animation-toggle"
-              />
-              <Label htmlFor="animation-toggle" className="text-sm">
-                Slow Morphing
+        {/* Animation Controls */}
+        <div className="space-y-3 border-t pt-3">
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Animation</h3>
+          
+          {/* Animation Toggle */}
+          <div className="flex items-center space-x-2">
+            <Switch 
+              checked={isAnimated} 
+              onCheckedChange={onAnimatedChange}
+              id="animation-toggle"
+            />
+            <Label htmlFor="animation-toggle" className="text-sm">
+              Slow Morphing
+            </Label>
+          </div>
+          
+          {/* Animation Speed */}
+          {isAnimated && (
+            <div className="space-y-2">
+              <Label>
+                Speed: {
+                  animationSpeed <= 0.3 ? 'Glacial' :
+                  animationSpeed <= 0.5 ? 'Very Slow' : 
+                  animationSpeed <= 0.8 ? 'Slow' :
+                  animationSpeed <= 1.2 ? 'Normal' : 
+                  animationSpeed <= 1.5 ? 'Fast' : 'Very Fast'
+                }
               </Label>
+              <Slider
+                value={[animationSpeed]}
+                onValueChange={(value) => onAnimationSpeedChange(value[0])}
+                min={0.2}
+                max={2.0}
+                step={0.1}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Very slow = meditative, subtle morphing
+              </p>
             </div>
-            
-            {/* Animation Speed */}
-            {isAnimated && (
-              <div className="space-y-2">
-                <Label>
-                  Speed: {
-                    animationSpeed <= 0.3 ? 'Glacial' :
-                    animationSpeed <= 0.5 ? 'Very Slow' : 
-                    animationSpeed <= 0.8 ? 'Slow' :
-                    animationSpeed <= 1.2 ? 'Normal' : 
-                    animationSpeed <= 1.5 ? 'Fast' : 'Very Fast'
-                  }
-                </Label>
-                <Slider
-                  value={[animationSpeed]}
-                  onValueChange={(value) => onAnimationSpeedChange(value[0])}
-                  min={0.2}
-                  max={2.0}
-                  step={0.1}
-                  className="w-full"
-                />
-                <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Very slow = meditative, subtle morphing
-                </p>
-              </div>
-            )}
-          </div>
-        )}
+          )}
+
+          {/* Loop Duration */}
+          {isAnimated && (
+            <div className="space-y-2">
+              <Label>Loop: {loopDuration}s</Label>
+              <Slider
+                value={[loopDuration]}
+                onValueChange={(value) => onLoopDurationChange(value[0])}
+                min={2}
+                max={30}
+                step={1}
+                className="w-full"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The motion returns seamlessly to its start, so exports loop without a jump
+              </p>
+            </div>
+          )}
+        </div>
 
         {/* Posterize Steps - temporarily disabled for smooth gradients */}
         {/* <div className="space-y-2">
@@ -1186,7 +1066,25 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
           )}
         </div>
 
+        {/* Text Safe Area */}
+        <TextAreaPanel
+          textArea={textArea}
+          onChange={onTextAreaChange}
+          report={legibility}
+          exportWidth={exportWidth}
+          exportHeight={exportHeight}
+          isChecking={isCheckingLegibility}
+          onCheckAtExportSize={onCheckLegibility}
+        />
 
+        {/* Text & Logo */}
+        <ForegroundPanel
+          foreground={foreground}
+          onChange={onForegroundChange}
+          onTextLayerChange={onTextLayerChange}
+          onLogoChange={onLogoChange}
+          onLogoUpload={onLogoUpload}
+        />
       </div>
     </div>
   )
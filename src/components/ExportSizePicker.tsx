@@ -0,0 +1,133 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from './ui/select'
+import {
+  ExportSize,
+  MAX_EXPORT_DIMENSION,
+  RESOLUTION_OPTIONS,
+  ResolutionKey,
+  SIZE_PRESETS,
+  findSizePreset
+} from '@/lib/dimensions'
+
+interface ExportSizePickerProps {
+  value: ExportSize
+  // Resolved output size, shown next to the picker
+  width: number
+  height: number
+  onChange: (size: ExportSize) => void
+}
+
+const CATEGORIES = Array.from(new Set(SIZE_PRESETS.map(preset => preset.category)))
+
+const toSelectValue = (size: ExportSize): string => {
+  if (size.kind === 'fit') return `fit:${size.key}`
+  return size.presetId ? `preset:${size.presetId}` : 'custom'
+}
+
+const clampDimension = (value: number): number => {
+  return Math.min(MAX_EXPORT_DIMENSION, Math.max(1, Math.round(value)))
+}
+
+export const ExportSizePicker: React.FC<ExportSizePickerProps> = ({ value, width, height, onChange }) => {
+  // Custom inputs are edited as text and only applied on blur/Enter so typing "1" on the way
+  // to "1200" does not resize the canvas
+  const [customWidth, setCustomWidth] = useState(String(width))
+  const [customHeight, setCustomHeight] = useState(String(height))
+
+  useEffect(() => {
+    setCustomWidth(String(width))
+    setCustomHeight(String(height))
+  }, [width, height])
+
+  const handleSelect = (selected: string) => {
+    const [kind, id] = selected.split(':')
+    if (kind === 'fit') {
+      onChange({ kind: 'fit', key: id as ResolutionKey })
+    } else if (kind === 'preset') {
+      const preset = findSizePreset(id)
+      if (preset) onChange({ kind: 'exact', width: preset.width, height: preset.height, presetId: preset.id })
+    } else {
+      onChange({ kind: 'exact', width, height })
+    }
+  }
+
+  const applyCustomSize = () => {
+    const nextWidth = Number(customWidth)
+    const nextHeight = Number(customHeight)
+    if (!(nextWidth > 0) || !(nextHeight > 0)) {
+      setCustomWidth(String(width))
+      setCustomHeight(String(height))
+      return
+    }
+    onChange({ kind: 'exact', width: clampDimension(nextWidth), height: clampDimension(nextHeight) })
+  }
+
+  const triggerLabel = value.kind === 'fit'
+    ? value.key
+    : (value.presetId && findSizePreset(value.presetId)?.label) || 'Custom'
+
+  return (
+    <>
+      <Select value={toSelectValue(value)} onValueChange={handleSelect}>
+        <SelectTrigger className="w-28 h-8 bg-white/10 hover:bg-white/20 text-white border-white/20 backdrop-blur-sm text-xs" title="Export size">
+          <SelectValue>
+            <span className="truncate">{triggerLabel}</span>
+          </SelectValue>
+        </SelectTrigger>
+        <SelectContent className="max-h-[70vh] overflow-y-auto">
+          <SelectGroup>
+            <SelectLabel className="text-xs">Fit to aspect ratio</SelectLabel>
+            {Object.entries(RESOLUTION_OPTIONS).map(([key, option]) => (
+              <SelectItem key={key} value={`fit:${key}`} className="text-xs">
+                {key} · {option.width}×{option.height}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          {CATEGORIES.map(category => (
+            <React.Fragment key={category}>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel className="text-xs">{category}</SelectLabel>
+                {SIZE_PRESETS.filter(preset => preset.category === category).map(preset => (
+                  <SelectItem key={preset.id} value={`preset:${preset.id}`} className="text-xs">
+                    {preset.label} · {preset.width}×{preset.height}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </React.Fragment>
+          ))}
+          <SelectSeparator />
+          <SelectItem value="custom" className="text-xs">Custom size…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value.kind === 'exact' && !value.presetId ? (
+        <div className="flex items-center gap-1 text-xs text-white">
+          {[
+            { label: 'Width', value: customWidth, set: setCustomWidth },
+            { label: 'Height', value: customHeight, set: setCustomHeight }
+          ].map((field, index) => (
+            <React.Fragment key={field.label}>
+              {index > 0 && <span>×</span>}
+              <input
+                type="number"
+                min={1}
+                max={MAX_EXPORT_DIMENSION}
+                value={field.value}
+                aria-label={field.label}
+                onChange={(e) => field.set(e.target.value)}
+                onBlur={applyCustomSize}
+                onKeyDown={(e) => { if (e.key === 'Enter') applyCustomSize() }}
+                className="w-16 h-8 rounded-md border border-white/20 bg-white/10 px-2 text-xs text-white backdrop-blur-sm"
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      ) : (
+        <span className="text-xs text-white/80 tabular-nums">{width}×{height}</span>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import React, { useRef } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Slider } from './ui/slider'
+import { Switch } from './ui/switch'
+import {
+  FONT_FAMILIES,
+  FontFamily,
+  ForegroundSettings,
+  LOGO_ANCHORS,
+  LogoAnchor,
+  LogoSettings,
+  TextAlign,
+  TextLayerSettings
+} from '@/lib/recipe'
+import { LOGO_FILE_TYPES } from '@/lib/logo'
+import { AlignCenter, AlignLeft, AlignRight, ImagePlus, Trash2 } from 'lucide-react'
+
+type TextLayer = 'headline' | 'subtitle'
+
+interface ForegroundPanelProps {
+  foreground: ForegroundSettings
+  onChange: (patch: Partial<ForegroundSettings>) => void
+  onTextLayerChange: (layer: TextLayer, patch: Partial<TextLayerSettings>) => void
+  onLogoChange: (patch: Partial<LogoSettings>) => void
+  onLogoUpload: (file: File) => void
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm text-gray-900 dark:text-white'
+
+const FONT_LABELS: Record<FontFamily, string> = {
+  sans: 'Sans serif',
+  serif: 'Serif',
+  mono: 'Monospace',
+  display: 'Display'
+}
+
+const ALIGN_ICONS: { align: TextAlign; icon: React.ReactNode }[] = [
+  { align: 'left', icon: <AlignLeft className="w-4 h-4" /> },
+  { align: 'center', icon: <AlignCenter className="w-4 h-4" /> },
+  { align: 'right', icon: <AlignRight className="w-4 h-4" /> }
+]
+
+const ANCHOR_LABELS: Record<LogoAnchor, string> = {
+  'top-left': 'Top left',
+  top: 'Top',
+  'top-right': 'Top right',
+  left: 'Left',
+  center: 'Center',
+  right: 'Right',
+  'bottom-left': 'Bottom left',
+  bottom: 'Bottom',
+  'bottom-right': 'Bottom right'
+}
+
+interface TextLayerFieldsProps {
+  label: string
+  layer: TextLayerSettings
+  placeholder: string
+  onChange: (patch: Partial<TextLayerSettings>) => void
+}
+
+const TextLayerFields: React.FC<TextLayerFieldsProps> = ({ label, layer, placeholder, onChange }) => (
+  <div className="space-y-2">
+    <Label className="text-sm font-medium">{label}</Label>
+    <textarea
+      value={layer.text}
+      onChange={(e) => onChange({ text: e.target.value })}
+      placeholder={placeholder}
+      rows={2}
+      className={`${inputClassName} resize-y`}
+      aria-label={label}
+    />
+    <div className="flex gap-2">
+      <Select value={layer.font} onValueChange={(value) => onChange({ font: value as FontFamily })}>
+        <SelectTrigger className="flex-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FONT_FAMILIES.map(font => (
+            <SelectItem key={font} value={font}>
+              {FONT_LABELS[font]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <label
+        className="relative w-10 h-10 shrink-0 rounded-md border border-gray-300 dark:border-gray-500 cursor-pointer overflow-hidden"
+        style={{ backgroundColor: layer.color }}
+        title={`${label} color ${layer.color}`}
+      >
+        <input
+          type="color"
+          value={layer.color.toLowerCase()}
+          onChange={(e) => onChange({ color: e.target.value.toUpperCase() })}
+          className="absolute inset-0 opacity-0 cursor-pointer"
+        />
+      </label>
+    </div>
+    <Label className="text-sm">Size: {(layer.size * 100).toFixed(1)}%</Label>
+    <Slider
+      value={[layer.size]}
+      onValueChange={(value) => onChange({ size: value[0] })}
+      min={0.01}
+      max={0.3}
+      step={0.005}
+      className="w-full"
+    />
+    <Label className="text-sm">Weight: {layer.weight}</Label>
+    <Slider
+      value={[layer.weight]}
+      onValueChange={(value) => onChange({ weight: value[0] })}
+      min={100}
+      max={900}
+      step={100}
+      className="w-full"
+    />
+  </div>
+)
+
+export const ForegroundPanel: React.FC<ForegroundPanelProps> = ({
+  foreground,
+  onChange,
+  onTextLayerChange,
+  onLogoChange,
+  onLogoUpload
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const { logo } = foreground
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Cleared so picking the same file again still fires
+    event.target.value = ''
+    if (file) onLogoUpload(file)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="foreground-toggle">Text &amp; Logo</Label>
+        <Switch checked={foreground.enabled} onCheckedChange={(enabled) => onChange({ enabled })} id="foreground-toggle" />
+      </div>
+
+      {foreground.enabled && (
+        <div className="space-y-3 pl-2 border-l-2 border-gray-200">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Text is set inside the text safe area; drag the box on the preview to move it
+          </p>
+
+          <div className="flex gap-1">
+            {ALIGN_ICONS.map(({ align, icon }) => (
+              <Button
+                key={align}
+                variant={foreground.align === align ? 'default' : 'outline'}
+                size="sm"
+                className="flex-1"
+                onClick={() => onChange({ align })}
+                title={`Align ${align}`}
+              >
+                {icon}
+              </Button>
+            ))}
+          </div>
+
+          <TextLayerFields
+            label="Headline"
+            layer={foreground.headline}
+            placeholder="Headline"
+            onChange={(patch) => onTextLayerChange('headline', patch)}
+          />
+          <TextLayerFields
+            label="Subtitle"
+            layer={foreground.subtitle}
+            placeholder="Optional subtitle"
+            onChange={(patch) => onTextLayerChange('subtitle', patch)}
+          />
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Logo</Label>
+            {logo.src ? (
+              <div className="flex items-center gap-2">
+                {/* eslint-disable-next-line @next/next/no-img-element -- a data URL; next/image has nothing to optimize */}
+                <img
+                  src={logo.src}
+                  alt="Logo"
+                  className="w-16 h-10 object-contain rounded border border-gray-200 dark:border-gray-600 bg-gray-100 dark:bg-gray-700"
+                />
+                <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                  Replace
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onLogoChange({ src: null })} title="Remove logo">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="outline" size="sm" className="w-full" onClick={() => fileInputRef.current?.click()}>
+                <ImagePlus className="w-4 h-4 mr-2" />
+                Upload SVG or PNG
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={LOGO_FILE_TYPES.join(',')}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+
+            {logo.src && (
+              <>
+                <Label className="text-sm">Position: {ANCHOR_LABELS[logo.anchor]}</Label>
+                <div className="grid grid-cols-3 gap-1 w-24">
+                  {LOGO_ANCHORS.map(anchor => (
+                    <button
+                      key={anchor}
+                      type="button"
+                      onClick={() => onLogoChange({ anchor })}
+                      title={ANCHOR_LABELS[anchor]}
+                      className={`h-6 rounded border ${
+                        logo.anchor === anchor
+                          ? 'bg-gray-900 border-gray-900 dark:bg-white dark:border-white'
+                          : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    />
+                  ))}
+                </div>
+                <Label className="text-sm">Size: {Math.round(logo.size * 100)}%</Label>
+                <Slider
+                  value={[logo.size]}
+                  onValueChange={(value) => onLogoChange({ size: value[0] })}
+                  min={0.02}
+                  max={0.6}
+                  step={0.01}
+                  className="w-full"
+                />
+                <Label className="text-sm">Safe margin: {Math.round(logo.margin * 100)}%</Label>
+                <Slider
+                  value={[logo.margin]}
+                  onValueChange={(value) => onLogoChange({ margin: value[0] })}
+                  min={0}
+                  max={0.25}
+                  step={0.01}
+                  className="w-full"
+                />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
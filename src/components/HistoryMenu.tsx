@@ -0,0 +1,80 @@
+'use client'
+
+import React from 'react'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { BackgroundRecipe } from '@/lib/recipe'
+import { History, historyEntries } from '@/lib/history'
+import { Check, History as HistoryIcon, Redo2, Undo2 } from 'lucide-react'
+
+interface HistoryMenuProps {
+  history: History<BackgroundRecipe>
+  onUndo: () => void
+  onRedo: () => void
+  // Index into the entries, oldest first
+  onJump: (index: number) => void
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+
+export const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, onUndo, onRedo, onJump }) => {
+  const entries = historyEntries(history)
+  const current = history.past.length
+  const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+  const modifier = isMac ? '⌘' : 'Ctrl+'
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
+          size="sm"
+          title="History"
+        >
+          <HistoryIcon className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="min-w-[240px]">
+        <DropdownMenuItem onClick={onUndo} disabled={history.past.length === 0}>
+          <Undo2 className="mr-2 h-4 w-4" />
+          Undo
+          <DropdownMenuShortcut>{modifier}Z</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onRedo} disabled={history.future.length === 0}>
+          <Redo2 className="mr-2 h-4 w-4" />
+          Redo
+          <DropdownMenuShortcut>{isMac ? '⇧⌘Z' : 'Ctrl+Shift+Z'}</DropdownMenuShortcut>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500 dark:text-gray-400">
+          History ({entries.length})
+        </DropdownMenuLabel>
+        {/* Newest first; steps after the current one can still be redone */}
+        <div className="max-h-72 overflow-y-auto">
+          {entries
+            .map((entry, index) => ({ entry, index }))
+            .reverse()
+            .map(({ entry, index }) => (
+              <DropdownMenuItem
+                key={`${index}-${entry.time}`}
+                onClick={() => onJump(index)}
+                className={index > current ? 'opacity-50' : undefined}
+              >
+                {index === current ? <Check className="mr-2 h-4 w-4" /> : <span className="mr-2 w-4" />}
+                <span className="flex-1 truncate">{entry.label}</span>
+                <span className="ml-3 text-xs text-gray-500 dark:text-gray-400 tabular-nums">{formatTime(entry.time)}</span>
+              </DropdownMenuItem>
+            ))}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { ImageAnalysis } from '@/lib/analysis/analyze'
+import { analyzeImageFile } from '@/lib/analysis/worker-client'
+import { Upload, X } from 'lucide-react'
+
+interface ImageAnalysisPanelProps {
+  // Whether the picked colors snap to the palette (strict brand mode)
+  snapToBrand: boolean
+  onAnalyzed: (analysis: ImageAnalysis) => void
+}
+
+const imageFromTransfer = (transfer: DataTransfer | null): File | null => {
+  return Array.from(transfer?.files ?? []).find(file => file.type.startsWith('image/')) ?? null
+}
+
+// Colors, blob positions and a style taken from a picture; pick a file, drop one on the panel,
+// or paste one anywhere on the page
+export const ImageAnalysisPanel: React.FC<ImageAnalysisPanelProps> = ({ snapToBrand, onAnalyzed }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const [isDragOver, setIsDragOver] = useState(false)
+  // Object URL of the last analyzed picture, shown as a thumbnail
+  const [preview, setPreview] = useState<string | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview)
+    }
+  }, [preview])
+
+  // Read through a ref so the paste listener, added once, always sees the latest props
+  const analyzeRef = useRef<(file: File) => void>(() => {})
+  analyzeRef.current = async (file: File) => {
+    if (isAnalyzing) return
+    setIsAnalyzing(true)
+    try {
+      const analysis = await analyzeImageFile(file)
+      setPreview(URL.createObjectURL(file))
+      onAnalyzed(analysis)
+    } catch (error) {
+      console.error('Image analysis failed:', error)
+      alert(`Could not analyze this image${error instanceof Error ? `: ${error.message}` : ''}`)
+    } finally {
+      setIsAnalyzing(false)
+    }
+  }
+
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const file = imageFromTransfer(event.clipboardData)
+      if (!file) return
+      event.preventDefault()
+      analyzeRef.current(file)
+    }
+    window.addEventListener('paste', handlePaste)
+    return () => window.removeEventListener('paste', handlePaste)
+  }, [])
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Cleared so picking the same file again still fires
+    event.target.value = ''
+    if (file) analyzeRef.current(file)
+  }
+
+  // Only file drags are ours; the palette swatches above use drag and drop for reordering
+  const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes('Files')
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    setIsDragOver(true)
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return
+    event.preventDefault()
+    setIsDragOver(false)
+    const file = imageFromTransfer(event.dataTransfer)
+    if (file) analyzeRef.current(file)
+    else alert('Please drop an image file')
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Colors from Image</Label>
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        className={`space-y-2 rounded-md border-2 border-dashed p-2 transition-colors ${
+          isDragOver ? 'border-blue-500 bg-blue-50 dark:bg-blue-950' : 'border-gray-200 dark:border-gray-600'
+        }`}
+      >
+        <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()} disabled={isAnalyzing}>
+          {isAnalyzing ? (
+            <>
+              <div className="w-4 h-4 mr-2 border-2 border-gray-300 border-t-gray-600 rounded-full animate-spin" />
+              Analyzing...
+            </>
+          ) : (
+            <>
+              <Upload className="w-4 h-4 mr-2" />
+              Upload Image
+            </>
+          )}
+        </Button>
+
+        {preview && (
+          <div className="flex items-center gap-2">
+            {/* eslint-disable-next-line @next/next/no-img-element -- an object URL; next/image has nothing to optimize */}
+            <img
+              src={preview}
+              alt="Analyzed image"
+              className="w-12 h-12 object-cover rounded border border-gray-200 dark:border-gray-600"
+            />
+            <span className="text-sm text-gray-600 dark:text-gray-300 flex-1">Image analyzed</span>
+            <Button variant="ghost" size="sm" onClick={() => setPreview(null)} className="h-6 w-6 p-0" title="Hide image">
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Drop or paste an image to take its main colors, where they sit and the style of its light.
+          {snapToBrand ? ' Colors snap to the palette.' : ' Colors are kept exactly as found.'}
+        </p>
+      </div>
+
+      <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Slider } from './ui/slider'
+import { Color } from '@/utils/colors'
+import {
+  GRADIENT_STYLES,
+  GradientLayer,
+  GradientStyle,
+  LAYER_BLEND_MODES,
+  LAYER_MASKS,
+  LayerBlendMode,
+  LayerMask,
+  LayerTransform
+} from '@/lib/recipe'
+import { canAddLayer } from '@/lib/layers'
+import { ChevronDown, ChevronUp, Eye, EyeOff, Plus, Trash2 } from 'lucide-react'
+
+interface LayersPanelProps {
+  layers: GradientLayer[]
+  colors: Color[]
+  onLayerChange: (id: string, patch: Partial<GradientLayer>) => void
+  onLayerTransformChange: (id: string, patch: Partial<LayerTransform>) => void
+  onAddLayer: () => void
+  onRemoveLayer: (id: string) => void
+  onMoveLayer: (id: string, offset: number) => void
+}
+
+const STYLE_LABELS: Record<GradientStyle, string> = {
+  organic: 'Organic Blobs',
+  linear: 'Linear Flow',
+  radial: 'Radial Burst',
+  wave: 'Gradient Mesh',
+  sunburst: 'Sunburst Rays'
+}
+
+const BLEND_LABELS: Record<LayerBlendMode, string> = {
+  normal: 'Normal',
+  multiply: 'Multiply',
+  screen: 'Screen',
+  overlay: 'Overlay',
+  'soft-light': 'Soft light',
+  'hard-light': 'Hard light',
+  'color-dodge': 'Color dodge',
+  'color-burn': 'Color burn',
+  darken: 'Darken',
+  lighten: 'Lighten',
+  difference: 'Difference',
+  exclusion: 'Exclusion',
+  hue: 'Hue',
+  saturation: 'Saturation',
+  color: 'Color',
+  luminosity: 'Luminosity'
+}
+
+const MASK_LABELS: Record<LayerMask, string> = {
+  none: 'No mask',
+  radial: 'Fade out from center',
+  vignette: 'Fade in from center',
+  top: 'Fade out downward',
+  bottom: 'Fade out upward',
+  left: 'Fade out to the right',
+  right: 'Fade out to the left'
+}
+
+// Toggles one color in a layer's subset. An empty subset means every color, so turning off a
+// color starts from all of them, and a subset that ends up with all or none goes back to empty.
+const toggleColor = (layer: GradientLayer, index: number, count: number): number[] => {
+  const current = layer.colors.filter(i => i < count)
+  const selected = current.length > 0 ? current : Array.from({ length: count }, (_, i) => i)
+  const next = selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index].sort((a, b) => a - b)
+  return next.length === 0 || next.length === count ? [] : next
+}
+
+interface LayerEditorProps {
+  layer: GradientLayer
+  colors: Color[]
+  onChange: (patch: Partial<GradientLayer>) => void
+  onTransformChange: (patch: Partial<LayerTransform>) => void
+}
+
+const LayerEditor: React.FC<LayerEditorProps> = ({ layer, colors, onChange, onTransformChange }) => {
+  const subset = layer.colors.filter(i => i < colors.length)
+  const { transform } = layer
+
+  return (
+    <div className="space-y-3 pl-2 border-l-2 border-gray-200">
+      <div className="space-y-2">
+        <Label className="text-sm">Style</Label>
+        <Select value={layer.style} onValueChange={(value) => onChange({ style: value as GradientStyle })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GRADIENT_STYLES.map(style => (
+              <SelectItem key={style} value={style}>
+                {STYLE_LABELS[style]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Colors: {subset.length > 0 ? `${subset.length} of ${colors.length}` : 'All'}</Label>
+        <div className="flex flex-wrap gap-1">
+          {colors.map((color, index) => {
+            const active = subset.length === 0 || subset.includes(index)
+            return (
+              <button
+                key={`${color.hex}-${index}`}
+                type="button"
+                onClick={() => onChange({ colors: toggleColor(layer, index, colors.length) })}
+                title={`${color.name} ${active ? '(used)' : '(not used)'}`}
+                className={`w-7 h-7 rounded border-2 transition-opacity ${
+                  active ? 'border-gray-900 dark:border-white' : 'border-transparent opacity-30'
+                }`}
+                style={{ backgroundColor: color.hex }}
+              />
+            )
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Blend Mode</Label>
+        <Select value={layer.blendMode} onValueChange={(value) => onChange({ blendMode: value as LayerBlendMode })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LAYER_BLEND_MODES.map(mode => (
+              <SelectItem key={mode} value={mode}>
+                {BLEND_LABELS[mode]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Label className="text-sm">Opacity: {Math.round(layer.opacity * 100)}%</Label>
+        <Slider
+          value={[layer.opacity]}
+          onValueChange={(value) => onChange({ opacity: value[0] })}
+          min={0}
+          max={1}
+          step={0.05}
+          className="w-full"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Mask</Label>
+        <Select value={layer.mask} onValueChange={(value) => onChange({ mask: value as LayerMask })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LAYER_MASKS.map(mask => (
+              <SelectItem key={mask} value={mask}>
+                {MASK_LABELS[mask]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-sm">Offset X: {Math.round(transform.x * 100)}%</Label>
+        <Slider
+          value={[transform.x]}
+          onValueChange={(value) => onTransformChange({ x: value[0] })}
+          min={-1}
+          max={1}
+          step={0.01}
+          className="w-full"
+        />
+        <Label className="text-sm">Offset Y: {Math.round(transform.y * 100)}%</Label>
+        <Slider
+          value={[transform.y]}
+          onValueChange={(value) => onTransformChange({ y: value[0] })}
+          min={-1}
+          max={1}
+          step={0.01}
+          className="w-full"
+        />
+        <Label className="text-sm">Scale: {transform.scale.toFixed(2)}x</Label>
+        <Slider
+          value={[transform.scale]}
+          onValueChange={(value) => onTransformChange({ scale: value[0] })}
+          min={0.25}
+          max={4}
+          step={0.05}
+          className="w-full"
+        />
+        <Label className="text-sm">Rotation: {Math.round(transform.rotation)}°</Label>
+        <Slider
+          value={[transform.rotation]}
+          onValueChange={(value) => onTransformChange({ rotation: value[0] })}
+          min={-180}
+          max={180}
+          step={1}
+          className="w-full"
+        />
+      </div>
+    </div>
+  )
+}
+
+// The gradient layer stack, listed top first like an image editor's layers panel
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  colors,
+  onLayerChange,
+  onLayerTransformChange,
+  onAddLayer,
+  onRemoveLayer,
+  onMoveLayer
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // Falls back to the top layer, which is also where a new layer lands
+  const selected = layers.find(layer => layer.id === selectedId) ?? layers[layers.length - 1]
+
+  const handleAdd = () => {
+    setSelectedId(null)
+    onAddLayer()
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Gradient Layers</Label>
+        <Button variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={handleAdd} disabled={!canAddLayer(layers)}>
+          <Plus className="w-3 h-3 mr-1" />
+          Add layer
+        </Button>
+      </div>
+
+      <div className="space-y-1">
+        {layers
+          .map((layer, index) => ({ layer, index }))
+          .reverse()
+          .map(({ layer, index }) => (
+            <div
+              key={layer.id}
+              className={`flex items-center gap-1 rounded-md border px-1 ${
+                layer.id === selected?.id
+                  ? 'border-gray-900 dark:border-white'
+                  : 'border-gray-200 dark:border-gray-600'
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onLayerChange(layer.id, { visible: !layer.visible })}
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                className="p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+              >
+                {layer.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+              </button>
+              <button
+                type="button"
+                onClick={() => setSelectedId(layer.id)}
+                className={`flex-1 min-w-0 py-1.5 text-left text-sm truncate ${layer.visible ? '' : 'opacity-50'}`}
+              >
+                {STYLE_LABELS[layer.style]}
+                <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+                  {BLEND_LABELS[layer.blendMode]} · {Math.round(layer.opacity * 100)}%
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onMoveLayer(layer.id, 1)}
+                disabled={index === layers.length - 1}
+                title="Move up"
+                className="p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onMoveLayer(layer.id, -1)}
+                disabled={index === 0}
+                title="Move down"
+                className="p-1 text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemoveLayer(layer.id)}
+                disabled={layers.length === 1}
+                title="Delete layer"
+                className="p-1 text-gray-500 hover:text-red-500 dark:text-gray-400 disabled:opacity-30"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+      </div>
+
+      {selected && (
+        <LayerEditor
+          layer={selected}
+          colors={colors}
+          onChange={(patch) => onLayerChange(selected.id, patch)}
+          onTransformChange={(patch) => onLayerTransformChange(selected.id, patch)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,219 @@
+'use client'
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { ModalPortal } from './ui/modal-portal'
+import { BackgroundRecipe } from '@/lib/recipe'
+import { SavedDesign, deleteDesign, duplicateDesign, listDesigns, readDesignRecipe, saveDesign, updateDesign } from '@/lib/library'
+import { Copy, FolderOpen, Save, Trash2 } from 'lucide-react'
+
+interface LibraryDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  recipe: BackgroundRecipe
+  onLoad: (recipe: BackgroundRecipe, name: string) => void
+}
+
+const parseTags = (value: string) => value.split(',')
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm text-gray-900 dark:text-white'
+
+interface DesignCardProps {
+  design: SavedDesign
+  thumbnailUrl: string
+  onChange: (design: SavedDesign, changes: Partial<Pick<SavedDesign, 'name' | 'tags'>>) => void
+  onLoad: (design: SavedDesign) => void
+  onDuplicate: (design: SavedDesign) => void
+  onDelete: (design: SavedDesign) => void
+}
+
+// Name and tags are edited in place and saved when the field loses focus
+const DesignCard: React.FC<DesignCardProps> = ({ design, thumbnailUrl, onChange, onLoad, onDuplicate, onDelete }) => {
+  const [name, setName] = useState(design.name)
+  const [tags, setTags] = useState(design.tags.join(', '))
+
+  useEffect(() => setName(design.name), [design.name])
+  useEffect(() => setTags(design.tags.join(', ')), [design.tags])
+
+  const commitName = () => {
+    if (name.trim() !== design.name) onChange(design, { name })
+  }
+
+  const commitTags = () => {
+    if (tags !== design.tags.join(', ')) onChange(design, { tags: parseTags(tags) })
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-600 overflow-hidden flex flex-col">
+      <button type="button" onClick={() => onLoad(design)} className="bg-gray-100 dark:bg-gray-900 aspect-video flex items-center justify-center" title="Load into the editor">
+        {/* eslint-disable-next-line @next/next/no-img-element -- an object URL; next/image has nothing to optimize */}
+        <img src={thumbnailUrl} alt={design.name} className="max-w-full max-h-full object-contain" />
+      </button>
+      <div className="p-2 space-y-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className={inputClassName}
+          aria-label="Name"
+        />
+        <input
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onBlur={commitTags}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder="Tags, comma separated"
+          className={`${inputClassName} text-xs`}
+          aria-label="Tags"
+        />
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => onLoad(design)}>
+            <FolderOpen className="w-4 h-4 mr-1" />
+            Load
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDuplicate(design)} title="Duplicate">
+            <Copy className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onDelete(design)} title="Delete">
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export const LibraryDialog: React.FC<LibraryDialogProps> = ({ isOpen, onClose, recipe, onLoad }) => {
+  const [designs, setDesigns] = useState<SavedDesign[]>([])
+  const [name, setName] = useState('')
+  const [tags, setTags] = useState('')
+  const [filter, setFilter] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setDesigns(await listDesigns())
+    } catch (error) {
+      console.error('Loading the library failed:', error)
+      alert(`Could not open the library${error instanceof Error ? `: ${error.message}` : ''}`)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isOpen) refresh()
+  }, [isOpen, refresh])
+
+  // One object URL per stored thumbnail, released when the list changes
+  const thumbnailUrls = useMemo(() => new Map(designs.map(design => [design.id, URL.createObjectURL(design.thumbnail)])), [designs])
+  useEffect(() => () => thumbnailUrls.forEach(url => URL.revokeObjectURL(url)), [thumbnailUrls])
+
+  const allTags = useMemo(() => Array.from(new Set(designs.flatMap(design => design.tags))).sort(), [designs])
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase()
+    if (!query) return designs
+    return designs.filter(design => design.name.toLowerCase().includes(query) || design.tags.some(tag => tag.includes(query)))
+  }, [designs, filter])
+
+  // Every action reports failures the same way and reloads the list afterwards
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action()
+    } catch (error) {
+      console.error(`${failure}:`, error)
+      alert(failure)
+    }
+    await refresh()
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    await run(() => saveDesign(recipe, name || `Background ${recipe.seed}`, parseTags(tags)), 'Could not save the design')
+    setName('')
+    setSaving(false)
+  }
+
+  const handleLoad = (design: SavedDesign) => {
+    const result = readDesignRecipe(design)
+    if (!result.ok) {
+      alert(`Could not load "${design.name}":\n${result.errors.join('\n')}`)
+      return
+    }
+    if (result.warnings.length > 0) {
+      console.warn('Design loaded with warnings:', result.warnings)
+    }
+    onLoad(result.recipe, design.name)
+    onClose()
+  }
+
+  const handleDelete = (design: SavedDesign) => {
+    if (!confirm(`Delete "${design.name}"?`)) return
+    run(() => deleteDesign(design.id), 'Could not delete the design')
+  }
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4" onClick={(e) => e.target === e.currentTarget && onClose()}>
+        <div className="bg-white dark:bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          {/* Header */}
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600 space-y-3">
+            <div>
+              <h3 className="text-xl font-semibold mb-1 text-gray-900 dark:text-white">Library</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Designs saved in this browser. Click one to load it into the editor.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <input value={name} onChange={(e) => setName(e.target.value)} placeholder={`Background ${recipe.seed}`} className={inputClassName} aria-label="Name" />
+              <input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" className={inputClassName} aria-label="Tags" />
+              <Button onClick={handleSave} disabled={saving} size="sm" className="shrink-0">
+                <Save className="w-4 h-4 mr-1" />
+                {saving ? 'Saving…' : 'Save current'}
+              </Button>
+            </div>
+          </div>
+
+          {/* Designs */}
+          <div className="p-6 overflow-y-auto flex-1 space-y-4">
+            {designs.length > 0 && (
+              <div className="flex flex-wrap gap-2 items-center">
+                <input value={filter} onChange={(e) => setFilter(e.target.value)} placeholder="Search names and tags" className={`${inputClassName} max-w-xs`} aria-label="Search" />
+                {allTags.map(tag => (
+                  <Button key={tag} variant={filter === tag ? 'default' : 'outline'} size="sm" onClick={() => setFilter(filter === tag ? '' : tag)}>
+                    {tag}
+                  </Button>
+                ))}
+              </div>
+            )}
+            {designs.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing saved yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {visible.map(design => (
+                  <DesignCard
+                    key={design.id}
+                    design={design}
+                    thumbnailUrl={thumbnailUrls.get(design.id) ?? ''}
+                    onChange={(target, changes) => run(() => updateDesign(target, changes), 'Could not update the design')}
+                    onLoad={handleLoad}
+                    onDuplicate={(target) => run(() => duplicateDesign(target), 'Could not duplicate the design')}
+                    onDelete={handleDelete}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-6 border-t border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 flex justify-end">
+            <Button variant="outline" onClick={onClose} className="text-base py-2 px-6 dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </ModalPortal>
+  )
+}
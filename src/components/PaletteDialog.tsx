@@ -0,0 +1,254 @@
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { ModalPortal } from './ui/modal-portal'
+import { Palette, PaletteFamily, createColor, createPaletteId } from '@/lib/palette'
+import { importPalette, serializePalette } from '@/lib/palette-import'
+import { downloadBlob } from '@/lib/download'
+import { Check, Copy, Download, Plus, Trash2, Upload, X } from 'lucide-react'
+
+interface PaletteDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  palettes: Palette[]
+  activeId: string
+  onChange: (palettes: Palette[], activeId: string) => void
+}
+
+const inputClassName =
+  'rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-2 py-1 text-sm text-gray-900 dark:text-white disabled:opacity-60'
+
+// A file full of unreadable colors would otherwise make an alert taller than the screen
+const MAX_SHOWN_WARNINGS = 10
+
+// A new color is named after its family and position, like the built-in shades
+const nextColorName = (family: PaletteFamily) => `${family.name} ${family.colors.length + 1}`
+
+export const PaletteDialog: React.FC<PaletteDialogProps> = ({ isOpen, onClose, palettes, activeId, onChange }) => {
+  const [selectedId, setSelectedId] = useState(activeId)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (isOpen) setSelectedId(activeId)
+  }, [isOpen, activeId])
+
+  const selected = palettes.find(palette => palette.id === selectedId) ?? palettes[0]
+  const editable = !selected.builtIn
+
+  const updateSelected = (update: (palette: Palette) => Palette) => {
+    onChange(palettes.map(palette => (palette.id === selected.id ? update(palette) : palette)), activeId)
+  }
+
+  const updateFamily = (index: number, update: (family: PaletteFamily) => PaletteFamily) => {
+    updateSelected(palette => ({ ...palette, families: palette.families.map((family, i) => (i === index ? update(family) : family)) }))
+  }
+
+  const addPalette = (palette: Palette) => {
+    onChange([...palettes, palette], activeId)
+    setSelectedId(palette.id)
+  }
+
+  const handleNew = () => {
+    addPalette({ id: createPaletteId(), name: 'New palette', families: [{ name: 'Colors', colors: [createColor('#3B82F6', 'Colors 1')] }] })
+  }
+
+  const handleDuplicate = () => {
+    addPalette({ ...selected, id: createPaletteId(), name: `${selected.name} copy`, builtIn: undefined })
+  }
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the palette "${selected.name}"?`)) return
+    const remaining = palettes.filter(palette => palette.id !== selected.id)
+    onChange(remaining, activeId === selected.id ? remaining[0].id : activeId)
+    setSelectedId(remaining[0].id)
+  }
+
+  const handleExport = () => {
+    const blob = new Blob([serializePalette(selected)], { type: 'application/json' })
+    downloadBlob(blob, `palette-${selected.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.json`)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = importPalette(file.name, new Uint8Array(await file.arrayBuffer()))
+    if (!result.ok) {
+      alert(`Could not import palette:\n${result.errors.join('\n')}`)
+      return
+    }
+    addPalette(result.palette)
+    if (result.warnings.length > 0) {
+      const more = result.warnings.length - MAX_SHOWN_WARNINGS
+      const lines = [...result.warnings.slice(0, MAX_SHOWN_WARNINGS), ...(more > 0 ? [`…and ${more} more`] : [])]
+      alert(`Imported "${result.palette.name}", but part of it was left out:\n${lines.join('\n')}`)
+    }
+  }
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4" onClick={(e) => e.target === e.currentTarget && onClose()}>
+        <div className="bg-white dark:bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          {/* Header */}
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600">
+            <h3 className="text-xl font-semibold mb-1 text-gray-900 dark:text-white">Palettes</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The active palette feeds Regenerate, the color picker, moods and image matching. Import JSON, design tokens, CSS variables, a Tailwind config, .ase or .gpl.
+            </p>
+          </div>
+
+          <div className="flex-1 flex overflow-hidden">
+            {/* Palette list */}
+            <div className="w-56 shrink-0 border-r border-gray-200 dark:border-gray-600 p-4 space-y-2 overflow-y-auto">
+              {palettes.map(palette => (
+                <button
+                  key={palette.id}
+                  type="button"
+                  onClick={() => setSelectedId(palette.id)}
+                  className={`w-full text-left px-3 py-2 rounded-md text-sm flex items-center gap-2 ${
+                    palette.id === selected.id ? 'bg-gray-100 dark:bg-gray-700' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  } text-gray-900 dark:text-white`}
+                >
+                  <span className="flex-1 truncate">{palette.name}</span>
+                  {palette.id === activeId && <Check className="w-4 h-4 text-blue-500" />}
+                </button>
+              ))}
+              <div className="flex gap-2 pt-2">
+                <Button variant="outline" size="sm" className="flex-1" onClick={handleNew}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  New
+                </Button>
+                <Button variant="outline" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-1" />
+                  Import
+                </Button>
+              </div>
+            </div>
+
+            {/* Editor */}
+            <div className="flex-1 p-6 overflow-y-auto space-y-4">
+              <div className="flex flex-wrap gap-2 items-center">
+                <input
+                  value={selected.name}
+                  onChange={(e) => updateSelected(palette => ({ ...palette, name: e.target.value }))}
+                  disabled={!editable}
+                  className={`${inputClassName} flex-1 min-w-[10rem]`}
+                  aria-label="Palette name"
+                />
+                <Button size="sm" onClick={() => onChange(palettes, selected.id)} disabled={selected.id === activeId}>
+                  {selected.id === activeId ? 'Active' : 'Use'}
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleDuplicate} title="Duplicate">
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleExport} title="Export as JSON">
+                  <Download className="w-4 h-4" />
+                </Button>
+                {editable && (
+                  <Button variant="outline" size="sm" onClick={handleDelete} title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              {!editable && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Built-in palettes are read-only; duplicate one to edit it.</p>
+              )}
+
+              {selected.families.map((family, familyIndex) => (
+                <div key={familyIndex} className="space-y-2">
+                  <div className="flex gap-2 items-center">
+                    <input
+                      value={family.name}
+                      onChange={(e) => updateFamily(familyIndex, entry => ({ ...entry, name: e.target.value }))}
+                      disabled={!editable}
+                      className={`${inputClassName} w-40`}
+                      aria-label="Family name"
+                    />
+                    {editable && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => updateSelected(palette => ({ ...palette, families: palette.families.filter((_, i) => i !== familyIndex) }))}
+                        disabled={selected.families.length === 1}
+                        title="Remove family"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {family.colors.map((color, colorIndex) => (
+                      <div key={colorIndex} className="relative group" title={`${color.name} ${color.hex}`}>
+                        <input
+                          type="color"
+                          value={color.hex.toLowerCase()}
+                          onChange={(e) => updateFamily(familyIndex, entry => ({
+                            ...entry,
+                            colors: entry.colors.map((c, i) => (i === colorIndex ? createColor(e.target.value, c.name) : c))
+                          }))}
+                          disabled={!editable}
+                          className="w-10 h-10 rounded-lg border border-gray-300 dark:border-gray-500 cursor-pointer disabled:cursor-default"
+                        />
+                        {editable && family.colors.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => updateFamily(familyIndex, entry => ({ ...entry, colors: entry.colors.filter((_, i) => i !== colorIndex) }))}
+                            className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white rounded-full flex items-center justify-center opacity-0 group-hover:opacity-100"
+                            title="Remove color"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                    {editable && (
+                      <button
+                        type="button"
+                        onClick={() => updateFamily(familyIndex, entry => ({ ...entry, colors: [...entry.colors, createColor(entry.colors[entry.colors.length - 1]?.hex ?? '#808080', nextColorName(entry))] }))}
+                        className="w-10 h-10 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-500 flex items-center justify-center text-gray-400"
+                        title="Add color"
+                      >
+                        <Plus className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+
+              {editable && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateSelected(palette => ({
+                    ...palette,
+                    families: [...palette.families, { name: `Family ${palette.families.length + 1}`, colors: [createColor('#808080', `Family ${palette.families.length + 1} 1`)] }]
+                  }))}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add family
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="p-6 border-t border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 flex justify-end">
+            <Button variant="outline" onClick={onClose} className="text-base py-2 px-6 dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,.css,.js,.cjs,.mjs,.ts,.ase,.gpl,application/json,text/css"
+        onChange={handleImport}
+        className="hidden"
+      />
+    </ModalPortal>
+  )
+}
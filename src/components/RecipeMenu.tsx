@@ -0,0 +1,106 @@
+'use client'
+
+import React, { useRef } from 'react'
+import { Button } from './ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import { BackgroundRecipe, parseRecipeJSON, serializeRecipe } from '@/lib/recipe'
+import { createShareUrl } from '@/lib/share'
+import { downloadBlob } from '@/lib/download'
+import { FileJson, Copy, Download, Upload, Link } from 'lucide-react'
+
+interface RecipeMenuProps {
+  recipe: BackgroundRecipe
+  onRecipeLoad: (recipe: BackgroundRecipe) => void
+}
+
+export const RecipeMenu: React.FC<RecipeMenuProps> = ({ recipe, onRecipeLoad }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(serializeRecipe(recipe))
+    } catch (error) {
+      console.error('Copying recipe failed:', error)
+      alert('Could not copy the recipe to the clipboard')
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(createShareUrl(recipe, window.location.href))
+    } catch (error) {
+      console.error('Copying link failed:', error)
+      alert('Could not copy the link to the clipboard')
+    }
+  }
+
+  const handleDownload = () => {
+    const blob = new Blob([serializeRecipe(recipe)], { type: 'application/json' })
+    downloadBlob(blob, `background-recipe-${recipe.seed}.json`)
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) return
+
+    const result = parseRecipeJSON(await file.text())
+    if (!result.ok) {
+      alert(`Could not import recipe:\n${result.errors.join('\n')}`)
+      return
+    }
+    if (result.warnings.length > 0) {
+      console.warn('Recipe imported with warnings:', result.warnings)
+    }
+    onRecipeLoad(result.recipe)
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            className="bg-black/70 hover:bg-black/90 text-white backdrop-blur-sm"
+            size="sm"
+            title="Recipe"
+          >
+            <FileJson className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="min-w-[180px]">
+          <DropdownMenuItem onClick={handleCopyLink}>
+            <Link className="mr-2 h-4 w-4" />
+            Copy share link
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleCopy}>
+            <Copy className="mr-2 h-4 w-4" />
+            Copy recipe
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            Download recipe
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Import recipe…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+    </>
+  )
+}
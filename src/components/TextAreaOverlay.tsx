@@ -0,0 +1,80 @@
+'use client'
+
+import React, { useRef, useState } from 'react'
+import { TextColor } from '@/lib/recipe'
+import { TextAreaRect } from '@/lib/legibility'
+
+interface TextAreaOverlayProps {
+  area: TextAreaRect
+  textColor: TextColor
+  // Sample text, for when the foreground has no text of its own in the box
+  showSample: boolean
+  // Called once per drag, when the pointer is released
+  onChange: (area: TextAreaRect) => void
+}
+
+type DragMode = 'move' | 'resize'
+
+const MIN_SIZE = 0.05
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+// The text safe area as a box on the preview: drag it to move, drag the corner to resize
+export const TextAreaOverlay: React.FC<TextAreaOverlayProps> = ({ area, textColor, showSample, onChange }) => {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; start: TextAreaRect } | null>(null)
+  const [draft, setDraft] = useState<TextAreaRect | null>(null)
+  const rect = draft ?? area
+
+  const handlePointerDown = (event: React.PointerEvent, mode: DragMode) => {
+    event.preventDefault()
+    event.stopPropagation()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    dragRef.current = { mode, startX: event.clientX, startY: event.clientY, start: area }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragRef.current
+    const bounds = overlayRef.current?.getBoundingClientRect()
+    if (!drag || !bounds) return
+
+    const dx = (event.clientX - drag.startX) / bounds.width
+    const dy = (event.clientY - drag.startY) / bounds.height
+    const { start } = drag
+    setDraft(
+      drag.mode === 'move'
+        ? { ...start, x: clamp(start.x + dx, 0, 1 - start.width), y: clamp(start.y + dy, 0, 1 - start.height) }
+        : { ...start, width: clamp(start.width + dx, MIN_SIZE, 1 - start.x), height: clamp(start.height + dy, MIN_SIZE, 1 - start.y) }
+    )
+  }
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return
+    dragRef.current = null
+    if (draft) onChange(draft)
+    setDraft(null)
+  }
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 pointer-events-none">
+      <div
+        className="absolute pointer-events-auto cursor-move border-2 border-dashed border-white/80 shadow-[0_0_0_1px_rgba(0,0,0,0.4)] flex items-center justify-center"
+        style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+        onPointerDown={(e) => handlePointerDown(e, 'move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        title="Text safe area"
+      >
+        {showSample && (
+          <span className={`text-2xl font-bold select-none ${textColor === 'white' ? 'text-white' : 'text-black'}`}>Headline</span>
+        )}
+        <div
+          className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-white border border-gray-500 rounded-sm cursor-nwse-resize"
+          onPointerDown={(e) => handlePointerDown(e, 'resize')}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        />
+      </div>
+    </div>
+  )
+}
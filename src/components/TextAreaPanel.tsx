@@ -0,0 +1,152 @@
+'use client'
+
+import React from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Slider } from './ui/slider'
+import { Switch } from './ui/switch'
+import { TextAreaSettings, TextAreaTreatment, TextColor, TEXT_COLORS } from '@/lib/recipe'
+import { LegibilityReport, TEXT_AREA_TEMPLATES, rateContrast } from '@/lib/legibility'
+import { ScanText } from 'lucide-react'
+
+interface TextAreaPanelProps {
+  textArea: TextAreaSettings
+  onChange: (patch: Partial<TextAreaSettings>) => void
+  report: LegibilityReport | null
+  exportWidth: number
+  exportHeight: number
+  isChecking: boolean
+  onCheckAtExportSize: () => void
+}
+
+const TREATMENT_LABELS: Record<TextAreaTreatment, string> = {
+  none: 'No treatment',
+  scrim: 'Scrim',
+  soften: 'Reduce intensity'
+}
+
+const ContrastRow: React.FC<{ color: TextColor; report: LegibilityReport }> = ({ color, report }) => {
+  const stats = report[color]
+  const rating = rateContrast(stats.p10)
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span
+        className={`w-8 h-6 rounded flex items-center justify-center font-semibold border border-gray-300 dark:border-gray-500 ${
+          color === 'white' ? 'bg-gray-700 text-white' : 'bg-gray-100 text-black'
+        }`}
+      >
+        Aa
+      </span>
+      <span className="flex-1 text-gray-600 dark:text-gray-300">
+        {stats.p10.toFixed(1)}:1 <span className="text-gray-400">(min {stats.min.toFixed(1)}, avg {stats.average.toFixed(1)})</span>
+      </span>
+      <span className={`font-medium ${rating === 'Fails' ? 'text-red-500' : rating === 'AA' ? 'text-green-600 dark:text-green-400' : 'text-amber-500'}`}>
+        {rating}
+      </span>
+    </div>
+  )
+}
+
+export const TextAreaPanel: React.FC<TextAreaPanelProps> = ({
+  textArea,
+  onChange,
+  report,
+  exportWidth,
+  exportHeight,
+  isChecking,
+  onCheckAtExportSize
+}) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="text-area-toggle">Text Safe Area</Label>
+        <Switch checked={textArea.enabled} onCheckedChange={(enabled) => onChange({ enabled })} id="text-area-toggle" />
+      </div>
+
+      {textArea.enabled && (
+        <div className="space-y-3 pl-2 border-l-2 border-gray-200">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Drag or resize the box on the preview, or start from a layout
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {TEXT_AREA_TEMPLATES.map(({ id, label, rect }) => (
+              <Button key={id} variant="outline" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange(rect)}>
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          {/* Contrast of each text color over the 90% best-covered part of the area */}
+          {report && (
+            <div className="space-y-1.5">
+              <Label className="text-sm font-medium">Contrast (90% of the area)</Label>
+              <ContrastRow color="white" report={report} />
+              <ContrastRow color="black" report={report} />
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {report.suggestion === 'white' ? 'White' : 'Black'} text reads better here · measured at {report.width}×{report.height}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Text Color</Label>
+            <div className="flex gap-2">
+              {TEXT_COLORS.map(color => (
+                <Button
+                  key={color}
+                  variant={textArea.textColor === color ? 'default' : 'outline'}
+                  size="sm"
+                  className="flex-1 capitalize"
+                  onClick={() => onChange({ textColor: color })}
+                >
+                  {color}
+                  {report?.suggestion === color && ' ✓'}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Treatment</Label>
+            <Select value={textArea.treatment} onValueChange={(value) => onChange({ treatment: value as TextAreaTreatment })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TREATMENT_LABELS) as TextAreaTreatment[]).map(treatment => (
+                  <SelectItem key={treatment} value={treatment}>
+                    {TREATMENT_LABELS[treatment]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {textArea.treatment !== 'none' && (
+              <>
+                <Label className="text-sm">Strength: {Math.round(textArea.amount * 100)}%</Label>
+                <Slider
+                  value={[textArea.amount]}
+                  onValueChange={(value) => onChange({ amount: value[0] })}
+                  min={0.05}
+                  max={1}
+                  step={0.05}
+                  className="w-full"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {textArea.treatment === 'scrim'
+                    ? `Tints the area toward ${textArea.textColor === 'white' ? 'black' : 'white'}`
+                    : 'Mutes the colors in the area'}
+                </p>
+              </>
+            )}
+          </div>
+
+          <Button variant="outline" size="sm" className="w-full" onClick={onCheckAtExportSize} disabled={isChecking}>
+            <ScanText className="w-4 h-4 mr-2" />
+            {isChecking ? 'Checking…' : `Check at ${exportWidth}×${exportHeight}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
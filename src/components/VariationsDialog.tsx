@@ -0,0 +1,136 @@
+'use client'
+
+import React, { useEffect, useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { ModalPortal } from './ui/modal-portal'
+import { BackgroundRecipe } from '@/lib/recipe'
+import { Palette } from '@/lib/palette'
+import { MUTATION_KINDS, MutationKind, VARIATION_COUNTS, Variation, createVariations } from '@/lib/variations'
+import { renderThumbnail } from '@/lib/library'
+import { RenderCancelledError } from '@/lib/render/worker-client'
+import { randomSeed } from '@/utils/random'
+import { Shuffle } from 'lucide-react'
+
+interface VariationsDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  recipe: BackgroundRecipe
+  palette: Palette
+  onAdopt: (variation: Variation) => void
+}
+
+export const VariationsDialog: React.FC<VariationsDialogProps> = ({ isOpen, onClose, recipe, palette, onAdopt }) => {
+  const [count, setCount] = useState(VARIATION_COUNTS[0])
+  const [kinds, setKinds] = useState<MutationKind[]>(MUTATION_KINDS.map(entry => entry.kind))
+  const [batchSeed, setBatchSeed] = useState(randomSeed)
+  const [thumbnails, setThumbnails] = useState<(string | null)[]>([])
+
+  const variations = useMemo(() => createVariations(recipe, count, batchSeed, kinds, palette), [recipe, count, batchSeed, kinds, palette])
+
+  // Render thumbnails one by one so the grid fills in; a new batch cancels the old one
+  useEffect(() => {
+    if (!isOpen) return
+    const controller = new AbortController()
+    const urls: string[] = []
+    setThumbnails(variations.map(() => null))
+
+    const renderAll = async () => {
+      for (let index = 0; index < variations.length; index++) {
+        const blob = await renderThumbnail(variations[index].recipe, controller.signal)
+        const url = URL.createObjectURL(blob)
+        urls.push(url)
+        setThumbnails(prev => prev.map((thumbnail, i) => (i === index ? url : thumbnail)))
+      }
+    }
+
+    renderAll().catch(error => {
+      if (error instanceof RenderCancelledError) return
+      console.error('Rendering variations failed:', error)
+    })
+
+    return () => {
+      controller.abort()
+      urls.forEach(url => URL.revokeObjectURL(url))
+    }
+  }, [isOpen, variations])
+
+  const toggleKind = (kind: MutationKind) => {
+    setKinds(prev => (prev.includes(kind) ? prev.filter(entry => entry !== kind) : [...prev, kind]))
+  }
+
+  const handleAdopt = (variation: Variation) => {
+    onAdopt(variation)
+    onClose()
+  }
+
+  return (
+    <ModalPortal isOpen={isOpen}>
+      <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[9999] p-4" onClick={(e) => e.target === e.currentTarget && onClose()}>
+        <div className="bg-white dark:bg-gray-800 rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+          {/* Header */}
+          <div className="p-6 border-b border-gray-200 dark:border-gray-600 space-y-3">
+            <div>
+              <h3 className="text-xl font-semibold mb-1 text-gray-900 dark:text-white">Variations</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Small changes around the current design. Click one to adopt it; Undo brings the original back.
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+              {MUTATION_KINDS.map(({ kind, label }) => (
+                <Button key={kind} variant={kinds.includes(kind) ? 'default' : 'outline'} size="sm" onClick={() => toggleKind(kind)}>
+                  {label}
+                </Button>
+              ))}
+              <span className="mx-1 h-5 border-l border-gray-200 dark:border-gray-600" />
+              {VARIATION_COUNTS.map(option => (
+                <Button key={option} variant={option === count ? 'default' : 'outline'} size="sm" onClick={() => setCount(option)}>
+                  {option}
+                </Button>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => setBatchSeed(randomSeed())} title="New batch">
+                <Shuffle className="w-4 h-4 mr-1" />
+                More
+              </Button>
+            </div>
+          </div>
+
+          {/* Grid */}
+          <div className="p-6 overflow-y-auto flex-1">
+            {variations.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Pick at least one kind of change.</p>
+            ) : (
+              <div className={`grid gap-3 ${count > 9 ? 'grid-cols-4' : 'grid-cols-3'}`}>
+                {variations.map((variation, index) => (
+                  <button
+                    key={index}
+                    type="button"
+                    onClick={() => handleAdopt(variation)}
+                    className="group rounded-lg border border-gray-200 dark:border-gray-600 overflow-hidden text-left hover:ring-2 hover:ring-primary"
+                    title={variation.label}
+                  >
+                    <div className="bg-gray-100 dark:bg-gray-900 aspect-video flex items-center justify-center">
+                      {thumbnails[index] ? (
+                        // eslint-disable-next-line @next/next/no-img-element -- an object URL; next/image has nothing to optimize
+                        <img src={thumbnails[index] ?? undefined} alt={variation.label} className="max-w-full max-h-full object-contain" />
+                      ) : (
+                        <span className="text-xs text-gray-400">Rendering…</span>
+                      )}
+                    </div>
+                    <p className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 truncate">{variation.label}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="p-6 border-t border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700 flex justify-end">
+            <Button variant="outline" onClick={onClose} className="text-base py-2 px-6 dark:text-gray-200 dark:border-gray-500 dark:hover:bg-gray-600">
+              Close
+            </Button>
+          </div>
+        </div>
+      </div>
+    </ModalPortal>
+  )
+}
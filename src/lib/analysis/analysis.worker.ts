@@ -0,0 +1,26 @@
+// Analysis worker: scales a decoded picture down and clusters it, so dropping a large photo
+// never stalls the editor
+
+import { createBrowserCanvas } from '@/lib/render/context'
+import { analyzeImage, readScaledPixels } from './analyze'
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './worker-client'
+
+// The project compiles against the DOM lib, so describe the little of the worker scope we use
+interface WorkerScope {
+  postMessage(message: AnalysisWorkerResponse): void
+  addEventListener(type: 'message', listener: (event: MessageEvent<AnalysisWorkerRequest>) => void): void
+}
+
+const scope = self as unknown as WorkerScope
+
+scope.addEventListener('message', event => {
+  const { id, bitmap } = event.data
+  try {
+    const analysis = analyzeImage(readScaledPixels(bitmap, createBrowserCanvas))
+    scope.postMessage({ type: 'analysis', id, analysis })
+  } catch (error) {
+    scope.postMessage({ type: 'error', id, message: error instanceof Error ? error.message : String(error) })
+  } finally {
+    bitmap.close()
+  }
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { RGB } from '@/lib/color-space'
+import { Palette, createColor } from '@/lib/palette'
+import { DEFAULT_RECIPE } from '@/lib/recipe'
+import { ImageAnalysis, ImagePixels, analyzeImage, applyImageAnalysis } from './analyze'
+
+const WIDTH = 96
+const HEIGHT = 64
+
+const image = (colorAt: (x: number, y: number) => RGB | null): ImagePixels => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const color = colorAt(x, y)
+      if (color) data.set([...color, 255], (y * WIDTH + x) * 4)
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT }
+}
+
+const gray = (value: number): RGB => {
+  const level = Math.round(Math.max(0, Math.min(1, value)) * 255)
+  return [level, level, level]
+}
+
+const RED: RGB = [241, 61, 81]
+const BLUE: RGB = [22, 142, 255]
+
+describe('analyzeImage', () => {
+  it('finds the colors of the picture with their share and position', () => {
+    // A 24 px blue square at the middle of the right edge
+    const { clusters } = analyzeImage(image((x, y) => (x >= 72 && y >= 20 && y < 44 ? BLUE : RED)))
+    expect(clusters.map(cluster => cluster.rgb)).toEqual([RED, BLUE])
+    expect(clusters[1].weight).toBeCloseTo((24 * 24) / (WIDTH * HEIGHT), 4)
+    expect(clusters[1].blobs).toHaveLength(1)
+    expect(clusters[1].blobs[0].x).toBeCloseTo(0.875, 2)
+    expect(clusters[1].blobs[0].y).toBeCloseTo(0.5, 2)
+  })
+
+  it('splits a color into a blob per area it covers', () => {
+    const { clusters } = analyzeImage(image((x, y) => ((x < 16 || x >= WIDTH - 16) && y >= 24 && y < 40 ? RED : BLUE)))
+    const red = clusters.find(cluster => cluster.rgb.join() === RED.join())!
+    expect(red.blobs.map(blob => Math.round(blob.x * 100)).sort()).toEqual([8, 92])
+  })
+
+  it('folds near-identical shades into one color and leaves out transparent pixels', () => {
+    const { clusters } = analyzeImage(image((x, y) => (y < 8 ? null : x % 2 ? RED : [RED[0] - 2, RED[1], RED[2] + 1])))
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].weight).toBe(1)
+    expect(clusters[0].blobs[0].y).toBeCloseTo(36 / HEIGHT, 2)
+  })
+
+  it('rejects a picture with no opaque pixels', () => {
+    expect(() => analyzeImage(image(() => null))).toThrow()
+  })
+
+  it.each([
+    ['linear', (x: number, y: number) => gray((x + y * 0.3) / (WIDTH + HEIGHT * 0.3))],
+    ['radial', (x: number, y: number) => gray(1 - Math.hypot(x - WIDTH / 2, y - HEIGHT / 2) / 45)],
+    [
+      'sunburst',
+      (x: number, y: number) => gray(Math.floor(((Math.atan2(y - HEIGHT / 2, x - WIDTH / 2) + Math.PI) / (2 * Math.PI)) * 12) % 2 ? 0.85 : 0.2)
+    ],
+    ['wave', (x: number, y: number) => [RED, BLUE, gray(0.9), gray(0.1)][(Math.floor(x / 6) + 3 * Math.floor(y / 6)) % 4]],
+    [
+      'organic',
+      (x: number, y: number) => {
+        const spot = (cx: number, cy: number, size: number) => Math.exp(-((x - cx) ** 2 + (y - cy) ** 2) / (2 * size ** 2))
+        return gray(0.5 + 0.4 * spot(20, 16, 9) - 0.4 * spot(70, 20, 10) + 0.35 * spot(60, 52, 8) - 0.35 * spot(18, 50, 8))
+      }
+    ]
+  ] as [string, (x: number, y: number) => RGB][])('reads %s pictures as that style', (style, colorAt) => {
+    expect(analyzeImage(image(colorAt)).style).toBe(style)
+  })
+})
+
+describe('applyImageAnalysis', () => {
+  const analysis: ImageAnalysis = {
+    clusters: [
+      { rgb: RED, weight: 0.5, blobs: [{ x: 0.2, y: 0.3, radius: 0.3, weight: 0.3 }, { x: 0.8, y: 0.7, radius: 0.2, weight: 0.2 }] },
+      { rgb: [240, 64, 84], weight: 0.3, blobs: [{ x: 0.5, y: 0.5, radius: 0.25, weight: 0.3 }] },
+      { rgb: BLUE, weight: 0.2, blobs: [{ x: 0.1, y: 0.9, radius: 0.2, weight: 0.2 }] }
+    ],
+    style: 'radial',
+    intensity: 0.7,
+    density: 0.4
+  }
+
+  it('uses the colors as found, and a blob per color in rounds', () => {
+    const recipe = applyImageAnalysis(DEFAULT_RECIPE, analysis, { id: 'p', name: 'P', families: [] }, false)
+    expect(recipe.colors.map(color => color.hex)).toEqual(['#F13D51', '#F04054', '#168EFF'])
+    expect(recipe.colorBlobs.map(blob => [blob.color.hex, blob.intensity])).toEqual([
+      ['#F13D51', 1],
+      ['#F04054', 1],
+      ['#168EFF', 0.2 / 0.3]
+    ])
+    expect(recipe.layers[0].style).toBe('radial')
+    expect([recipe.gradientIntensity, recipe.gradientDensity]).toEqual([0.7, 0.4])
+  })
+
+  it('combines colors that snap to the same brand color', () => {
+    const palette: Palette = {
+      id: 'brand',
+      name: 'Brand',
+      families: [{ name: 'Brand', colors: [createColor('#EE4050', 'Red'), createColor('#1890F0', 'Blue')] }]
+    }
+    const recipe = applyImageAnalysis(DEFAULT_RECIPE, analysis, palette, true)
+    expect(recipe.colors.map(color => color.hex)).toEqual(['#EE4050', '#1890F0'])
+    expect(recipe.colorBlobs.map(blob => [blob.color.hex, blob.x])).toEqual([
+      ['#EE4050', 0.2],
+      ['#1890F0', 0.1]
+    ])
+  })
+})
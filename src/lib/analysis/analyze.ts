@@ -0,0 +1,435 @@
+// Image-to-gradient analysis: the main colors of a picture, where each sits, and which gradient
+// style its light falls like. Pure functions over RGBA pixels, so the same code runs in the
+// analysis worker and, where there is no worker, on the page.
+//
+// Colors are clustered in OKLab, where distance tracks how different colors look. Median cut
+// picks the starting centers, so a picture always gives the same palette, and k-means refines
+// them. Each color's pixels are then grouped by position into up to three blobs, with the
+// centroid and spread of the pixels they stand for.
+
+import { Color, rgbToHex } from '@/utils/colors'
+import { OKLab, RGB, oklabToRgb, rgbToOklab } from '@/lib/color-space'
+import { Palette, nearestPaletteColor } from '@/lib/palette'
+import { BackgroundRecipe, ColorBlob, GradientStyle, MAX_RECIPE_COLORS, colorFromHex } from '@/lib/recipe'
+import { patchLayer } from '@/lib/layers'
+import { CanvasFactory } from '@/lib/render/context'
+
+export interface ImagePixels {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+export interface ImageBlob {
+  // Centroid, as 0-1 fractions of the image
+  x: number
+  y: number
+  // Radius of a disc with the same spread as the pixels, as a fraction of the short side
+  radius: number
+  // Share of the image's pixels
+  weight: number
+}
+
+export interface ImageCluster {
+  rgb: RGB
+  // Share of the image's pixels
+  weight: number
+  // Largest first
+  blobs: ImageBlob[]
+}
+
+export interface ImageAnalysis {
+  // Largest first
+  clusters: ImageCluster[]
+  style: GradientStyle
+  intensity: number
+  density: number
+}
+
+// Long side the picture is scaled to before analysis; plenty for a soft background
+export const ANALYSIS_SIZE = 128
+
+// The picture's pixels at analysis size; smoothing averages the pixels each one stands for
+export const readScaledPixels = (image: ImageBitmap, createCanvas: CanvasFactory): ImagePixels => {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(image.width, image.height))
+  const width = Math.max(1, Math.round(image.width * scale))
+  const height = Math.max(1, Math.round(image.height * scale))
+  const surface = createCanvas(width, height)
+  if (!surface) throw new Error('Could not allocate the analysis canvas')
+  surface.ctx.imageSmoothingEnabled = true
+  surface.ctx.imageSmoothingQuality = 'high'
+  surface.ctx.drawImage(image, 0, 0, width, height)
+  return surface.ctx.getImageData(0, 0, width, height)
+}
+
+// Clusters found before small and near-duplicate ones are dropped
+const CLUSTER_COUNT = 8
+const KMEANS_ITERATIONS = 12
+// Clusters smaller than this share of the image are noise, not a color of the picture
+const MIN_CLUSTER_WEIGHT = 0.02
+// OKLab distance below which two clusters read as the same color
+const MERGE_DISTANCE = 0.05
+// A color's pixels are split into more blobs while any blob is wider than this
+const MAX_BLOB_RADIUS = 0.35
+const MAX_BLOBS_PER_COLOR = 3
+// Blobs with less than this share of their color's pixels are left out
+const MIN_BLOB_SHARE = 0.1
+
+interface Sample {
+  lab: OKLab
+  // Position in short-side units, so distances are the same horizontally and vertically
+  x: number
+  y: number
+}
+
+const distanceSquared = (a: OKLab, b: OKLab) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+
+const meanLab = (samples: Sample[]): OKLab => {
+  const sum: OKLab = [0, 0, 0]
+  samples.forEach(({ lab }) => {
+    sum[0] += lab[0]
+    sum[1] += lab[1]
+    sum[2] += lab[2]
+  })
+  return [sum[0] / samples.length, sum[1] / samples.length, sum[2] / samples.length]
+}
+
+// Median cut: keep splitting the box with the widest spread of colors at its median, along its
+// widest axis, until there are `count` boxes. Their means are the k-means starting centers.
+const medianCut = (samples: Sample[], count: number): OKLab[] => {
+  const spread = (box: Sample[]) => {
+    const ranges = [0, 1, 2].map(axis => {
+      let min = Infinity
+      let max = -Infinity
+      box.forEach(({ lab }) => {
+        min = Math.min(min, lab[axis])
+        max = Math.max(max, lab[axis])
+      })
+      return max - min
+    })
+    const axis = ranges.indexOf(Math.max(...ranges))
+    return { axis, score: ranges[axis] * box.length }
+  }
+
+  const boxes = [samples]
+  while (boxes.length < count) {
+    const scored = boxes.map(spread)
+    const index = scored.reduce((best, entry, i) => (entry.score > scored[best].score ? i : best), 0)
+    const { axis, score } = scored[index]
+    if (score === 0) break
+    const box = [...boxes[index]].sort((a, b) => a.lab[axis] - b.lab[axis])
+    const middle = Math.floor(box.length / 2)
+    boxes.splice(index, 1, box.slice(0, middle), box.slice(middle))
+  }
+  return boxes.filter(box => box.length > 0).map(meanLab)
+}
+
+// Lloyd's k-means from the given centers; returns the members of each center
+const kMeans = (samples: Sample[], initial: OKLab[]): { center: OKLab; members: Sample[] }[] => {
+  let centers = initial
+  let assignment = new Array<number>(samples.length).fill(-1)
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let changed = false
+    const next = samples.map((sample, i) => {
+      let best = 0
+      let bestDistance = Infinity
+      centers.forEach((center, c) => {
+        const distance = distanceSquared(sample.lab, center)
+        if (distance < bestDistance) {
+          bestDistance = distance
+          best = c
+        }
+      })
+      if (best !== assignment[i]) changed = true
+      return best
+    })
+    assignment = next
+    if (!changed) break
+    centers = centers.map((center, c) => {
+      const members = samples.filter((_, i) => assignment[i] === c)
+      return members.length > 0 ? meanLab(members) : center
+    })
+  }
+
+  return centers.map((center, c) => ({ center, members: samples.filter((_, i) => assignment[i] === c) }))
+}
+
+const spatialCentroid = (samples: Sample[]) => {
+  const x = samples.reduce((sum, sample) => sum + sample.x, 0) / samples.length
+  const y = samples.reduce((sum, sample) => sum + sample.y, 0) / samples.length
+  // A uniform disc of radius R has a mean squared distance of R^2 / 2 from its center
+  const meanSquared = samples.reduce((sum, sample) => sum + (sample.x - x) ** 2 + (sample.y - y) ** 2, 0) / samples.length
+  return { x, y, radius: Math.sqrt(2 * meanSquared) }
+}
+
+// k-means on positions, started from the pixels farthest apart, so it is deterministic too
+const splitByPosition = (samples: Sample[], count: number): Sample[][] => {
+  const seeds = [samples[0]]
+  while (seeds.length < count) {
+    const farthest = samples.reduce((best, sample) => {
+      const distance = Math.min(...seeds.map(seed => (seed.x - sample.x) ** 2 + (seed.y - sample.y) ** 2))
+      return distance > best.distance ? { sample, distance } : best
+    }, { sample: samples[0], distance: -1 })
+    seeds.push(farthest.sample)
+  }
+
+  let centers = seeds.map(({ x, y }) => ({ x, y }))
+  let groups: Sample[][] = []
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    groups = centers.map(() => [])
+    samples.forEach(sample => {
+      let best = 0
+      let bestDistance = Infinity
+      centers.forEach((center, c) => {
+        const distance = (center.x - sample.x) ** 2 + (center.y - sample.y) ** 2
+        if (distance < bestDistance) {
+          bestDistance = distance
+          best = c
+        }
+      })
+      groups[best].push(sample)
+    })
+    centers = groups.map((group, c) => (group.length > 0 ? spatialCentroid(group) : centers[c]))
+  }
+  return groups.filter(group => group.length > 0)
+}
+
+// The fewest blobs, up to MAX_BLOBS_PER_COLOR, that keep every blob narrower than MAX_BLOB_RADIUS
+const findBlobs = (members: Sample[], total: number, shortSide: number, width: number, height: number): ImageBlob[] => {
+  let groups = [members]
+  for (let count = 2; count <= MAX_BLOBS_PER_COLOR && groups.some(group => spatialCentroid(group).radius > MAX_BLOB_RADIUS); count++) {
+    groups = splitByPosition(members, count)
+  }
+
+  return groups
+    .filter(group => group.length >= members.length * MIN_BLOB_SHARE)
+    .map(group => {
+      const { x, y, radius } = spatialCentroid(group)
+      return {
+        x: (x * shortSide) / width,
+        y: (y * shortSide) / height,
+        radius: Math.max(0.05, Math.min(0.8, radius)),
+        weight: group.length / total
+      }
+    })
+    .sort((a, b) => b.weight - a.weight)
+}
+
+// How much of the variance of `values` a least-squares fit on `features` explains (R^2)
+const fitQuality = (values: number[], features: number[][]): number => {
+  const n = values.length
+  const mean = values.reduce((sum, value) => sum + value, 0) / n
+  const total = values.reduce((sum, value) => sum + (value - mean) ** 2, 0)
+  if (total < 1e-9) return 0
+
+  // Normal equations on centered features, solved by Gaussian elimination (at most 2 x 2 here)
+  const size = features.length
+  const centered = features.map(feature => {
+    const featureMean = feature.reduce((sum, value) => sum + value, 0) / n
+    return feature.map(value => value - featureMean)
+  })
+  const matrix = centered.map(a => [
+    ...centered.map(b => a.reduce((sum, value, i) => sum + value * b[i], 0)),
+    a.reduce((sum, value, i) => sum + value * (values[i] - mean), 0)
+  ])
+  for (let col = 0; col < size; col++) {
+    const pivot = matrix[col][col]
+    if (Math.abs(pivot) < 1e-12) return 0
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue
+      const factor = matrix[row][col] / pivot
+      for (let k = col; k <= size; k++) matrix[row][k] -= factor * matrix[col][k]
+    }
+  }
+  const coefficients = matrix.map((row, i) => row[size] / row[i])
+
+  const residual = values.reduce((sum, value, i) => {
+    const predicted = mean + coefficients.reduce((acc, coefficient, f) => acc + coefficient * centered[f][i], 0)
+    return sum + (value - predicted) ** 2
+  }, 0)
+  return 1 - residual / total
+}
+
+// Share of the variance of `values` explained by the means of the bins they fall in
+const binnedVariance = (values: number[], bins: number[], binCount: number): number => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  const total = values.reduce((sum, value) => sum + (value - mean) ** 2, 0)
+  if (total < 1e-9) return 0
+  const sums = new Array<number>(binCount).fill(0)
+  const counts = new Array<number>(binCount).fill(0)
+  values.forEach((value, i) => {
+    sums[bins[i]] += value
+    counts[bins[i]]++
+  })
+  const between = sums.reduce((sum, binSum, b) => (counts[b] > 0 ? sum + counts[b] * (binSum / counts[b] - mean) ** 2 : sum), 0)
+  return between / total
+}
+
+// How often the bin means cross their overall mean going once around the circle; rays alternate
+// many times, a few blobs that happen to sit at different angles only a handful
+const angularCrossings = (values: number[], bins: number[], binCount: number): number => {
+  const sums = new Array<number>(binCount).fill(0)
+  const counts = new Array<number>(binCount).fill(0)
+  values.forEach((value, i) => {
+    sums[bins[i]] += value
+    counts[bins[i]]++
+  })
+  const means = sums.flatMap((sum, b) => (counts[b] > 0 ? [sum / counts[b]] : []))
+  const mean = means.reduce((total, value) => total + value, 0) / Math.max(1, means.length)
+  return means.filter((value, i) => value >= mean !== means[(i + 1) % means.length] >= mean).length
+}
+
+// Thresholds for the style fits; each is the share of the lightness variance the shape explains
+const LINEAR_FIT = 0.6
+const RADIAL_FIT = 0.5
+const SUNBURST_FIT = 0.45
+// Four rays at the least
+const SUNBURST_CROSSINGS = 8
+// Share of pixels on a visible edge above which the picture reads as hard-edged zones
+const MESH_EDGES = 0.12
+const EDGE_STEP = 0.04
+
+// Which gradient style the picture's lightness follows: a plane (linear), distance from a center
+// (radial), angle around a center (sunburst), many hard-edged zones (wave, the mesh style), or
+// none of those (organic)
+const detectStyle = (samples: Sample[], lightness: Float32Array, width: number, height: number) => {
+  const values = samples.map(sample => sample.lab[0])
+  const xs = samples.map(sample => sample.x)
+  const ys = samples.map(sample => sample.y)
+  const linear = fitQuality(values, [xs, ys])
+
+  // Radial and sunburst are measured around the image center and around the lightest area,
+  // and the better center is kept
+  const shortSide = Math.min(width, height)
+  const bright = [...samples].sort((a, b) => b.lab[0] - a.lab[0]).slice(0, Math.max(1, Math.floor(samples.length / 10)))
+  const centers = [{ x: width / shortSide / 2, y: height / shortSide / 2 }, spatialCentroid(bright)]
+  const ANGLE_BINS = 36
+  let radial = 0
+  let sunburst = 0
+  centers.forEach(center => {
+    const distances = samples.map(sample => Math.hypot(sample.x - center.x, sample.y - center.y))
+    radial = Math.max(radial, fitQuality(values, [distances]))
+    const angles = samples.map(sample => {
+      const angle = Math.atan2(sample.y - center.y, sample.x - center.x)
+      return Math.min(ANGLE_BINS - 1, Math.floor(((angle + Math.PI) / (2 * Math.PI)) * ANGLE_BINS))
+    })
+    if (angularCrossings(values, angles, ANGLE_BINS) >= SUNBURST_CROSSINGS) {
+      sunburst = Math.max(sunburst, binnedVariance(values, angles, ANGLE_BINS))
+    }
+  })
+
+  let edges = 0
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x
+      if (Math.abs(lightness[i + 1] - lightness[i]) > EDGE_STEP || Math.abs(lightness[i + width] - lightness[i]) > EDGE_STEP) edges++
+    }
+  }
+  const edgeShare = edges / Math.max(1, (width - 1) * (height - 1))
+
+  // A plane also varies with angle, so sunburst only counts once linear and radial have failed
+  let style: GradientStyle = 'organic'
+  if (linear >= LINEAR_FIT) style = 'linear'
+  else if (radial >= RADIAL_FIT) style = 'radial'
+  else if (sunburst >= SUNBURST_FIT) style = 'sunburst'
+  else if (edgeShare >= MESH_EDGES) style = 'wave'
+  return { style, edgeShare }
+}
+
+const roundToTenth = (value: number, min: number, max: number) => Math.round(Math.max(min, Math.min(max, value)) * 10) / 10
+
+export const analyzeImage = ({ data, width, height }: ImagePixels): ImageAnalysis => {
+  const shortSide = Math.min(width, height)
+  const samples: Sample[] = []
+  const lightness = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      const lab = rgbToOklab([data[i], data[i + 1], data[i + 2]])
+      lightness[y * width + x] = lab[0]
+      // Transparent pixels are not part of the picture
+      if (data[i + 3] >= 128) samples.push({ lab, x: (x + 0.5) / shortSide, y: (y + 0.5) / shortSide })
+    }
+  }
+  if (samples.length === 0) throw new Error('The image has no opaque pixels')
+
+  const found = kMeans(samples, medianCut(samples, CLUSTER_COUNT))
+    .filter(({ members }) => members.length >= samples.length * MIN_CLUSTER_WEIGHT)
+    .sort((a, b) => b.members.length - a.members.length)
+
+  // Clusters that look alike fold into the larger one
+  const merged: { center: OKLab; members: Sample[] }[] = []
+  found.forEach(cluster => {
+    const twin = merged.find(other => distanceSquared(other.center, cluster.center) < MERGE_DISTANCE ** 2)
+    if (twin) {
+      twin.members = twin.members.concat(cluster.members)
+    } else {
+      merged.push({ ...cluster })
+    }
+  })
+
+  const clusters = merged.slice(0, MAX_RECIPE_COLORS).map(({ members }) => ({
+    rgb: oklabToRgb(meanLab(members)),
+    weight: members.length / samples.length,
+    blobs: findBlobs(members, samples.length, shortSide, width, height)
+  }))
+
+  const { style, edgeShare } = detectStyle(samples, lightness, width, height)
+
+  // Bold pictures (strong lightness contrast, saturated colors) get a bold gradient
+  const meanLightness = samples.reduce((sum, sample) => sum + sample.lab[0], 0) / samples.length
+  const contrast = Math.sqrt(samples.reduce((sum, sample) => sum + (sample.lab[0] - meanLightness) ** 2, 0) / samples.length)
+  const chroma = samples.reduce((sum, sample) => sum + Math.hypot(sample.lab[1], sample.lab[2]), 0) / samples.length
+  const intensity = roundToTenth(0.3 + contrast * 2 + chroma * 2, 0.1, 1)
+
+  // Enough density for the organic style to draw every blob (it draws 2 + density * 12),
+  // and more for busy pictures
+  const blobCount = clusters.reduce((sum, cluster) => sum + cluster.blobs.length, 0)
+  const density = roundToTenth(Math.max((blobCount - 2) / 12, edgeShare * 4), 0.2, 1)
+
+  return { clusters, style, intensity, density }
+}
+
+// The recipe the analysis describes: the colors largest first (the first one is every style's
+// base), the blobs, and the style on the bottom layer. With `snapToBrand` the colors are the
+// nearest palette colors, and clusters that snap to the same one are combined.
+export const applyImageAnalysis = (
+  recipe: BackgroundRecipe,
+  analysis: ImageAnalysis,
+  palette: Palette,
+  snapToBrand: boolean
+): BackgroundRecipe => {
+  const groups: { color: Color; blobs: ImageBlob[] }[] = []
+  analysis.clusters.forEach(cluster => {
+    const [r, g, b] = cluster.rgb.map(Math.round)
+    const color = snapToBrand ? nearestPaletteColor(palette, cluster.rgb) : colorFromHex(rgbToHex(r, g, b), undefined, palette)
+    const existing = groups.find(group => group.color.hex === color.hex)
+    if (existing) {
+      existing.blobs = [...existing.blobs, ...cluster.blobs].sort((a, b) => b.weight - a.weight)
+    } else {
+      groups.push({ color, blobs: cluster.blobs })
+    }
+  })
+  if (groups.length === 0) return recipe
+
+  // The organic style draws blob k in colors[k % colors.length], so blobs go in rounds of one
+  // per color, stopping at the first color that has no blob left
+  const colorBlobs: ColorBlob[] = []
+  const largest = Math.max(...groups.flatMap(group => group.blobs.map(blob => blob.weight)))
+  for (let round = 0; round < MAX_BLOBS_PER_COLOR && groups.every(group => round < group.blobs.length); round++) {
+    groups.forEach(({ color, blobs }) => {
+      const { x, y, radius, weight } = blobs[round]
+      colorBlobs.push({ color, x, y, radius, intensity: weight / largest })
+    })
+  }
+
+  return {
+    ...recipe,
+    colors: groups.map(group => group.color),
+    colorBlobs,
+    gradientIntensity: analysis.intensity,
+    gradientDensity: analysis.density,
+    layers: patchLayer(recipe.layers, recipe.layers[0].id, { style: analysis.style })
+  }
+}
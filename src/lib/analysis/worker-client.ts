@@ -0,0 +1,97 @@
+// Page side of the analysis worker. Pictures are decoded here and the bitmap is handed over to
+// the worker. Browsers without a usable OffscreenCanvas analyze on the page instead; at
+// ANALYSIS_SIZE that is a short stall, not a frozen tab.
+
+import { createBrowserCanvas, supportsOffscreenRendering } from '@/lib/render/context'
+import { ImageAnalysis, analyzeImage, readScaledPixels } from './analyze'
+
+export interface AnalysisWorkerRequest {
+  id: number
+  bitmap: ImageBitmap
+}
+
+export type AnalysisWorkerResponse =
+  | { type: 'analysis'; id: number; analysis: ImageAnalysis }
+  | { type: 'error'; id: number; message: string }
+
+interface PendingJob {
+  resolve: (analysis: ImageAnalysis) => void
+  reject: (error: Error) => void
+}
+
+const jobs = new Map<number, PendingJob>()
+let nextJobId = 1
+
+// Created on first use; null once we know analysis has to stay on the main thread
+let worker: Worker | null | undefined
+
+const getWorker = () => {
+  if (worker !== undefined) return worker
+  worker = supportsOffscreenRendering() ? new Worker(new URL('./analysis.worker.ts', import.meta.url)) : null
+
+  worker?.addEventListener('message', (event: MessageEvent<AnalysisWorkerResponse>) => {
+    const response = event.data
+    const job = jobs.get(response.id)
+    if (!job) return
+    jobs.delete(response.id)
+    if (response.type === 'analysis') job.resolve(response.analysis)
+    else job.reject(new Error(response.message))
+  })
+
+  // If the worker itself dies, fail what is in flight and fall back for everything after
+  worker?.addEventListener('error', event => {
+    console.error('Analysis worker failed:', event.message)
+    worker?.terminate()
+    worker = null
+    jobs.forEach(job => job.reject(new Error('Analysis worker failed')))
+    jobs.clear()
+  })
+  return worker
+}
+
+// createImageBitmap takes bitmaps but not SVG, which only an <img> can decode
+const decodeImage = async (file: Blob): Promise<ImageBitmap> => {
+  try {
+    return await createImageBitmap(file)
+  } catch {
+    const url = URL.createObjectURL(file)
+    try {
+      const image = new Image()
+      image.src = url
+      await image.decode()
+      return await createImageBitmap(image)
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+}
+
+// The colors, blobs and style a picture suggests; rejects when the file is not a readable image
+export const analyzeImageFile = async (file: Blob): Promise<ImageAnalysis> => {
+  if (!file.type.startsWith('image/')) {
+    throw new Error('Please choose an image file')
+  }
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await decodeImage(file)
+  } catch {
+    throw new Error('The image could not be decoded')
+  }
+
+  const target = getWorker()
+  if (!target) {
+    try {
+      return analyzeImage(readScaledPixels(bitmap, createBrowserCanvas))
+    } finally {
+      bitmap.close()
+    }
+  }
+
+  const id = nextJobId++
+  return new Promise<ImageAnalysis>((resolve, reject) => {
+    jobs.set(id, { resolve, reject })
+    const request: AnalysisWorkerRequest = { id, bitmap }
+    target.postMessage(request, [bitmap])
+  })
+}
@@ -0,0 +1,90 @@
+// Animated WebP container. Browsers can only encode still WebP images, but an animated WebP is
+// just those images' bitstreams wrapped in ANMF frame chunks behind a VP8X/ANIM header, so the
+// frames are encoded by the canvas and assembled here.
+
+const fourCC = (bytes: Uint8Array, offset: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)))
+
+interface RiffChunk {
+  id: string
+  data: Uint8Array
+}
+
+const readChunks = (file: Uint8Array): RiffChunk[] => {
+  if (fourCC(file, 0) !== 'RIFF' || fourCC(file, 8) !== 'WEBP') {
+    throw new Error('Frame is not a WebP image')
+  }
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  const chunks: RiffChunk[] = []
+  let offset = 12
+  while (offset + 8 <= file.length) {
+    const size = view.getUint32(offset + 4, true)
+    chunks.push({ id: fourCC(file, offset), data: file.subarray(offset + 8, offset + 8 + size) })
+    offset += 8 + size + (size & 1)
+  }
+  return chunks
+}
+
+const chunkBytes = (id: string, data: Uint8Array) => {
+  const padded = data.length + (data.length & 1)
+  const chunk = new Uint8Array(8 + padded)
+  for (let i = 0; i < 4; i++) chunk[i] = id.charCodeAt(i)
+  new DataView(chunk.buffer).setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+const uint24 = (target: Uint8Array, offset: number, value: number) => {
+  target[offset] = value & 0xff
+  target[offset + 1] = (value >> 8) & 0xff
+  target[offset + 2] = (value >> 16) & 0xff
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+export interface WebpFrame {
+  // A complete still WebP file as produced by canvas encoding
+  image: Uint8Array
+  // Display time in milliseconds
+  duration: number
+}
+
+export const createAnimatedWebp = (frames: WebpFrame[], width: number, height: number): Uint8Array => {
+  let hasAlpha = false
+
+  const frameChunks = frames.map(({ image, duration }) => {
+    // Keep the image data (ALPH + VP8, or VP8L); the still-image VP8X and metadata are per file
+    const parts = readChunks(image).filter(chunk => chunk.id === 'ALPH' || chunk.id === 'VP8 ' || chunk.id === 'VP8L')
+    if (parts.some(chunk => chunk.id === 'ALPH')) hasAlpha = true
+
+    const header = new Uint8Array(16)
+    uint24(header, 0, 0) // x offset / 2
+    uint24(header, 3, 0) // y offset / 2
+    uint24(header, 6, width - 1)
+    uint24(header, 9, height - 1)
+    uint24(header, 12, Math.max(1, Math.round(duration)))
+    header[15] = 0x02 // no blending: every frame covers the whole canvas
+    return chunkBytes('ANMF', concat([header, ...parts.map(chunk => chunkBytes(chunk.id, chunk.data))]))
+  })
+
+  const vp8x = new Uint8Array(10)
+  vp8x[0] = 0x02 | (hasAlpha ? 0x10 : 0) // animation (+ alpha) flags
+  uint24(vp8x, 4, width - 1)
+  uint24(vp8x, 7, height - 1)
+
+  const anim = new Uint8Array(6) // background color 0, loop count 0 = forever
+
+  const body = concat([chunkBytes('VP8X', vp8x), chunkBytes('ANIM', anim), ...frameChunks])
+  const header = new Uint8Array(12)
+  header.set([0x52, 0x49, 0x46, 0x46]) // RIFF
+  new DataView(header.buffer).setUint32(4, body.length + 4, true)
+  header.set([0x57, 0x45, 0x42, 0x50], 8) // WEBP
+  return concat([header, body])
+}
@@ -0,0 +1,173 @@
+// Animation export: renders an animated recipe frame by frame and encodes it as an animated
+// WebP, GIF or WebM file, or as a zipped PNG sequence for compositing tools. The loop itself is
+// made seamless by the pipeline (see loopTime there).
+
+import { BackgroundRecipe, serializeRecipe } from './recipe'
+import { fitLongestSide } from './dimensions'
+import { canvasToBlob, detectSupportedFormats } from './export'
+import { RenderContext, createBrowserCanvas } from './render/context'
+import { render } from './render/pipeline'
+import { ForegroundAssets } from './render/foreground'
+import { RenderCancelledError } from './render/tiled'
+import { createGifEncoder } from './gif'
+import { createAnimatedWebp, WebpFrame } from './animated-webp'
+import { createWebmEncoder, findWebmCodec } from './webm'
+import { createZip, ZipEntry } from './zip'
+
+export type AnimationFormat = 'webp' | 'gif' | 'webm' | 'png-sequence'
+
+export interface AnimationFormatInfo {
+  label: string
+  mimeType: string
+  extension: string
+}
+
+export const ANIMATION_FORMATS: Record<AnimationFormat, AnimationFormatInfo> = {
+  webp: { label: 'Animated WebP', mimeType: 'image/webp', extension: 'webp' },
+  gif: { label: 'GIF', mimeType: 'image/gif', extension: 'gif' },
+  webm: { label: 'WebM video', mimeType: 'video/webm', extension: 'webm' },
+  'png-sequence': { label: 'PNG sequence (ZIP)', mimeType: 'application/zip', extension: 'zip' }
+}
+
+export const ANIMATION_FRAME_RATES = [12, 15, 24, 30]
+
+// Longest side in pixels; GIF is best kept small
+export const ANIMATION_SIZES = [480, 720, 1080, 1920]
+
+// Video encoders want even dimensions
+export const animationDimensions = (aspectRatio: string, longestSide: number) => {
+  const { width, height } = fitLongestSide(aspectRatio, longestSide)
+  return { width: Math.max(2, width - (width % 2)), height: Math.max(2, height - (height % 2)) }
+}
+
+// Frame sequences can run several loops; every other format holds exactly one
+export const SEQUENCE_LOOP_COUNTS = [1, 2, 3, 4]
+
+export const frameCount = (duration: number, fps: number) => Math.max(1, Math.round(duration * fps))
+
+// Which formats this browser can produce: WebP needs a WebP canvas encoder, WebM needs WebCodecs
+export const detectAnimationFormats = async (): Promise<AnimationFormat[]> => {
+  const [stillFormats, webmCodec] = await Promise.all([detectSupportedFormats(), findWebmCodec()])
+  return (['webp', 'gif', 'webm', 'png-sequence'] as AnimationFormat[]).filter(format => {
+    if (format === 'webp') return stillFormats.includes('webp')
+    if (format === 'webm') return webmCodec !== null
+    return true
+  })
+}
+
+export interface AnimationRequest {
+  recipe: BackgroundRecipe
+  width: number
+  height: number
+  fps: number
+  format: AnimationFormat
+  // Seconds to render; defaults to one loop
+  duration?: number
+  assets?: ForegroundAssets
+}
+
+export interface AnimationOptions {
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}
+
+// Durations that add up to exactly the whole timeline, whatever the rounding of each frame
+const frameDurations = (count: number, totalMs: number, unit: number) => {
+  return Array.from({ length: count }, (_, index) => {
+    return Math.round((totalMs * (index + 1)) / count / unit) - Math.round((totalMs * index) / count / unit)
+  })
+}
+
+// Receives each rendered frame in order, then produces the file
+interface FrameSink {
+  addFrame: (canvas: HTMLCanvasElement | OffscreenCanvas, ctx: RenderContext, index: number) => Promise<void> | void
+  finish: () => Promise<Uint8Array> | Uint8Array
+}
+
+const createFrameSink = async ({ recipe, width, height, fps, format, duration = recipe.loopDuration }: AnimationRequest): Promise<FrameSink> => {
+  const count = frameCount(duration, fps)
+
+  if (format === 'png-sequence') {
+    // frame_0001.png onwards, padded so the files sort in order
+    const digits = Math.max(4, String(count).length)
+    const entries: ZipEntry[] = []
+    return {
+      addFrame: async (canvas, _ctx, index) => {
+        const blob = await canvasToBlob(canvas, 'image/png', 1)
+        if (!blob) throw new Error(`Could not encode frame ${index + 1}`)
+        entries.push({ name: `frame_${String(index + 1).padStart(digits, '0')}.png`, data: new Uint8Array(await blob.arrayBuffer()) })
+      },
+      finish: () => {
+        const manifest = {
+          generator: 'background-generator',
+          createdAt: new Date().toISOString(),
+          fps,
+          frames: count,
+          duration,
+          width,
+          height,
+          recipe: JSON.parse(serializeRecipe(recipe))
+        }
+        entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) })
+        return createZip(entries)
+      }
+    }
+  }
+
+  if (format === 'gif') {
+    // GIF delays are in hundredths of a second
+    const delays = frameDurations(count, duration * 1000, 10)
+    const gif = createGifEncoder(width, height)
+    return {
+      addFrame: (_canvas, ctx, index) => gif.addFrame(ctx.getImageData(0, 0, width, height).data, delays[index]),
+      finish: () => gif.finish()
+    }
+  }
+
+  if (format === 'webm') {
+    const codec = await findWebmCodec(width, height, fps)
+    if (!codec) throw new Error('This browser cannot encode WebM video')
+    const webm = createWebmEncoder(codec, width, height, fps)
+    return {
+      addFrame: canvas => webm.addFrame(canvas),
+      finish: () => webm.finish()
+    }
+  }
+
+  const durations = frameDurations(count, duration * 1000, 1)
+  const frames: WebpFrame[] = []
+  return {
+    addFrame: async (canvas, _ctx, index) => {
+      const blob = await canvasToBlob(canvas, 'image/webp', 0.9)
+      if (blob?.type !== 'image/webp') throw new Error('This browser cannot encode WebP frames')
+      frames.push({ image: new Uint8Array(await blob.arrayBuffer()), duration: durations[index] })
+    },
+    finish: () => createAnimatedWebp(frames, width, height)
+  }
+}
+
+// Let progress paint and cancel messages arrive between frames
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// Renders the timeline deterministically, frame by frame at `fps`, into a single file
+export const encodeAnimation = async (request: AnimationRequest, { onProgress, signal }: AnimationOptions = {}): Promise<Blob> => {
+  const { recipe, width, height, fps, format, duration = recipe.loopDuration, assets } = request
+  const surface = createBrowserCanvas(width, height)
+  if (!surface) throw new Error(`Could not allocate a ${width}x${height} canvas`)
+
+  const sink = await createFrameSink(request)
+  const count = frameCount(duration, fps)
+  const animated = { ...recipe, isAnimated: true }
+
+  for (let index = 0; index < count; index++) {
+    // Spread the frames evenly over the duration; over whole loops the last frame leads straight back into the first
+    render(surface.ctx, animated, { width, height, time: (index * duration * 1000) / count, assets })
+    await sink.addFrame(surface.canvas, surface.ctx, index)
+
+    onProgress?.(index + 1, count)
+    await nextTick()
+    if (signal?.aborted) throw new RenderCancelledError()
+  }
+
+  return new Blob([await sink.finish()], { type: ANIMATION_FORMATS[format].mimeType })
+}
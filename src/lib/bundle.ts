@@ -0,0 +1,98 @@
+// Bundle export: one design rendered at many sizes, zipped together with a manifest.json
+// that names every file and the exact recipe it was rendered from
+
+import { BackgroundRecipe, serializeRecipe } from './recipe'
+import { ExportSize, RESOLUTION_OPTIONS, ResolutionKey, SIZE_PRESETS, aspectRatioFromSize, findSizePreset, resolveExportSize } from './dimensions'
+import { ExportFormat, EXPORT_FORMATS } from './export'
+import { renderExport } from './render/worker-client'
+import { createZip } from './zip'
+
+// Quick selections offered by the bundle dialog
+export const BUNDLE_GROUPS: { label: string; presetIds: string[] }[] = [
+  { label: 'Social banners', presetIds: ['og-image', 'twitter-header', 'linkedin-banner', 'youtube-banner', 'instagram-post', 'instagram-story'] },
+  { label: 'Wallpapers', presetIds: SIZE_PRESETS.filter(preset => /^(desktop|phone|tablet)-/.test(preset.id)).map(preset => preset.id) },
+  { label: 'Meetings & slides', presetIds: ['zoom-background', 'slide-16-9', 'slide-4-3'] }
+]
+
+// All fit-to-ratio resolutions, in the order the dialog lists them
+export const FIT_SIZES: ExportSize[] = (Object.keys(RESOLUTION_OPTIONS) as ResolutionKey[])
+  .map(key => ({ kind: 'fit', key }))
+
+export interface BundleProgress {
+  done: number
+  total: number
+}
+
+export interface BundleOptions {
+  format: ExportFormat
+  quality: number
+  onProgress?: (progress: BundleProgress) => void
+  signal?: AbortSignal
+}
+
+export interface BundleManifestFile {
+  file: string
+  label: string
+  preset?: string
+  width: number
+  height: number
+  format: ExportFormat
+  recipe: unknown
+}
+
+// Exact sizes render with their own aspect ratio, fitted sizes with the design's
+const recipeForSize = (recipe: BackgroundRecipe, size: ExportSize): BackgroundRecipe => {
+  if (size.kind === 'fit') return recipe
+  return { ...recipe, aspectRatio: aspectRatioFromSize(size.width, size.height) }
+}
+
+const describeSize = (size: ExportSize) => {
+  if (size.kind === 'fit') return { name: size.key.toLowerCase(), label: `${size.key} (fit to aspect ratio)` }
+  const preset = size.presetId ? findSizePreset(size.presetId) : undefined
+  return preset ? { name: preset.id, label: preset.label } : { name: 'custom', label: 'Custom size' }
+}
+
+// Let the browser paint progress between the (blocking) renders
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+export const renderBundle = async (
+  recipe: BackgroundRecipe,
+  sizes: ExportSize[],
+  { format, quality, onProgress, signal }: BundleOptions
+): Promise<Blob> => {
+  const entries: { name: string; data: Uint8Array }[] = []
+  const manifestFiles: BundleManifestFile[] = []
+
+  for (const size of sizes) {
+    onProgress?.({ done: entries.length, total: sizes.length })
+    await nextTick()
+
+    const sizedRecipe = recipeForSize(recipe, size)
+    const { width, height } = resolveExportSize(size, sizedRecipe.aspectRatio)
+    const encoded = await renderExport({ recipe: sizedRecipe, width, height, format, quality }, { signal })
+    const { name, label } = describeSize(size)
+    // Fit keys and preset ids are unique, so every size the dialog offers gets its own file name
+    const file = `${name}-${width}x${height}.${EXPORT_FORMATS[encoded.format].extension}`
+
+    entries.push({ name: file, data: new Uint8Array(await encoded.blob.arrayBuffer()) })
+    manifestFiles.push({
+      file,
+      label,
+      preset: size.kind === 'exact' ? size.presetId : undefined,
+      width,
+      height,
+      format: encoded.format,
+      recipe: JSON.parse(serializeRecipe(sizedRecipe))
+    })
+  }
+  onProgress?.({ done: sizes.length, total: sizes.length })
+
+  const manifest = {
+    generator: 'background-generator',
+    createdAt: new Date().toISOString(),
+    files: manifestFiles
+  }
+  entries.push({ name: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) })
+
+  return new Blob([createZip(entries)], { type: 'application/zip' })
+}
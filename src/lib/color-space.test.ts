@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import {
+  COLOR_FORMATS,
+  Lab,
+  RGB,
+  contrastRatio,
+  deltaE2000,
+  formatColor,
+  oklabToRgb,
+  oklchToRgb,
+  rgbToLab,
+  rgbToOklab,
+  rgbToOklch
+} from './color-space'
+import { parseCssColor } from './palette-import'
+import { createRandom } from '@/utils/random'
+
+const randomColors = (count: number, seed: number): RGB[] => {
+  const random = createRandom(seed)
+  return Array.from({ length: count }, () => [0, 0, 0].map(() => Math.floor(random() * 256)) as RGB)
+}
+
+const hex = (rgb: RGB) => formatColor(rgb, 'hex')
+
+describe('deltaE2000', () => {
+  // Reference pairs from Sharma, Wu and Dalal, "The CIEDE2000 color-difference formula" (2005)
+  it.each([
+    [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+    [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+    [[50, 2.8361, -74.02], [50, 0, -82.7485], 3.4412],
+    [[50, -1.3802, -84.2814], [50, 0, -82.7485], 1],
+    [[50, 0, 0], [50, -1, 2], 2.3669],
+    [[50, -1, 2], [50, 0, 0], 2.3669],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+    [[50, 2.49, -0.001], [50, -2.49, 0.001], 7.1792],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0011], 7.2195],
+    [[50, 2.49, -0.001], [50, -2.49, 0.0012], 7.2195],
+    [[50, -0.001, 2.49], [50, 0.0009, -2.49], 4.8045],
+    [[50, -0.001, 2.49], [50, 0.0011, -2.49], 4.7461],
+    [[50, 2.5, 0], [50, 0, -2.5], 4.3065],
+    [[50, 2.5, 0], [73, 25, -18], 27.1492],
+    [[50, 2.5, 0], [61, -5, 29], 22.8977],
+    [[50, 2.5, 0], [56, -27, -3], 31.903],
+    [[50, 2.5, 0], [58, 24, 15], 19.4535],
+    [[50, 2.5, 0], [50, 3.1736, 0.5854], 1],
+    [[50, 2.5, 0], [50, 3.2972, 0], 1],
+    [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+    [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373]
+  ] as [Lab, Lab, number][])('%j to %j is %d', (lab1, lab2, expected) => {
+    expect(deltaE2000(lab1, lab2)).toBeCloseTo(expected, 4)
+  })
+
+  it('is zero for the same color', () => {
+    expect(deltaE2000([40, 20, -10], [40, 20, -10])).toBe(0)
+  })
+})
+
+describe('rgbToLab', () => {
+  it('puts white at L 100 and black at 0, both neutral', () => {
+    rgbToLab([255, 255, 255]).forEach((value, i) => expect(value).toBeCloseTo([100, 0, 0][i], 2))
+    expect(rgbToLab([0, 0, 0])).toEqual([0, 0, 0])
+  })
+})
+
+describe('OKLab', () => {
+  it('matches the published values for white and the sRGB primaries', () => {
+    const expected: [RGB, number[]][] = [
+      [[255, 255, 255], [1, 0, 0]],
+      [[255, 0, 0], [0.62796, 0.22486, 0.12585]],
+      [[0, 255, 0], [0.86644, -0.23389, 0.1795]],
+      [[0, 0, 255], [0.45201, -0.03246, -0.31153]]
+    ]
+    expected.forEach(([rgb, lab]) => rgbToOklab(rgb).forEach((value, i) => expect(value).toBeCloseTo(lab[i], 4)))
+  })
+
+  it('round-trips 8-bit colors through OKLab and OKLCH', () => {
+    randomColors(500, 5).forEach(rgb => {
+      expect(hex(oklabToRgb(rgbToOklab(rgb)))).toBe(hex(rgb))
+      expect(hex(oklchToRgb(...rgbToOklch(rgb)))).toBe(hex(rgb))
+    })
+  })
+
+  it('lowers chroma to reach sRGB instead of shifting the hue', () => {
+    const [l, c, h] = rgbToOklch(oklchToRgb(0.7, 0.4, 150))
+    expect(l).toBeCloseTo(0.7, 2)
+    expect(c).toBeLessThan(0.4)
+    expect(Math.abs(h - 150)).toBeLessThan(2)
+  })
+})
+
+describe('contrastRatio', () => {
+  it('runs from 1 to 21', () => {
+    expect(contrastRatio([0, 0, 0], [255, 255, 255])).toBeCloseTo(21, 6)
+    expect(contrastRatio([255, 255, 255], [0, 0, 0])).toBeCloseTo(21, 6)
+    expect(contrastRatio([119, 119, 119], [119, 119, 119])).toBe(1)
+  })
+})
+
+describe('formatColor', () => {
+  it.each(COLOR_FORMATS.map(({ format }) => format).filter(format => format !== 'hsl'))('writes %s strings that read back as the same color', format => {
+    // Bright colors with one channel near 0 sit on the gamut edge, where OKLCH rounding shows most
+    const edge: RGB[] = [[227, 255, 15], [248, 255, 27], [5, 239, 228], [2, 228, 252]]
+    ;[...edge, ...randomColors(500, 9)].forEach(rgb => expect(parseCssColor(formatColor(rgb, format))).toBe(hex(rgb)))
+  })
+
+  it('writes whole-number hsl strings that read back within a few levels', () => {
+    randomColors(500, 9).forEach(rgb => {
+      const parsed = parseCssColor(formatColor(rgb, 'hsl'))!
+      ;[1, 3, 5].forEach((at, i) => expect(Math.abs(parseInt(parsed.slice(at, at + 2), 16) - rgb[i])).toBeLessThanOrEqual(5))
+    })
+  })
+})
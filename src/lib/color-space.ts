@@ -0,0 +1,256 @@
+// Color science in one place: conversions between sRGB and linear light, HSL, OKLab/OKLCH and
+// CIE Lab; perceptual differences (ΔE76, ΔE2000); WCAG contrast; and gamut clipping. Palette
+// matching, harmonies and gradient blending measure and mix colors here rather than in raw RGB.
+// RGB channels are 0-255; HSL is degrees and 0-1; OKLab L is 0-1; Lab L is 0-100.
+
+export type RGB = [number, number, number]
+export type HSL = [number, number, number]
+export type Lab = [number, number, number]
+export type OKLab = [number, number, number]
+export type OKLCH = [number, number, number]
+
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch'
+
+export const COLOR_FORMATS: { format: ColorFormat; label: string }[] = [
+  { format: 'hex', label: 'Hex' },
+  { format: 'rgb', label: 'RGB' },
+  { format: 'hsl', label: 'HSL' },
+  { format: 'oklch', label: 'OKLCH' }
+]
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)))
+
+// sRGB channel (0-255) to linear light (0-1) and back
+export const toLinear = (channel: number) => {
+  const c = channel / 255
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+}
+
+export const fromLinear = (c: number) => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * Math.max(0, c) ** (1 / 2.4) - 0.055)
+
+const fromLinearRgb = ([r, g, b]: RGB): RGB => [clampByte(fromLinear(r)), clampByte(fromLinear(g)), clampByte(fromLinear(b))]
+
+const hueDegrees = (radians: number) => ((radians * 180) / Math.PI + 360) % 360
+
+export const rgbToHsl = ([r, g, b]: RGB): HSL => {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255]
+  const max = Math.max(rn, gn, bn)
+  const min = Math.min(rn, gn, bn)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d === 0) return [0, 0, l]
+  const s = d / (1 - Math.abs(2 * l - 1))
+  const h = max === rn ? ((gn - bn) / d) % 6 : max === gn ? (bn - rn) / d + 2 : (rn - gn) / d + 4
+  return [(h * 60 + 360) % 360, s, l]
+}
+
+export const hslToRgb = (h: number, s: number, l: number): RGB => {
+  const a = s * Math.min(l, 1 - l)
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12
+    return clampByte((l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255)
+  }
+  return [channel(0), channel(8), channel(4)]
+}
+
+export const rgbToOklab = ([r, g, b]: RGB): OKLab => {
+  const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)]
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb)
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb)
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb)
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s
+  ]
+}
+
+// Linear sRGB, unclamped: channels outside 0-1 mean the color is out of gamut
+const oklabToLinear = ([L, a, b]: OKLab): RGB => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ]
+}
+
+// Out-of-gamut values are clamped per channel; use oklchToRgb to keep the hue instead
+export const oklabToRgb = (lab: OKLab): RGB => fromLinearRgb(oklabToLinear(lab))
+
+export const rgbToOklch = (rgb: RGB): OKLCH => {
+  const [L, a, b] = rgbToOklab(rgb)
+  const c = Math.hypot(a, b)
+  return [L, c, c < 1e-4 ? 0 : hueDegrees(Math.atan2(b, a))]
+}
+
+const oklchToOklab = (l: number, c: number, h: number): OKLab => {
+  const radians = (h * Math.PI) / 180
+  return [l, c * Math.cos(radians), c * Math.sin(radians)]
+}
+
+const GAMUT_EPSILON = 1e-4
+
+export const isInGamut = (linear: RGB) => linear.every(channel => channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON)
+
+// Bring an OKLCH color into sRGB by lowering chroma at fixed lightness and hue, so bright picks
+// keep their hue instead of skewing the way per-channel clamping does
+export const clipToGamut = ([l, c, h]: OKLCH): OKLCH => {
+  const lightness = Math.max(0, Math.min(1, l))
+  if (isInGamut(oklabToLinear(oklchToOklab(lightness, c, h)))) return [lightness, c, h]
+  let low = 0
+  let high = c
+  for (let i = 0; i < 20; i++) {
+    const mid = (low + high) / 2
+    if (isInGamut(oklabToLinear(oklchToOklab(lightness, mid, h)))) low = mid
+    else high = mid
+  }
+  return [lightness, low, h]
+}
+
+export const oklchToRgb = (l: number, c: number, h: number): RGB => {
+  const [cl, cc, ch] = clipToGamut([l, c, h])
+  return fromLinearRgb(oklabToLinear(oklchToOklab(cl, cc, ch)))
+}
+
+// Interpolate in OKLab, which keeps blends between saturated colors from going grey or muddy
+export const mixOklab = (from: RGB, to: RGB, t: number): RGB => {
+  const a = rgbToOklab(from)
+  const b = rgbToOklab(to)
+  return oklabToRgb([a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t])
+}
+
+// Smallest angle between two hues, 0-180
+export const hueDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % 360
+  return d > 180 ? 360 - d : d
+}
+
+// Linear sRGB to XYZ (D65) and back
+const linearToXyz = ([r, g, b]: RGB): [number, number, number] => [
+  0.4124564 * r + 0.3575761 * g + 0.1804375 * b,
+  0.2126729 * r + 0.7151522 * g + 0.072175 * b,
+  0.0193339 * r + 0.119192 * g + 0.9503041 * b
+]
+
+const xyzToLinear = ([x, y, z]: [number, number, number]): RGB => [
+  3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+  -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+  0.0556434 * x - 0.2040259 * y + 1.0572252 * z
+]
+
+const D65_WHITE: [number, number, number] = [0.95047, 1, 1.08883]
+const D50_WHITE: [number, number, number] = [0.96422, 1, 0.82521]
+
+const LAB_EPSILON = 216 / 24389
+const LAB_KAPPA = 24389 / 27
+
+// CIE Lab with a D65 white, as sRGB colors are defined
+export const rgbToLab = ([r, g, b]: RGB): Lab => {
+  const xyz = linearToXyz([toLinear(r), toLinear(g), toLinear(b)])
+  const f = (t: number) => (t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116)
+  const [fx, fy, fz] = xyz.map((value, i) => f(value / D65_WHITE[i]))
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+const labToXyz = ([l, a, b]: Lab, white: [number, number, number]): [number, number, number] => {
+  const fy = (l + 16) / 116
+  const fx = fy + a / 500
+  const fz = fy - b / 200
+  const inverse = (t: number) => (t ** 3 > LAB_EPSILON ? t ** 3 : (116 * t - 16) / LAB_KAPPA)
+  return [white[0] * inverse(fx), white[1] * inverse(fy), white[2] * inverse(fz)]
+}
+
+export const labToRgb = (lab: Lab): RGB => fromLinearRgb(xyzToLinear(labToXyz(lab, D65_WHITE)))
+
+// Lab relative to a D50 white, as print tools and swatch files (.ase) store it; Bradford-adapted
+export const labD50ToRgb = (lab: Lab): RGB => {
+  const [x, y, z] = labToXyz(lab, D50_WHITE)
+  return fromLinearRgb([
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.033454 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z
+  ])
+}
+
+// CIE76: plain Euclidean distance in Lab. Cheap, but overstates differences between saturated colors
+export const deltaE76 = (lab1: Lab, lab2: Lab): number => Math.hypot(lab1[0] - lab2[0], lab1[1] - lab2[1], lab1[2] - lab2[2])
+
+// CIEDE2000: about 1 is a just-noticeable difference, under 3 reads as "the same color" at a glance
+export const deltaE2000 = (lab1: Lab, lab2: Lab): number => {
+  const [L1, a1, b1] = lab1
+  const [L2, a2, b2] = lab2
+  const rad = Math.PI / 180
+
+  const cBar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2
+  const g = 0.5 * (1 - Math.sqrt(cBar ** 7 / (cBar ** 7 + 25 ** 7)))
+  const a1p = a1 * (1 + g)
+  const a2p = a2 * (1 + g)
+  const c1p = Math.hypot(a1p, b1)
+  const c2p = Math.hypot(a2p, b2)
+  const h1p = c1p === 0 ? 0 : hueDegrees(Math.atan2(b1, a1p))
+  const h2p = c2p === 0 ? 0 : hueDegrees(Math.atan2(b2, a2p))
+
+  const dLp = L2 - L1
+  const dCp = c2p - c1p
+  let dhp = 0
+  if (c1p * c2p !== 0) {
+    dhp = h2p - h1p
+    if (dhp > 180) dhp -= 360
+    else if (dhp < -180) dhp += 360
+  }
+  const dHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((dhp / 2) * rad)
+
+  const lBarP = (L1 + L2) / 2
+  const cBarP = (c1p + c2p) / 2
+  let hBarP = h1p + h2p
+  if (c1p * c2p !== 0) {
+    hBarP = Math.abs(h1p - h2p) <= 180 ? hBarP / 2 : hBarP < 360 ? (hBarP + 360) / 2 : (hBarP - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((hBarP - 30) * rad) +
+    0.24 * Math.cos(2 * hBarP * rad) +
+    0.32 * Math.cos((3 * hBarP + 6) * rad) -
+    0.2 * Math.cos((4 * hBarP - 63) * rad)
+  const sl = 1 + (0.015 * (lBarP - 50) ** 2) / Math.sqrt(20 + (lBarP - 50) ** 2)
+  const sc = 1 + 0.045 * cBarP
+  const sh = 1 + 0.015 * cBarP * t
+  const rt = -2 * Math.sqrt(cBarP ** 7 / (cBarP ** 7 + 25 ** 7)) * Math.sin(60 * Math.exp(-(((hBarP - 275) / 25) ** 2)) * rad)
+
+  return Math.sqrt((dLp / sl) ** 2 + (dCp / sc) ** 2 + (dHp / sh) ** 2 + rt * (dCp / sc) * (dHp / sh))
+}
+
+export const colorDifference = (a: RGB, b: RGB) => deltaE2000(rgbToLab(a), rgbToLab(b))
+
+// WCAG 2 relative luminance and contrast ratio (1 to 21; body text wants 4.5, large text 3)
+export const relativeLuminance = ([r, g, b]: RGB) => 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b)
+
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const [lighter, darker] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x)
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits))
+
+// CSS Color 4 strings, which parseCssColor reads back: hex, rgb() and oklch() to the same color (OKLCH
+// needs the extra digits near the gamut edge), whole-number hsl() to within a few levels
+export const formatColor = (rgb: RGB, format: ColorFormat): string => {
+  switch (format) {
+    case 'rgb':
+      return `rgb(${rgb.join(' ')})`
+    case 'hsl': {
+      const [h, s, l] = rgbToHsl(rgb)
+      return `hsl(${Math.round(h)} ${Math.round(s * 100)}% ${Math.round(l * 100)}%)`
+    }
+    case 'oklch': {
+      const [l, c, h] = rgbToOklch(rgb)
+      return `oklch(${round(l * 100, 3)}% ${round(c, 5)} ${round(h, 2)})`
+    }
+    default:
+      return `#${rgb.map(channel => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`
+  }
+}
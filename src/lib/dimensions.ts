@@ -0,0 +1,121 @@
+// Aspect ratio and output size helpers shared by the editor, export and headless renderers
+
+// Export presets; the output keeps the recipe's aspect ratio and fits inside the preset box
+export const RESOLUTION_OPTIONS = {
+  'S': { width: 1920, height: 1080, label: 'S' },
+  'M': { width: 2880, height: 1800, label: 'M' },
+  'L': { width: 3840, height: 2160, label: 'L' },
+  'XL': { width: 5120, height: 2880, label: 'XL' }
+}
+
+export type ResolutionKey = keyof typeof RESOLUTION_OPTIONS
+
+// Fixed output sizes for common destinations; choosing one also sets the aspect ratio
+export interface SizePreset {
+  id: string
+  label: string
+  category: string
+  width: number
+  height: number
+}
+
+export const SIZE_PRESETS: SizePreset[] = [
+  { id: 'desktop-fhd', label: 'Full HD', category: 'Desktop', width: 1920, height: 1080 },
+  { id: 'desktop-qhd', label: 'QHD', category: 'Desktop', width: 2560, height: 1440 },
+  { id: 'desktop-4k', label: '4K UHD', category: 'Desktop', width: 3840, height: 2160 },
+  { id: 'desktop-5k', label: '5K (iMac)', category: 'Desktop', width: 5120, height: 2880 },
+  { id: 'desktop-macbook', label: 'MacBook Pro 16"', category: 'Desktop', width: 3456, height: 2234 },
+  { id: 'desktop-ultrawide', label: 'Ultrawide', category: 'Desktop', width: 3440, height: 1440 },
+  { id: 'phone-iphone', label: 'iPhone 15 Pro', category: 'Phone & Tablet', width: 1179, height: 2556 },
+  { id: 'phone-iphone-max', label: 'iPhone 15 Pro Max', category: 'Phone & Tablet', width: 1290, height: 2796 },
+  { id: 'phone-android', label: 'Android (FHD+)', category: 'Phone & Tablet', width: 1080, height: 2400 },
+  { id: 'tablet-ipad', label: 'iPad Pro 12.9"', category: 'Phone & Tablet', width: 2048, height: 2732 },
+  { id: 'og-image', label: 'Open Graph image', category: 'Social', width: 1200, height: 630 },
+  { id: 'twitter-header', label: 'X / Twitter header', category: 'Social', width: 1500, height: 500 },
+  { id: 'linkedin-banner', label: 'LinkedIn banner', category: 'Social', width: 1584, height: 396 },
+  { id: 'youtube-banner', label: 'YouTube banner', category: 'Social', width: 2560, height: 1440 },
+  { id: 'instagram-post', label: 'Instagram post', category: 'Social', width: 1080, height: 1080 },
+  { id: 'instagram-story', label: 'Instagram story', category: 'Social', width: 1080, height: 1920 },
+  { id: 'zoom-background', label: 'Zoom / Teams background', category: 'Meetings & Slides', width: 1920, height: 1080 },
+  { id: 'slide-16-9', label: 'Slide 16:9', category: 'Meetings & Slides', width: 1920, height: 1080 },
+  { id: 'slide-4-3', label: 'Slide 4:3', category: 'Meetings & Slides', width: 1600, height: 1200 }
+]
+
+export const findSizePreset = (id: string): SizePreset | undefined => {
+  return SIZE_PRESETS.find(preset => preset.id === id)
+}
+
+// Browsers refuse to allocate canvases much larger than this
+export const MAX_EXPORT_DIMENSION = 16384
+
+export const parseAspectRatio = (aspectRatio: string): number => {
+  const [widthRatio, heightRatio] = aspectRatio.split(':').map(Number)
+  return widthRatio > 0 && heightRatio > 0 ? widthRatio / heightRatio : 1
+}
+
+// Largest size with the recipe's aspect ratio that fits inside maxWidth x maxHeight
+export const fitToAspectRatio = (aspectRatio: string, maxWidth: number, maxHeight: number) => {
+  const targetAspectRatio = parseAspectRatio(aspectRatio)
+
+  let width = maxWidth
+  let height = maxWidth / targetAspectRatio
+
+  // If height exceeds the bound, scale to fit height
+  if (height > maxHeight) {
+    height = maxHeight
+    width = maxHeight * targetAspectRatio
+  }
+
+  return { width: Math.round(width), height: Math.round(height) }
+}
+
+// Fill in a missing side from the aspect ratio; with neither side given, default to 1920 wide
+export const resolveDimensions = (aspectRatio: string, width?: number, height?: number) => {
+  const targetAspectRatio = parseAspectRatio(aspectRatio)
+
+  if (width && height) return { width: Math.round(width), height: Math.round(height) }
+  if (width) return { width: Math.round(width), height: Math.round(width / targetAspectRatio) }
+  if (height) return { width: Math.round(height * targetAspectRatio), height: Math.round(height) }
+  return { width: 1920, height: Math.round(1920 / targetAspectRatio) }
+}
+
+// Size whose longer side is `longestSide`, e.g. the fixed-size editor preview
+export const fitLongestSide = (aspectRatio: string, longestSide: number) => {
+  const targetAspectRatio = parseAspectRatio(aspectRatio)
+
+  if (targetAspectRatio >= 1) {
+    // Landscape/square: fix width, calculate height
+    return { width: longestSide, height: Math.round(longestSide / targetAspectRatio) }
+  }
+  // Portrait: fix height, calculate width
+  return { width: Math.round(longestSide * targetAspectRatio), height: longestSide }
+}
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b))
+
+// 1200x630 -> '40:21', so exact sizes can be stored as a recipe aspect ratio
+export const aspectRatioFromSize = (width: number, height: number): string => {
+  const divisor = gcd(Math.round(width), Math.round(height)) || 1
+  return `${Math.round(width) / divisor}:${Math.round(height) / divisor}`
+}
+
+export const isSameAspectRatio = (a: string, b: string): boolean => {
+  return Math.abs(parseAspectRatio(a) - parseAspectRatio(b)) < 0.001
+}
+
+// What the export button produces: a resolution box the recipe is fitted into, or an exact size
+export type ExportSize =
+  | { kind: 'fit'; key: ResolutionKey }
+  | { kind: 'exact'; width: number; height: number; presetId?: string }
+
+export const resolveExportSize = (size: ExportSize, aspectRatio: string) => {
+  if (size.kind === 'fit') {
+    const box = RESOLUTION_OPTIONS[size.key]
+    return fitToAspectRatio(aspectRatio, box.width, box.height)
+  }
+  // The aspect ratio was changed since the size was picked: fit instead of stretching
+  if (!isSameAspectRatio(aspectRatioFromSize(size.width, size.height), aspectRatio)) {
+    return fitToAspectRatio(aspectRatio, size.width, size.height)
+  }
+  return { width: size.width, height: size.height }
+}
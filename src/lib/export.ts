@@ -0,0 +1,107 @@
+// Browser image encoding for exports. Canvas encoders vary by browser: an unsupported
+// type silently comes back as PNG, so the actual blob type decides the file extension.
+
+import { BackgroundRecipe } from './recipe'
+import { createBrowserCanvas } from './render/context'
+import { TiledRenderOptions, renderForExport } from './render/tiled'
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'avif'
+
+export interface ExportFormatInfo {
+  label: string
+  mimeType: string
+  extension: string
+  // Lossy formats take the quality setting; the others always encode losslessly
+  lossy: boolean
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatInfo> = {
+  png: { label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+  jpeg: { label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  // Chromium switches its WebP encoder to lossless at quality 1
+  webp: { label: 'WebP (lossless)', mimeType: 'image/webp', extension: 'webp', lossy: false },
+  avif: { label: 'AVIF', mimeType: 'image/avif', extension: 'avif', lossy: true }
+}
+
+export const EXPORT_QUALITIES = [1, 0.95, 0.9, 0.8, 0.7, 0.6]
+
+// Order to try when the chosen format cannot be encoded; PNG works everywhere
+const FALLBACKS: Record<ExportFormat, ExportFormat[]> = {
+  png: [],
+  jpeg: ['png'],
+  webp: ['png'],
+  avif: ['webp', 'png']
+}
+
+export const formatFromMimeType = (mimeType: string): ExportFormat | null => {
+  const entry = Object.entries(EXPORT_FORMATS).find(([, info]) => info.mimeType === mimeType)
+  return entry ? (entry[0] as ExportFormat) : null
+}
+
+export const canvasToBlob = (canvas: HTMLCanvasElement | OffscreenCanvas, mimeType: string, quality: number): Promise<Blob | null> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: mimeType, quality }).catch(() => null)
+  }
+  return new Promise(resolve => canvas.toBlob(resolve, mimeType, quality))
+}
+
+export interface EncodedImage {
+  blob: Blob
+  format: ExportFormat
+  // True when the browser could not encode the requested format
+  fellBack: boolean
+}
+
+export const encodeCanvas = async (
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  format: ExportFormat,
+  quality: number = 0.95
+): Promise<EncodedImage> => {
+  for (const candidate of [format, ...FALLBACKS[format]]) {
+    const info = EXPORT_FORMATS[candidate]
+    const blob = await canvasToBlob(canvas, info.mimeType, info.lossy ? quality : 1)
+    if (!blob) continue
+
+    // The encoder may have substituted a type it does support
+    const actual = formatFromMimeType(blob.type) ?? candidate
+    if (actual === candidate) {
+      return { blob, format: actual, fellBack: actual !== format }
+    }
+  }
+  throw new Error(`Could not encode the image as ${EXPORT_FORMATS[format].label}`)
+}
+
+// Probe each encoder with a 1x1 canvas; cached because the answer never changes
+let supportedFormats: Promise<ExportFormat[]> | null = null
+
+export const detectSupportedFormats = (): Promise<ExportFormat[]> => {
+  if (!supportedFormats) {
+    const canvas = document.createElement('canvas')
+    canvas.width = 1
+    canvas.height = 1
+    supportedFormats = Promise.all(
+      (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(async format => {
+        const blob = await canvasToBlob(canvas, EXPORT_FORMATS[format].mimeType, 0.9)
+        return blob?.type === EXPORT_FORMATS[format].mimeType ? format : null
+      })
+    ).then(formats => formats.filter((format): format is ExportFormat => format !== null))
+  }
+  return supportedFormats
+}
+
+export const exportFilename = (width: number, height: number, format: ExportFormat) => {
+  return `background-${width}x${height}-${Date.now()}.${EXPORT_FORMATS[format].extension}`
+}
+
+// Full-resolution render on a fresh canvas; large sizes are rendered in strips
+export const renderExportCanvas = async (
+  recipe: BackgroundRecipe,
+  width: number,
+  height: number,
+  { onProgress, signal, assets }: Pick<TiledRenderOptions, 'onProgress' | 'signal' | 'assets'> = {}
+) => {
+  const surface = createBrowserCanvas(width, height)
+  if (!surface) throw new Error(`Could not allocate a ${width}x${height} canvas`)
+  await renderForExport(surface.ctx, recipe, { width, height, onProgress, signal, assets })
+  return surface.canvas
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import { buildPalette, createGifEncoder } from './gif'
+import { createRandom } from '@/utils/random'
+
+type Rgb = [number, number, number]
+
+const frameOf = (width: number, height: number, colorAt: (x: number, y: number) => Rgb) => {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...colorAt(x, y), 255], (y * width + x) * 4)
+    }
+  }
+  return data
+}
+
+// Standard GIF LZW decoder, independent of the encoder's table layout
+const decodeLzw = (minCodeSize: number, bytes: number[], pixelCount: number) => {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  const reset = () => Array.from({ length: endCode + 1 }, (_, i) => (i < clearCode ? [i] : []))
+  let table = reset()
+  let codeSize = minCodeSize + 1
+  let previous: number[] | null = null
+  let bitPosition = 0
+  const output: number[] = []
+
+  while (bitPosition + codeSize <= bytes.length * 8) {
+    let code = 0
+    for (let bit = 0; bit < codeSize; bit++, bitPosition++) {
+      code |= ((bytes[bitPosition >> 3] >> (bitPosition & 7)) & 1) << bit
+    }
+    if (code === clearCode) {
+      table = reset()
+      codeSize = minCodeSize + 1
+      previous = null
+      continue
+    }
+    if (code === endCode) break
+
+    let entry: number[]
+    if (!previous) {
+      entry = table[code]
+    } else {
+      entry = code < table.length ? table[code] : [...previous, previous[0]]
+      if (table.length < 4096) table.push([...previous, entry[0]])
+    }
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++
+    output.push(...entry)
+    previous = entry
+  }
+  expect(output).toHaveLength(pixelCount)
+  return output
+}
+
+// Reads the frames of a file with a global palette and no local ones, as the encoder writes
+const decodeGif = (gif: Uint8Array) => {
+  expect(new TextDecoder().decode(gif.subarray(0, 6))).toBe('GIF89a')
+  const width = gif[6] | (gif[7] << 8)
+  const height = gif[8] | (gif[9] << 8)
+  const palette = gif.subarray(13, 13 + 256 * 3)
+  const frames: { delay: number; pixels: Rgb[] }[] = []
+  let delay = 0
+  let offset = 13 + 256 * 3
+
+  const readSubBlocks = () => {
+    const bytes: number[] = []
+    while (gif[offset] !== 0) {
+      bytes.push(...gif.subarray(offset + 1, offset + 1 + gif[offset]))
+      offset += gif[offset] + 1
+    }
+    offset++
+    return bytes
+  }
+
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21) {
+      if (gif[offset + 1] === 0xf9) delay = gif[offset + 4] | (gif[offset + 5] << 8)
+      offset += 2
+      readSubBlocks()
+    } else {
+      expect(gif[offset]).toBe(0x2c)
+      expect(gif[offset + 9]).toBe(0)
+      const minCodeSize = gif[offset + 10]
+      offset += 11
+      const indices = decodeLzw(minCodeSize, readSubBlocks(), width * height)
+      frames.push({ delay, pixels: indices.map(index => Array.from(palette.subarray(index * 3, index * 3 + 3)) as Rgb) })
+    }
+  }
+  expect(offset).toBe(gif.length - 1)
+  return { width, height, frames }
+}
+
+describe('buildPalette', () => {
+  it('keeps every color exactly when there are few of them', () => {
+    const colors: Rgb[] = [[241, 61, 81], [22, 142, 255], [255, 255, 255], [10, 20, 30]]
+    const palette = buildPalette(frameOf(16, 16, x => colors[x % 4]))
+    const entries = Array.from({ length: 4 }, (_, i) => Array.from(palette.subarray(i * 3, i * 3 + 3)))
+    expect(entries).toEqual(expect.arrayContaining(colors))
+  })
+
+  it('spreads a gradient over the whole table', () => {
+    const palette = buildPalette(frameOf(1024, 4, x => [x >> 2, 255 - (x >> 2), 128]))
+    const reds = new Set(Array.from({ length: 256 }, (_, i) => palette[i * 3]))
+    expect(reds.size).toBeGreaterThan(200)
+  })
+})
+
+describe('createGifEncoder', () => {
+  it('writes frames that decode back to their colors, with their delays', () => {
+    const colors: Rgb[] = [[241, 61, 81], [22, 142, 255], [250, 250, 250], [20, 20, 20]]
+    const first = (x: number, y: number) => colors[(x >> 3) % 2 + 2 * ((y >> 3) % 2)]
+    const second = (x: number, y: number) => colors[3 - ((x >> 3) % 2 + 2 * ((y >> 3) % 2))]
+
+    const encoder = createGifEncoder(40, 24)
+    encoder.addFrame(frameOf(40, 24, first), 4)
+    encoder.addFrame(frameOf(40, 24, second), 7)
+    const { width, height, frames } = decodeGif(encoder.finish())
+
+    expect([width, height]).toEqual([40, 24])
+    expect(frames.map(frame => frame.delay)).toEqual([4, 7])
+    frames.forEach((frame, index) => {
+      const expected = Array.from({ length: 40 * 24 }, (_, pixel) => (index === 0 ? first : second)(pixel % 40, Math.floor(pixel / 40)))
+      expect(frame.pixels).toEqual(expected)
+    })
+  })
+
+  it('restarts the code table on frames with more codes than it holds', () => {
+    const random = createRandom(11)
+    const colors: Rgb[] = [[255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 255, 0], [0, 255, 255], [255, 0, 255]]
+    const noise = Array.from({ length: 160 * 120 }, () => colors[Math.floor(random() * colors.length)])
+
+    const encoder = createGifEncoder(160, 120)
+    encoder.addFrame(frameOf(160, 120, (x, y) => noise[y * 160 + x]), 10)
+    const { frames } = decodeGif(encoder.finish())
+    expect(frames[0].pixels).toEqual(noise)
+  })
+})
@@ -0,0 +1,269 @@
+// Minimal GIF89a encoder for looping animations. Every frame shares one 256-color palette built
+// from the first frame (the colors barely change over a loop) and is mapped with ordered
+// dithering, which stays put from frame to frame where error diffusion would shimmer.
+
+// Growable byte buffer; frames are written incrementally and concatenated once at the end
+const createByteWriter = (initialSize = 1 << 16) => {
+  let bytes = new Uint8Array(initialSize)
+  let length = 0
+
+  const reserve = (extra: number) => {
+    if (length + extra <= bytes.length) return
+    let size = bytes.length * 2
+    while (size < length + extra) size *= 2
+    const grown = new Uint8Array(size)
+    grown.set(bytes.subarray(0, length))
+    bytes = grown
+  }
+
+  return {
+    byte: (value: number) => {
+      reserve(1)
+      bytes[length++] = value
+    },
+    uint16: (value: number) => {
+      reserve(2)
+      bytes[length++] = value & 0xff
+      bytes[length++] = (value >> 8) & 0xff
+    },
+    bytes: (data: Uint8Array | number[]) => {
+      reserve(data.length)
+      bytes.set(data, length)
+      length += data.length
+    },
+    text: (value: string) => {
+      reserve(value.length)
+      for (let i = 0; i < value.length; i++) bytes[length++] = value.charCodeAt(i)
+    },
+    result: () => bytes.slice(0, length)
+  }
+}
+
+// Median cut over a sample of the pixels: split the box with the widest channel at its median
+// until there are enough boxes, then use each box's average color
+export const buildPalette = (data: Uint8ClampedArray, maxColors = 256): Uint8Array => {
+  const pixelCount = data.length / 4
+  const step = Math.max(1, Math.floor(pixelCount / 65536))
+  const samples: number[] = []
+  for (let i = 0; i < pixelCount; i += step) {
+    samples.push((data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2])
+  }
+
+  const channel = (color: number, shift: number) => (color >> shift) & 0xff
+  const widest = (box: number[]) => {
+    let best = { shift: 16, range: -1 }
+    for (const shift of [16, 8, 0]) {
+      let min = 255
+      let max = 0
+      for (const color of box) {
+        const value = channel(color, shift)
+        if (value < min) min = value
+        if (value > max) max = value
+      }
+      if (max - min > best.range) best = { shift, range: max - min }
+    }
+    return best
+  }
+
+  const boxes: number[][] = [samples]
+  while (boxes.length < maxColors) {
+    let target = -1
+    let targetScore = 0
+    let targetShift = 16
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return
+      const { shift, range } = widest(box)
+      const score = range * Math.sqrt(box.length)
+      if (range > 0 && score > targetScore) {
+        target = index
+        targetScore = score
+        targetShift = shift
+      }
+    })
+    if (target < 0) break
+
+    const box = boxes[target].sort((a, b) => channel(a, targetShift) - channel(b, targetShift))
+    const middle = box.length >> 1
+    boxes.splice(target, 1, box.slice(0, middle), box.slice(middle))
+  }
+
+  const palette = new Uint8Array(256 * 3)
+  boxes.forEach((box, index) => {
+    let r = 0
+    let g = 0
+    let b = 0
+    for (const color of box) {
+      r += channel(color, 16)
+      g += channel(color, 8)
+      b += channel(color, 0)
+    }
+    palette[index * 3] = Math.round(r / box.length)
+    palette[index * 3 + 1] = Math.round(g / box.length)
+    palette[index * 3 + 2] = Math.round(b / box.length)
+  })
+  return palette
+}
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5]
+
+// Dither spread in 8-bit levels; about one palette step for soft gradients
+const DITHER_SPREAD = 12
+
+// Nearest palette entry for every pixel, with lookups cached on 5 bits per channel
+const indexPixels = (data: Uint8ClampedArray, width: number, height: number, palette: Uint8Array, cache: Int16Array) => {
+  const indices = new Uint8Array(width * height)
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x
+      const offset = (BAYER_4X4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * DITHER_SPREAD
+      const r = Math.max(0, Math.min(255, data[pixel * 4] + offset))
+      const g = Math.max(0, Math.min(255, data[pixel * 4 + 1] + offset))
+      const b = Math.max(0, Math.min(255, data[pixel * 4 + 2] + offset))
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+
+      let index = cache[key]
+      if (index < 0) {
+        // Match against the center of the 5-bit cell
+        const cr = ((r >> 3) << 3) + 4
+        const cg = ((g >> 3) << 3) + 4
+        const cb = ((b >> 3) << 3) + 4
+        let bestDistance = Infinity
+        for (let i = 0; i < 256; i++) {
+          const dr = palette[i * 3] - cr
+          const dg = palette[i * 3 + 1] - cg
+          const db = palette[i * 3 + 2] - cb
+          const distance = dr * dr * 2 + dg * dg * 4 + db * db * 3
+          if (distance < bestDistance) {
+            bestDistance = distance
+            index = i
+          }
+        }
+        cache[key] = index
+      }
+      indices[pixel] = index
+    }
+  }
+  return indices
+}
+
+// GIF-flavored LZW: variable code width from minCodeSize + 1 up to 12 bits, a clear code
+// whenever the table fills, packed into sub-blocks of at most 255 bytes
+const writeLzw = (writer: ReturnType<typeof createByteWriter>, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize
+  const endCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let nextCode = endCode + 1
+  let table = new Map<number, number>()
+
+  const block = new Uint8Array(255)
+  let blockLength = 0
+  let bitBuffer = 0
+  let bitCount = 0
+
+  const flushBlock = () => {
+    writer.byte(blockLength)
+    writer.bytes(block.subarray(0, blockLength))
+    blockLength = 0
+  }
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff
+      if (blockLength === 255) flushBlock()
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  writer.byte(minCodeSize)
+  emit(clearCode)
+
+  let prefix = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i]
+    const key = (prefix << 8) | value
+    const existing = table.get(key)
+    if (existing !== undefined) {
+      prefix = existing
+      continue
+    }
+
+    emit(prefix)
+    if (nextCode === 4096) {
+      emit(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = endCode + 1
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    prefix = value
+  }
+
+  emit(prefix)
+  emit(endCode)
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff
+    if (blockLength === 255) flushBlock()
+  }
+  if (blockLength > 0) flushBlock()
+  writer.byte(0) // block terminator
+}
+
+export interface GifEncoder {
+  // `delay` is in hundredths of a second, the unit GIF uses
+  addFrame: (data: Uint8ClampedArray, delay: number) => void
+  finish: () => Uint8Array
+}
+
+export const createGifEncoder = (width: number, height: number): GifEncoder => {
+  const writer = createByteWriter()
+  const cache = new Int16Array(1 << 15).fill(-1)
+  let palette: Uint8Array | null = null
+
+  const writeHeader = (colors: Uint8Array) => {
+    writer.text('GIF89a')
+    writer.uint16(width)
+    writer.uint16(height)
+    writer.byte(0xf7) // global color table of 256 entries, 8-bit color resolution
+    writer.byte(0) // background color index
+    writer.byte(0) // pixel aspect ratio
+    writer.bytes(colors)
+
+    // NETSCAPE2.0 extension: loop forever
+    writer.bytes([0x21, 0xff, 0x0b])
+    writer.text('NETSCAPE2.0')
+    writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00])
+  }
+
+  return {
+    addFrame: (data, delay) => {
+      if (!palette) {
+        palette = buildPalette(data)
+        writeHeader(palette)
+      }
+
+      // Graphic control extension: no transparency, no disposal, frame delay
+      writer.bytes([0x21, 0xf9, 0x04, 0x00])
+      writer.uint16(delay)
+      writer.bytes([0x00, 0x00])
+
+      // Image descriptor: full frame, global palette, not interlaced
+      writer.byte(0x2c)
+      writer.uint16(0)
+      writer.uint16(0)
+      writer.uint16(width)
+      writer.uint16(height)
+      writer.byte(0)
+
+      writeLzw(writer, indexPixels(data, width, height, palette, cache), 8)
+    },
+    finish: () => {
+      writer.byte(0x3b) // trailer
+      return writer.result()
+    }
+  }
+}
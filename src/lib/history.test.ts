@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  HISTORY_LIMIT,
+  History,
+  createHistory,
+  describeLayerChange,
+  describeRecipeChange,
+  historyEntries,
+  jumpHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory
+} from './history'
+
+const states = <T>(history: History<T>) => historyEntries(history).map(entry => entry.state)
+
+describe('pushHistory', () => {
+  it('merges changes with the same key inside the merge window', () => {
+    let history = createHistory(0)
+    history = pushHistory(history, 1, { label: 'Zoom', mergeKey: 'zoomLevel' }, 1000)
+    history = pushHistory(history, 2, { label: 'Zoom', mergeKey: 'zoomLevel' }, 1500)
+    history = pushHistory(history, 3, { label: 'Zoom', mergeKey: 'zoomLevel' }, 2400)
+    expect(states(history)).toEqual([0, 3])
+    expect(history.present).toMatchObject({ label: 'Zoom', time: 2400 })
+  })
+
+  it('starts a new entry after a pause, on another key or without a key', () => {
+    let history = createHistory(0)
+    history = pushHistory(history, 1, { label: 'Zoom', mergeKey: 'zoomLevel' }, 1000)
+    history = pushHistory(history, 2, { label: 'Zoom', mergeKey: 'zoomLevel' }, 2000)
+    history = pushHistory(history, 3, { label: 'Grain', mergeKey: 'noiseIntensity' }, 2100)
+    history = pushHistory(history, 4, { label: 'Colors' }, 2200)
+    history = pushHistory(history, 5, { label: 'Colors' }, 2300)
+    expect(states(history)).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  it('ignores a change that keeps the same state', () => {
+    const history = pushHistory(createHistory({ a: 1 }), { a: 2 }, { label: 'A' })
+    expect(pushHistory(history, history.present.state, { label: 'A' })).toBe(history)
+  })
+
+  it(`keeps the last ${HISTORY_LIMIT} steps`, () => {
+    let history = createHistory(0)
+    for (let i = 1; i <= HISTORY_LIMIT + 10; i++) history = pushHistory(history, i, { label: 'Step' }, i)
+    expect(history.past).toHaveLength(HISTORY_LIMIT)
+    expect(history.past[0].state).toBe(10)
+  })
+})
+
+describe('undo and redo', () => {
+  const threeSteps = () => [1, 2, 3].reduce((history, state) => pushHistory(history, state, { label: `Step ${state}` }, state), createHistory(0))
+
+  it('move through the entries and back', () => {
+    const undone = undoHistory(undoHistory(threeSteps()))
+    expect(undone.present.state).toBe(1)
+    expect(states(undone)).toEqual([0, 1, 2, 3])
+    expect(redoHistory(undone).present.state).toBe(2)
+  })
+
+  it('stop at either end', () => {
+    const start = createHistory(0)
+    expect(undoHistory(start)).toBe(start)
+    const history = threeSteps()
+    expect(redoHistory(history)).toBe(history)
+  })
+
+  it('drop the redo steps on a new change', () => {
+    const history = pushHistory(undoHistory(threeSteps()), 9, { label: 'Other' }, 10)
+    expect(states(history)).toEqual([0, 1, 2, 9])
+  })
+
+  it('never merge the next change into an entry reached by undo', () => {
+    let history = createHistory(0)
+    history = pushHistory(history, 1, { label: 'Zoom', mergeKey: 'zoomLevel' }, 1000)
+    history = pushHistory(history, 2, { label: 'Zoom', mergeKey: 'zoomLevel' }, 3000)
+    history = pushHistory(undoHistory(history), 5, { label: 'Zoom', mergeKey: 'zoomLevel' }, 3100)
+    expect(states(history)).toEqual([0, 1, 5])
+  })
+
+  it('jump to any entry in the list', () => {
+    const history = jumpHistory(threeSteps(), 0)
+    expect(history.present.state).toBe(0)
+    expect(states(history)).toEqual([0, 1, 2, 3])
+    expect(jumpHistory(history, 7)).toBe(history)
+  })
+})
+
+describe('describeRecipeChange', () => {
+  it('merges number fields and live text fields per field', () => {
+    expect(describeRecipeChange({ zoomLevel: 1.2 })).toEqual({ label: 'Zoom', mergeKey: 'zoomLevel' })
+    expect(describeRecipeChange({ text: 'Hi' }, 'foreground.headline')).toEqual({ label: 'Headline', mergeKey: 'foreground.headline.text' })
+  })
+
+  it('keeps discrete changes as their own steps and joins repeated labels', () => {
+    expect(describeRecipeChange({ enabled: true }, 'overlay')).toEqual({ label: 'Overlay on/off', mergeKey: undefined })
+    expect(describeRecipeChange({ x: 0.1, y: 0.2 }, 'textArea')).toEqual({ label: 'Text area position', mergeKey: 'textArea.x,textArea.y' })
+  })
+
+  it('merges layer edits only within the same layer', () => {
+    expect(describeLayerChange('a', { opacity: 0.5 }).mergeKey).toBe('a:layer.opacity')
+    expect(describeLayerChange('b', { scale: 2 }, 'layer.transform')).toEqual({ label: 'Layer scale', mergeKey: 'b:layer.transform.scale' })
+    expect(describeLayerChange('a', { visible: false }).mergeKey).toBeUndefined()
+  })
+})
@@ -0,0 +1,197 @@
+// Editor history: snapshots of the whole recipe, so any change can be undone, including
+// Regenerate (which replaces the palette and clears the positioned blobs). Snapshots share
+// every untouched part of the recipe, so keeping a hundred of them costs very little.
+
+import {
+  BackgroundRecipe,
+  ForegroundSettings,
+  GradientLayer,
+  LayerTransform,
+  LogoSettings,
+  OverlaySettings,
+  RippleSettings,
+  TextAreaSettings,
+  TextLayerSettings
+} from './recipe'
+
+export interface HistoryEntry<T> {
+  state: T
+  label: string
+  // Consecutive changes with the same key merge into one entry, e.g. one slider drag
+  mergeKey?: string
+  time: number
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[]
+  present: HistoryEntry<T>
+  future: HistoryEntry<T>[]
+}
+
+export interface HistoryChange {
+  label: string
+  mergeKey?: string
+}
+
+export const HISTORY_LIMIT = 100
+
+// A pause longer than this starts a new entry, even on the same control
+const MERGE_WINDOW_MS = 1000
+
+export const createHistory = <T>(state: T, label = 'Start'): History<T> => ({
+  past: [],
+  present: { state, label, time: Date.now() },
+  future: []
+})
+
+export const pushHistory = <T>(history: History<T>, state: T, { label, mergeKey }: HistoryChange, now = Date.now()): History<T> => {
+  const { past, present, future } = history
+  if (state === present.state) return history
+
+  if (mergeKey && present.mergeKey === mergeKey && future.length === 0 && now - present.time < MERGE_WINDOW_MS) {
+    return { past, present: { ...present, state, time: now }, future }
+  }
+
+  return {
+    past: [...past, present].slice(-HISTORY_LIMIT),
+    present: { state, label, mergeKey, time: now },
+    future: []
+  }
+}
+
+// Swaps the current state without recording a step (e.g. the random design picked on first load)
+export const replaceHistoryState = <T>(history: History<T>, state: T): History<T> => ({
+  ...history,
+  present: { ...history.present, state }
+})
+
+// All entries oldest first; `index` in jumpHistory refers to this order
+export const historyEntries = <T>({ past, present, future }: History<T>) => [...past, present, ...[...future].reverse()]
+
+export const jumpHistory = <T>(history: History<T>, index: number): History<T> => {
+  const entries = historyEntries(history)
+  if (index < 0 || index >= entries.length || entries[index] === history.present) return history
+
+  // An entry reached by undo or redo never absorbs the next change
+  const present = { ...entries[index], mergeKey: undefined }
+  return {
+    past: entries.slice(0, index),
+    present,
+    future: entries.slice(index + 1).reverse()
+  }
+}
+
+export const undoHistory = <T>(history: History<T>) => jumpHistory(history, history.past.length - 1)
+
+export const redoHistory = <T>(history: History<T>) => jumpHistory(history, history.past.length + 1)
+
+const RECIPE_CHANGE_LABELS: Record<string, string> = {
+  seed: 'Seed',
+  colors: 'Colors',
+  layers: 'Layers',
+  gradientIntensity: 'Gradient intensity',
+  gradientDensity: 'Gradient density',
+  zoomLevel: 'Zoom',
+  noiseIntensity: 'Grain',
+  posterizeSteps: 'Posterize',
+  aspectRatio: 'Aspect ratio',
+  isAnimated: 'Slow morphing',
+  animationSpeed: 'Animation speed',
+  loopDuration: 'Loop length',
+  colorBlobs: 'Color blobs',
+  'overlay.enabled': 'Overlay on/off',
+  'overlay.type': 'Overlay type',
+  'overlay.intensity': 'Overlay intensity',
+  'ripple.enabled': 'Ripple on/off',
+  'ripple.frequencyX': 'Ripple frequency X',
+  'ripple.frequencyY': 'Ripple frequency Y',
+  'ripple.amplitudeX': 'Ripple amplitude X',
+  'ripple.amplitudeY': 'Ripple amplitude Y',
+  'textArea.enabled': 'Text area on/off',
+  'textArea.x': 'Text area position',
+  'textArea.y': 'Text area position',
+  'textArea.width': 'Text area size',
+  'textArea.height': 'Text area size',
+  'textArea.treatment': 'Text area treatment',
+  'textArea.amount': 'Text area strength',
+  'textArea.textColor': 'Text color',
+  'foreground.enabled': 'Text and logo on/off',
+  'foreground.align': 'Text alignment',
+  'foreground.headline.text': 'Headline',
+  'foreground.headline.font': 'Headline font',
+  'foreground.headline.weight': 'Headline weight',
+  'foreground.headline.size': 'Headline size',
+  'foreground.headline.color': 'Headline color',
+  'foreground.subtitle.text': 'Subtitle',
+  'foreground.subtitle.font': 'Subtitle font',
+  'foreground.subtitle.weight': 'Subtitle weight',
+  'foreground.subtitle.size': 'Subtitle size',
+  'foreground.subtitle.color': 'Subtitle color',
+  'foreground.logo.src': 'Logo',
+  'foreground.logo.anchor': 'Logo position',
+  'foreground.logo.size': 'Logo size',
+  'foreground.logo.margin': 'Logo margin',
+  'layer.style': 'Layer style',
+  'layer.visible': 'Layer visibility',
+  'layer.colors': 'Layer colors',
+  'layer.opacity': 'Layer opacity',
+  'layer.blendMode': 'Layer blend mode',
+  'layer.mask': 'Layer mask',
+  'layer.transform.x': 'Layer position',
+  'layer.transform.y': 'Layer position',
+  'layer.transform.scale': 'Layer scale',
+  'layer.transform.rotation': 'Layer rotation'
+}
+
+// Typing and color dragging change these with every keystroke or pointer move, like a slider
+const CONTINUOUS_TEXT_FIELDS = new Set([
+  'foreground.headline.text',
+  'foreground.headline.color',
+  'foreground.subtitle.text',
+  'foreground.subtitle.color'
+])
+
+type RecipeSection =
+  | 'overlay'
+  | 'ripple'
+  | 'textArea'
+  | 'foreground'
+  | 'foreground.headline'
+  | 'foreground.subtitle'
+  | 'foreground.logo'
+  | 'layer'
+  | 'layer.transform'
+
+// Names a patch to the recipe (or to its `section`) for the history list. Numbers come from
+// sliders and typed fields, which change continuously, so those merge per field; so do text
+// and color fields that update as you type or drag.
+export const describeRecipeChange = (
+  patch:
+    | Partial<BackgroundRecipe>
+    | Partial<OverlaySettings>
+    | Partial<RippleSettings>
+    | Partial<TextAreaSettings>
+    | Partial<ForegroundSettings>
+    | Partial<TextLayerSettings>
+    | Partial<LogoSettings>
+    | Partial<GradientLayer>
+    | Partial<LayerTransform>,
+  section?: RecipeSection
+): HistoryChange => {
+  const keys = Object.keys(patch).map(key => (section ? `${section}.${key}` : key))
+  const continuous = Object.values(patch).every((value, i) => typeof value === 'number' || CONTINUOUS_TEXT_FIELDS.has(keys[i]))
+  return {
+    label: Array.from(new Set(keys.map(key => RECIPE_CHANGE_LABELS[key] ?? key))).join(', '),
+    mergeKey: continuous ? keys.join(',') : undefined
+  }
+}
+
+// Layer edits are named like any other setting, but only merge within the same layer
+export const describeLayerChange = (
+  id: string,
+  patch: Partial<GradientLayer> | Partial<LayerTransform>,
+  section: 'layer' | 'layer.transform' = 'layer'
+): HistoryChange => {
+  const change = describeRecipeChange(patch, section)
+  return change.mergeKey ? { ...change, mergeKey: `${id}:${change.mergeKey}` } : change
+}
@@ -0,0 +1,42 @@
+// The gradient layer stack: helpers for editing it and for picking each layer's colors
+// Layers are kept bottom first, the order they are drawn in
+
+import { Color } from '@/utils/colors'
+import { DEFAULT_LAYER, GradientLayer, GradientStyle, MAX_LAYERS } from './recipe'
+
+// New layers start half see-through so the stack below still shows
+export const createLayer = (style: GradientStyle): GradientLayer => ({
+  ...DEFAULT_LAYER,
+  id: `layer-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  style,
+  opacity: 0.5
+})
+
+export const canAddLayer = (layers: GradientLayer[]) => layers.length < MAX_LAYERS
+
+export const patchLayer = (layers: GradientLayer[], id: string, patch: Partial<GradientLayer>): GradientLayer[] => {
+  return layers.map(layer => (layer.id === id ? { ...layer, ...patch } : layer))
+}
+
+// The last layer can't be removed; a stack always paints something
+export const removeLayer = (layers: GradientLayer[], id: string): GradientLayer[] => {
+  return layers.length > 1 ? layers.filter(layer => layer.id !== id) : layers
+}
+
+// Moves a layer `offset` places up (positive) or down the stack
+export const moveLayer = (layers: GradientLayer[], id: string, offset: number): GradientLayer[] => {
+  const from = layers.findIndex(layer => layer.id === id)
+  const to = from + offset
+  if (from < 0 || to < 0 || to >= layers.length) return layers
+  const next = [...layers]
+  const [layer] = next.splice(from, 1)
+  next.splice(to, 0, layer)
+  return next
+}
+
+// The colors a layer paints with. Indexes past the end of the palette are skipped, since
+// regenerating can leave fewer colors, and a layer left with none uses them all.
+export const layerColors = (colors: Color[], layer: GradientLayer): Color[] => {
+  const subset = layer.colors.filter(index => index < colors.length).map(index => colors[index])
+  return subset.length > 0 ? subset : colors
+}
@@ -0,0 +1,145 @@
+// Text legibility over a rendered background: WCAG contrast of white and black text against every
+// sampled pixel of the text safe area. The worst pixels matter most, so the report gives the
+// minimum and the 10th percentile as well as the average, and suggests the text color whose
+// weak spots are stronger. Measurements are always of the background alone, without the
+// foreground text drawn over it.
+
+import { BackgroundRecipe, TextAreaSettings, TextColor } from './recipe'
+import { contrastRatio } from './color-space'
+import { renderExport } from './render/worker-client'
+import { withoutForeground } from './render/foreground'
+
+export interface TextAreaRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export const TEXT_AREA_TEMPLATES: { id: string; label: string; rect: TextAreaRect }[] = [
+  { id: 'headline-left', label: 'Headline left', rect: { x: 0.06, y: 0.3, width: 0.5, height: 0.4 } },
+  { id: 'centered', label: 'Centered title', rect: { x: 0.15, y: 0.35, width: 0.7, height: 0.3 } },
+  { id: 'top', label: 'Top banner', rect: { x: 0.06, y: 0.06, width: 0.88, height: 0.22 } },
+  { id: 'lower-third', label: 'Lower third', rect: { x: 0.06, y: 0.68, width: 0.88, height: 0.24 } }
+]
+
+// WCAG 2 thresholds: AA for body text, AA for large text (24px, or 19px bold)
+export const CONTRAST_AA = 4.5
+export const CONTRAST_AA_LARGE = 3
+
+export const rateContrast = (ratio: number) => (ratio >= CONTRAST_AA ? 'AA' : ratio >= CONTRAST_AA_LARGE ? 'AA large' : 'Fails')
+
+export interface ContrastStats {
+  min: number
+  average: number
+  // 90% of the area is at least this
+  p10: number
+}
+
+export interface LegibilityReport {
+  white: ContrastStats
+  black: ContrastStats
+  suggestion: TextColor
+  // The image size the report was measured at
+  width: number
+  height: number
+}
+
+// Enough samples for stable percentiles; bigger areas are sampled on a grid
+const MAX_SAMPLES = 40000
+
+const WHITE: [number, number, number] = [255, 255, 255]
+const BLACK: [number, number, number] = [0, 0, 0]
+
+const summarize = (values: Float32Array): ContrastStats => {
+  const sorted = values.slice().sort()
+  const sum = values.reduce((total, value) => total + value, 0)
+  return { min: sorted[0], average: sum / values.length, p10: sorted[Math.floor(sorted.length * 0.1)] }
+}
+
+// The pixels of the area, `width` x `height` of RGBA, cut from an `imageWidth` x `imageHeight` image
+export interface AreaPixels {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+  imageWidth: number
+  imageHeight: number
+}
+
+export const analyzeLegibility = ({ data, width, height, imageWidth, imageHeight }: AreaPixels): LegibilityReport | null => {
+  const step = Math.max(1, Math.ceil(Math.sqrt((width * height) / MAX_SAMPLES)))
+  const columns = Math.ceil(width / step)
+  const rows = Math.ceil(height / step)
+  if (columns * rows === 0) return null
+
+  const white = new Float32Array(columns * rows)
+  const black = new Float32Array(columns * rows)
+  let n = 0
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4
+      const rgb: [number, number, number] = [data[i], data[i + 1], data[i + 2]]
+      white[n] = contrastRatio(rgb, WHITE)
+      black[n] = contrastRatio(rgb, BLACK)
+      n++
+    }
+  }
+
+  const whiteStats = summarize(white.subarray(0, n))
+  const blackStats = summarize(black.subarray(0, n))
+  return {
+    white: whiteStats,
+    black: blackStats,
+    suggestion: whiteStats.p10 >= blackStats.p10 ? 'white' : 'black',
+    width: imageWidth,
+    height: imageHeight
+  }
+}
+
+// The area in pixels of a `width` x `height` image, at least one pixel in each direction
+export const areaPixels = (area: TextAreaRect, width: number, height: number) => {
+  const x = Math.max(0, Math.min(width - 1, Math.round(area.x * width)))
+  const y = Math.max(0, Math.min(height - 1, Math.round(area.y * height)))
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(area.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(area.height * height)))
+  }
+}
+
+// Copy the area out of an already rendered canvas, e.g. the preview before its foreground is
+// drawn. Copying is cheap; the analysis can run later
+export const readCanvasArea = (canvas: HTMLCanvasElement, area: TextAreaRect): AreaPixels | null => {
+  const ctx = canvas.getContext('2d')
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null
+  const rect = areaPixels(area, canvas.width, canvas.height)
+  const { data } = ctx.getImageData(rect.x, rect.y, rect.width, rect.height)
+  return { data, width: rect.width, height: rect.height, imageWidth: canvas.width, imageHeight: canvas.height }
+}
+
+// Render at the export size and measure that, since grain and effects scale with resolution.
+// Only the area is copied out of the decoded image, so large exports stay affordable
+export const analyzeAtSize = async (
+  recipe: BackgroundRecipe,
+  area: TextAreaSettings,
+  width: number,
+  height: number,
+  signal?: AbortSignal
+): Promise<LegibilityReport | null> => {
+  const { blob } = await renderExport({ recipe: withoutForeground(recipe), width, height, format: 'png', quality: 1 }, { signal })
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const rect = areaPixels(area, width, height)
+    const canvas = document.createElement('canvas')
+    canvas.width = rect.width
+    canvas.height = rect.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height)
+    const { data } = ctx.getImageData(0, 0, rect.width, rect.height)
+    return analyzeLegibility({ data, width: rect.width, height: rect.height, imageWidth: width, imageHeight: height })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,115 @@
+// Saved designs library: recipes with a thumbnail, kept in IndexedDB so they survive reloads.
+// Recipes are stored as their serialized JSON document and parsed again on load, so designs
+// saved by older versions go through the same validation and migration as imported files.
+
+import { BackgroundRecipe, RecipeParseResult, parseRecipeJSON, serializeRecipe } from './recipe'
+import { fitLongestSide } from './dimensions'
+import { renderExport } from './render/worker-client'
+
+export interface SavedDesign {
+  id: string
+  name: string
+  tags: string[]
+  recipe: string
+  thumbnail: Blob
+  createdAt: number
+  updatedAt: number
+}
+
+const DB_NAME = 'background-generator'
+const DB_VERSION = 1
+const STORE = 'designs'
+
+const THUMBNAIL_SIZE = 320
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot store designs (no IndexedDB)'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+        store.createIndex('updatedAt', 'updatedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again, e.g. after the user allows storage
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+const promisify = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result)
+  request.onerror = () => reject(request.error)
+})
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase()
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)))
+}
+
+const createId = () => (typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`)
+
+// Tags are trimmed, lowercased and unique
+export const normalizeTags = (tags: string[]) => Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean)))
+
+export const renderThumbnail = async (recipe: BackgroundRecipe, signal?: AbortSignal) => {
+  const { width, height } = fitLongestSide(recipe.aspectRatio, THUMBNAIL_SIZE)
+  const { blob } = await renderExport({ recipe, width, height, format: 'jpeg', quality: 0.85 }, { signal })
+  return blob
+}
+
+// Newest first
+export const listDesigns = async (): Promise<SavedDesign[]> => {
+  const designs = await withStore<SavedDesign[]>('readonly', store => store.getAll())
+  return designs.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export const saveDesign = async (recipe: BackgroundRecipe, name: string, tags: string[] = []): Promise<SavedDesign> => {
+  const now = Date.now()
+  const design: SavedDesign = {
+    id: createId(),
+    name: name.trim() || 'Untitled',
+    tags: normalizeTags(tags),
+    recipe: serializeRecipe(recipe),
+    thumbnail: await renderThumbnail(recipe),
+    createdAt: now,
+    updatedAt: now
+  }
+  await withStore('readwrite', store => store.put(design))
+  return design
+}
+
+export const updateDesign = async (design: SavedDesign, changes: Partial<Pick<SavedDesign, 'name' | 'tags'>>): Promise<SavedDesign> => {
+  const updated: SavedDesign = {
+    ...design,
+    ...changes,
+    name: (changes.name ?? design.name).trim() || 'Untitled',
+    tags: normalizeTags(changes.tags ?? design.tags),
+    updatedAt: Date.now()
+  }
+  await withStore('readwrite', store => store.put(updated))
+  return updated
+}
+
+export const duplicateDesign = async (design: SavedDesign): Promise<SavedDesign> => {
+  const now = Date.now()
+  const copy: SavedDesign = { ...design, id: createId(), name: `${design.name} copy`, createdAt: now, updatedAt: now }
+  await withStore('readwrite', store => store.put(copy))
+  return copy
+}
+
+export const deleteDesign = async (id: string) => {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+export const readDesignRecipe = (design: SavedDesign): RecipeParseResult => parseRecipeJSON(design.recipe)
@@ -0,0 +1,78 @@
+// Logos for the foreground layer: reading an upload into the recipe, and decoding it for the
+// render. Decoding happens on the page because workers can't decode SVG. The worker gets the
+// logo as a bitmap already rasterized at the size it is drawn, so vector logos stay sharp at
+// any export size.
+
+import { BackgroundRecipe, LogoSettings } from './recipe'
+import { createBrowserCanvas } from './render/context'
+import { ForegroundAssets, LogoImage, logoRect } from './render/foreground'
+
+// Logos are stored inside recipes and library entries, so they have to stay small
+export const MAX_LOGO_BYTES = 512 * 1024
+export const LOGO_FILE_TYPES = ['image/svg+xml', 'image/png', 'image/jpeg', 'image/webp']
+
+const readAsDataUrl = (file: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(reader.result as string)
+  reader.onerror = () => reject(reader.error ?? new Error('Could not read the file'))
+  reader.readAsDataURL(file)
+})
+
+// Only the current logo is kept decoded
+let decoded: { src: string; image: Promise<HTMLImageElement> } | null = null
+
+const decodeLogo = (src: string) => {
+  if (decoded?.src !== src) {
+    const image = new Image()
+    image.src = src
+    decoded = { src, image: image.decode().then(() => image) }
+  }
+  return decoded.image
+}
+
+// Checks the file is an image we can draw and returns it as a data URL for the recipe
+export const readLogoFile = async (file: File): Promise<string> => {
+  if (!LOGO_FILE_TYPES.includes(file.type)) {
+    throw new Error('Logos must be SVG, PNG, JPEG or WebP files')
+  }
+  if (file.size > MAX_LOGO_BYTES) {
+    throw new Error(`Logos must be smaller than ${MAX_LOGO_BYTES / 1024} KB`)
+  }
+  const src = await readAsDataUrl(file)
+  try {
+    await decodeLogo(src)
+  } catch {
+    throw new Error('The logo file could not be decoded')
+  }
+  return src
+}
+
+// The last rasterized logo; previews ask for the same size on every frame
+let rasterized: { src: string; width: number; height: number; logo: Promise<LogoImage> } | null = null
+
+const rasterizeLogo = async (image: HTMLImageElement, rect: { width: number; height: number }): Promise<LogoImage> => {
+  const surface = createBrowserCanvas(rect.width, rect.height)
+  if (!surface) throw new Error('Could not allocate the logo canvas')
+  surface.ctx.imageSmoothingQuality = 'high'
+  surface.ctx.drawImage(image, 0, 0, rect.width, rect.height)
+  return { image: await createImageBitmap(surface.canvas), width: rect.width, height: rect.height }
+}
+
+const loadLogo = async (settings: LogoSettings & { src: string }, width: number, height: number): Promise<LogoImage> => {
+  const image = await decodeLogo(settings.src)
+  // SVGs without a width and height have no natural size in some browsers; draw them square
+  const aspect = image.naturalWidth > 0 && image.naturalHeight > 0 ? image.naturalWidth / image.naturalHeight : 1
+  const rect = logoRect(settings, width, height, aspect)
+
+  if (rasterized?.src !== settings.src || rasterized.width !== rect.width || rasterized.height !== rect.height) {
+    rasterized = { src: settings.src, width: rect.width, height: rect.height, logo: rasterizeLogo(image, rect) }
+  }
+  return rasterized.logo
+}
+
+// Everything the foreground needs decoded before a width x height render of `recipe`
+export const loadForegroundAssets = async (recipe: BackgroundRecipe, width: number, height: number): Promise<ForegroundAssets> => {
+  const { enabled, logo } = recipe.foreground
+  if (!enabled || !logo.src) return { logo: null }
+  return { logo: await loadLogo({ ...logo, src: logo.src }, width, height) }
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { BUILT_IN_MOODS, Mood, getColorsByMood, loadMoods } from './moods'
+import { DEFAULT_PALETTE } from './palette'
+import { MAX_RECIPE_COLORS } from './recipe'
+import { createRandom } from '@/utils/random'
+
+const STORAGE_KEY = 'background-generator:moods'
+
+const fixed = (id: string, name = id): Mood => ({ id, name, rule: { kind: 'fixed', colors: ['#F13D51', '#168EFF'] } })
+
+describe('loadMoods', () => {
+  let store: Map<string, string>
+
+  beforeEach(() => {
+    store = new Map()
+    vi.stubGlobal('localStorage', { getItem: (key: string) => store.get(key) ?? null, setItem: () => {} })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  const load = (moods: unknown[], activeId: string | null) => {
+    store.set(STORAGE_KEY, JSON.stringify({ moods, activeId }))
+    return loadMoods()
+  }
+
+  const customMoods = (moods: Mood[]) => moods.filter(mood => mood.custom)
+
+  it('lists the built-in moods first, then the saved ones', () => {
+    const { moods, activeId } = load([fixed('mine')], 'mine')
+    expect(moods.slice(0, BUILT_IN_MOODS.length)).toEqual(BUILT_IN_MOODS)
+    expect(customMoods(moods).map(mood => mood.id)).toEqual(['mine'])
+    expect(activeId).toBe('mine')
+  })
+
+  it('renames a saved mood that clashes with a built-in one, and keeps it active', () => {
+    const { moods, activeId } = load([fixed('warm', 'My warm')], 'warm')
+    const [mine] = customMoods(moods)
+    expect(mine).toMatchObject({ id: 'warm-2', name: 'My warm' })
+    expect(moods.find(mood => mood.id === 'warm')).toEqual(BUILT_IN_MOODS.find(mood => mood.id === 'warm'))
+    expect(activeId).toBe('warm-2')
+  })
+
+  it('gives repeated saved ids their own ids, and the active id stays with the first of them', () => {
+    const { moods, activeId } = load([fixed('mine', 'First'), fixed('mine', 'Second')], 'mine')
+    expect(customMoods(moods).map(mood => [mood.id, mood.name])).toEqual([['mine', 'First'], ['mine-2', 'Second']])
+    expect(activeId).toBe('mine')
+  })
+
+  it('keeps a built-in mood active when no saved mood clashes with it', () => {
+    expect(load([fixed('mine')], 'cool').activeId).toBe('cool')
+    expect(load([fixed('mine')], 'gone').activeId).toBeNull()
+  })
+
+  it(`caps every rule at ${MAX_RECIPE_COLORS} colors`, () => {
+    const { moods } = load(
+      [
+        { id: 'a', name: 'A', rule: { kind: 'spread', count: 40 } },
+        { id: 'b', name: 'B', rule: { kind: 'hues', from: 0, to: 90, count: [9, 0] } },
+        { id: 'c', name: 'C', rule: { kind: 'harmony', offsets: [10, 20, 30, 40, 50, 60, 70] } },
+        { id: 'd', name: 'D', rule: { kind: 'fixed', colors: Array.from({ length: 9 }, () => '#123456') } }
+      ],
+      null
+    )
+    expect(customMoods(moods).map(mood => mood.rule)).toEqual([
+      { kind: 'spread', count: MAX_RECIPE_COLORS },
+      { kind: 'hues', from: 0, to: 90, count: [1, MAX_RECIPE_COLORS] },
+      { kind: 'harmony', offsets: [10, 20, 30, 40, 50] },
+      { kind: 'fixed', colors: Array.from({ length: MAX_RECIPE_COLORS }, () => '#123456') }
+    ])
+  })
+
+  it('drops saved moods whose rule does not validate', () => {
+    const { moods } = load([{ id: 'x', name: 'X', rule: { kind: 'hues', from: 0, to: 90, count: ['a', 2] } }, { id: 'y', name: 'Y', rule: { kind: 'nope' } }], null)
+    expect(customMoods(moods)).toEqual([])
+  })
+})
+
+describe('getColorsByMood', () => {
+  it.each(BUILT_IN_MOODS.map(mood => [mood.name, mood] as const))('draws palette colors for %s', (_, mood) => {
+    const colors = getColorsByMood(DEFAULT_PALETTE, mood, createRandom(7))
+    expect(colors.length).toBeGreaterThanOrEqual(2)
+    expect(colors.length).toBeLessThanOrEqual(MAX_RECIPE_COLORS)
+    const hexes = new Set(DEFAULT_PALETTE.families.flatMap(family => family.colors.map(color => color.hex)))
+    colors.forEach(color => expect(hexes.has(color.hex)).toBe(true))
+  })
+
+  it('is repeatable for the same random stream', () => {
+    const mood = BUILT_IN_MOODS.find(entry => entry.id === 'wild')!
+    expect(getColorsByMood(DEFAULT_PALETTE, mood, createRandom(3))).toEqual(getColorsByMood(DEFAULT_PALETTE, mood, createRandom(3)))
+  })
+})
@@ -0,0 +1,242 @@
+// Moods as data: each one is a rule for drawing colors from the active palette plus the shade
+// range it prefers. Rules work on OKLCH hue rather than family names, so every mood applies to
+// any palette; palettes without numbered shades use their mid-tones. Custom moods are saved from
+// the current colors and kept in localStorage next to the built-in list.
+
+import { Color } from '@/utils/colors'
+import { RandomFn, pick, shuffle } from '@/utils/random'
+import { Palette, createColor, familyShades, nearestPaletteColor, paletteColors, randomMidToneColors } from './palette'
+import { OKLCH, hueDistance, rgbToOklch } from './color-space'
+import { MAX_RECIPE_COLORS } from './recipe'
+
+export type MoodRule =
+  // Colors whose hue lies between `from` and `to` degrees (wrapping past 360), e.g. warm or cool
+  | { kind: 'hues'; from: number; to: number; count: [number, number] }
+  // A random base color plus the colors closest to each hue offset from it
+  | { kind: 'harmony'; offsets: number[] }
+  // Colors spread across the palette's hues
+  | { kind: 'spread'; count: number }
+  // Shades of one family
+  | { kind: 'monochrome'; count: number }
+  // Fixed colors, snapped to the closest colors of the active palette
+  | { kind: 'fixed'; colors: string[] }
+
+export interface Mood {
+  id: string
+  name: string
+  rule: MoodRule
+  // Shade range (100-900) on palettes with numbered shades
+  shades?: [number, number]
+  custom?: boolean
+}
+
+export const BUILT_IN_MOODS: Mood[] = [
+  { id: 'warm', name: 'Warm', rule: { kind: 'hues', from: 0, to: 100, count: [2, 3] }, shades: [300, 600] },
+  { id: 'cool', name: 'Cool', rule: { kind: 'hues', from: 140, to: 310, count: [2, 3] }, shades: [300, 600] },
+  // High contrast, bold colors
+  { id: 'expressive', name: 'Expressive', rule: { kind: 'spread', count: 3 }, shades: [400, 500] },
+  // Clean, sophisticated single-family variations
+  { id: 'modern', name: 'Modern', rule: { kind: 'monochrome', count: 3 }, shades: [300, 700] },
+  // Muted, elegant tones
+  { id: 'sophisticated', name: 'Sophisticated', rule: { kind: 'spread', count: 3 }, shades: [200, 300] },
+  { id: 'wild', name: 'Wild (triadic)', rule: { kind: 'harmony', offsets: [120, 240] }, shades: [400, 600] },
+  { id: 'energetic', name: 'Energetic (complementary)', rule: { kind: 'harmony', offsets: [180] }, shades: [400, 600] },
+  { id: 'calm', name: 'Calm (analogous)', rule: { kind: 'harmony', offsets: [-35, 35] }, shades: [300, 600] },
+  { id: 'sunset', name: 'Sunset', rule: { kind: 'fixed', colors: ['#EF7800', '#F13D51', '#FABD13'] } },
+  { id: 'ocean', name: 'Ocean', rule: { kind: 'fixed', colors: ['#168EFF', '#22E067', '#6CAFFF'] } },
+  { id: 'forest', name: 'Forest', rule: { kind: 'fixed', colors: ['#008F44', '#22E067', '#F8C752'] } },
+  { id: 'royal', name: 'Royal', rule: { kind: 'fixed', colors: ['#6D2BD7', '#005DD4', '#A870FF'] } }
+]
+
+// Below this OKLCH chroma a color is a grey and has no meaningful hue
+const MIN_CHROMA = 0.04
+// How far a palette color's hue may be from the hue a harmony asks for; never more than half the
+// offset, so an analogous pick can't land back on the base color's own family
+const HUE_TOLERANCE = 45
+// Hue gap that makes two picks read as different colors rather than two shades of one
+const MIN_HUE_STEP = 15
+
+interface Candidate {
+  color: Color
+  lch: OKLCH
+}
+
+const candidatesFor = (palette: Palette, mood: Mood): Candidate[] => {
+  const [min, max] = mood.shades ?? [100, 900]
+  return palette.families
+    .flatMap(family => familyShades(family, min, max))
+    .map(color => ({ color, lch: rgbToOklch(color.rgb) }))
+}
+
+const isChromatic = ({ lch }: Candidate) => lch[1] >= MIN_CHROMA
+
+const inHueRange = (hue: number, from: number, to: number) => (from <= to ? hue >= from && hue <= to : hue >= from || hue <= to)
+
+// Up to `count` colors, preferring ones whose hue differs from everything already picked
+const pickDistinct = (candidates: Candidate[], count: number, random: RandomFn): Color[] => {
+  const shuffled = shuffle(candidates, random)
+  const picked: Candidate[] = []
+  for (const candidate of shuffled) {
+    if (picked.length >= count) break
+    if (picked.every(entry => hueDistance(entry.lch[2], candidate.lch[2]) >= MIN_HUE_STEP)) picked.push(candidate)
+  }
+  for (const candidate of shuffled) {
+    if (picked.length >= count) break
+    if (!picked.includes(candidate)) picked.push(candidate)
+  }
+  return picked.map(entry => entry.color)
+}
+
+const pickHarmony = (candidates: Candidate[], offsets: number[], random: RandomFn): Color[] => {
+  const chromatic = candidates.filter(isChromatic)
+  if (chromatic.length === 0) return []
+
+  const base = pick(chromatic, random)
+  const picked: Color[] = [base.color]
+  for (const offset of offsets) {
+    const target = (base.lch[2] + offset + 360) % 360
+    const options = shuffle(chromatic, random)
+      .filter(({ color }) => !picked.includes(color))
+      .map(candidate => ({ ...candidate, distance: hueDistance(candidate.lch[2], target) }))
+      .filter(({ distance }) => distance <= Math.min(HUE_TOLERANCE, Math.abs(offset) / 2))
+    if (options.length === 0) continue
+    picked.push(options.reduce((best, option) => (option.distance < best.distance ? option : best)).color)
+  }
+  return picked
+}
+
+const applyRule = (palette: Palette, mood: Mood, random: RandomFn): Color[] => {
+  const { rule } = mood
+  switch (rule.kind) {
+    case 'hues': {
+      const count = rule.count[0] + Math.floor(random() * (rule.count[1] - rule.count[0] + 1))
+      const inRange = candidatesFor(palette, mood).filter(candidate => isChromatic(candidate) && inHueRange(candidate.lch[2], rule.from, rule.to))
+      return pickDistinct(inRange, count, random)
+    }
+    case 'harmony':
+      return pickHarmony(candidatesFor(palette, mood), rule.offsets, random)
+    case 'spread':
+      return pickDistinct(candidatesFor(palette, mood), rule.count, random)
+    case 'monochrome': {
+      const [min, max] = mood.shades ?? [100, 900]
+      const family = pick(palette.families, random)
+      return shuffle(familyShades(family, min, max), random).slice(0, rule.count)
+    }
+    case 'fixed': {
+      const snapped = rule.colors.map(hex => nearestPaletteColor(palette, createColor(hex, '').rgb))
+      return snapped.filter((color, i) => snapped.indexOf(color) === i)
+    }
+  }
+}
+
+export const getColorsByMood = (palette: Palette, mood: Mood, random: RandomFn = Math.random): Color[] => {
+  if (paletteColors(palette).length === 0) return []
+  const colors = applyRule(palette, mood, random)
+  // Too few matching colors in this palette: fall back to a mid-tone mix
+  return colors.length >= 2 ? colors : randomMidToneColors(palette, 3, random)
+}
+
+export const createMoodFromColors = (name: string, colors: Color[]): Mood => ({
+  id: `mood-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  rule: { kind: 'fixed', colors: colors.map(color => color.hex) },
+  custom: true
+})
+
+const STORAGE_KEY = 'background-generator:moods'
+
+export interface StoredMoods {
+  moods: Mood[]
+  // null generates from the whole palette
+  activeId: string | null
+}
+
+const isMoodRule = (rule: unknown): rule is MoodRule => {
+  if (typeof rule !== 'object' || rule === null) return false
+  const value = rule as Record<string, unknown>
+  switch (value.kind) {
+    case 'hues':
+      return (
+        typeof value.from === 'number' &&
+        typeof value.to === 'number' &&
+        Array.isArray(value.count) &&
+        value.count.length === 2 &&
+        value.count.every(count => typeof count === 'number')
+      )
+    case 'harmony':
+      return Array.isArray(value.offsets) && value.offsets.every(offset => typeof offset === 'number')
+    case 'spread':
+    case 'monochrome':
+      return typeof value.count === 'number'
+    case 'fixed':
+      return Array.isArray(value.colors) && value.colors.every(color => typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color))
+    default:
+      return false
+  }
+}
+
+const clampCount = (count: number) => Math.max(1, Math.min(MAX_RECIPE_COLORS, Math.round(count)))
+
+// Hand-edited or older rules can ask for more colors than a recipe holds
+const capRule = (rule: MoodRule): MoodRule => {
+  switch (rule.kind) {
+    case 'hues': {
+      const [min, max] = rule.count.map(clampCount)
+      return { ...rule, count: [Math.min(min, max), Math.max(min, max)] }
+    }
+    case 'harmony':
+      return { ...rule, offsets: rule.offsets.slice(0, MAX_RECIPE_COLORS - 1) }
+    case 'spread':
+    case 'monochrome':
+      return { ...rule, count: clampCount(rule.count) }
+    case 'fixed':
+      return { ...rule, colors: rule.colors.slice(0, MAX_RECIPE_COLORS) }
+  }
+}
+
+// A custom mood must not shadow a built-in one or another custom mood; a clash gets a new id
+// rather than being dropped, so the saved mood itself is kept
+const uniqueMoodId = (id: string, taken: Set<string>) => {
+  let unique = id
+  for (let count = 2; taken.has(unique); count++) unique = `${id}-${count}`
+  taken.add(unique)
+  return unique
+}
+
+// Custom moods are data too: any stored rule that validates is usable, not just saved color sets
+export const loadMoods = (): StoredMoods => {
+  const fallback = { moods: BUILT_IN_MOODS, activeId: null }
+  if (typeof localStorage === 'undefined') return fallback
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as StoredMoods | null
+    if (!stored || !Array.isArray(stored.moods)) return fallback
+    const taken = new Set(BUILT_IN_MOODS.map(mood => mood.id))
+    // A stored active id names the first custom mood saved under it, so it follows that mood if
+    // it is renamed
+    let activeId = stored.activeId
+    let activeClaimed = false
+    const custom = stored.moods
+      .filter(mood => typeof mood.id === 'string' && typeof mood.name === 'string' && isMoodRule(mood.rule))
+      .map(mood => {
+        const id = uniqueMoodId(mood.id, taken)
+        if (mood.id === stored.activeId && !activeClaimed) {
+          activeId = id
+          activeClaimed = true
+        }
+        return { ...mood, id, rule: capRule(mood.rule), custom: true }
+      })
+    const moods = [...BUILT_IN_MOODS, ...custom]
+    return { moods, activeId: moods.some(mood => mood.id === activeId) ? activeId : null }
+  } catch (error) {
+    console.warn('Ignoring unreadable saved moods:', error)
+    return fallback
+  }
+}
+
+export const saveMoods = ({ moods, activeId }: StoredMoods) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ moods: moods.filter(mood => mood.custom), activeId }))
+  } catch (error) {
+    console.error('Saving moods failed:', error)
+  }
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest'
+import { createColor } from './palette'
+import { importPalette, parseCssColor, serializePalette } from './palette-import'
+
+const text = (source: string) => new TextEncoder().encode(source)
+
+const imported = (fileName: string, source: string | Uint8Array) => {
+  const result = importPalette(fileName, typeof source === 'string' ? text(source) : source)
+  if (!result.ok) throw new Error(`Expected an import, got: ${result.errors.join('; ')}`)
+  return result
+}
+
+const hexesByFamily = (fileName: string, source: string | Uint8Array) =>
+  Object.fromEntries(imported(fileName, source).palette.families.map(family => [family.name, family.colors.map(color => color.hex)]))
+
+// Minimal Adobe Swatch Exchange writer: a group start, RGB swatches, a group end
+const aseFile = (group: string, swatches: [string, number, number, number][]) => {
+  const blocks: number[][] = []
+  const name = (value: string) => {
+    const chars = [...value, '\0'].map(char => char.charCodeAt(0))
+    return [(chars.length >> 8) & 0xff, chars.length & 0xff, ...chars.flatMap(code => [code >> 8, code & 0xff])]
+  }
+  const float = (value: number) => {
+    const view = new DataView(new ArrayBuffer(4))
+    view.setFloat32(0, value)
+    return Array.from(new Uint8Array(view.buffer))
+  }
+  const block = (type: number, body: number[]) => blocks.push([type >> 8, type & 0xff, 0, 0, body.length >> 8, body.length & 0xff, ...body])
+
+  block(0xc001, name(group))
+  swatches.forEach(([label, r, g, b]) => block(0x0001, [...name(label), ...text('RGB '), ...float(r), ...float(g), ...float(b), 0, 2]))
+  block(0xc002, [])
+  return new Uint8Array([...text('ASEF'), 0, 1, 0, 0, 0, 0, 0, blocks.length, ...blocks.flat()])
+}
+
+describe('parseCssColor', () => {
+  it.each([
+    ['#abc', '#AABBCC'],
+    ['#3B82F680', '#3B82F6'],
+    ['rgb(59, 130, 246)', '#3B82F6'],
+    ['rgb(59 130 246 / 50%)', '#3B82F6'],
+    ['59 130 246', '#3B82F6'],
+    ['hsl(0, 100%, 50%)', '#FF0000'],
+    ['0 100% 50%', '#FF0000'],
+    ['oklch(62.8% 0.2577 29.23)', '#FF0000']
+  ])('reads %s', (input, hex) => {
+    expect(parseCssColor(input)).toBe(hex)
+  })
+
+  it('rejects what is not a color', () => {
+    expect(parseCssColor('1rem')).toBeNull()
+    expect(parseCssColor('var(--x)')).toBeNull()
+  })
+})
+
+describe('importPalette', () => {
+  it('reads back its own export', () => {
+    const palette = { id: 'p', name: 'Brand', families: [{ name: 'Blue', colors: [createColor('#168EFF', 'Blue 500')] }] }
+    const { palette: result } = imported('brand.json', serializePalette(palette))
+    expect(result.name).toBe('Brand')
+    expect(result.families).toEqual(palette.families)
+  })
+
+  it('resolves design token aliases and drops the outer color group', () => {
+    const tokens = {
+      color: {
+        blue: { 500: { $value: '#168eff', $type: 'color' }, 600: { $value: '{color.blue.500}' } },
+        spacing: { $value: '4px', $type: 'dimension' }
+      }
+    }
+    expect(hexesByFamily('tokens.json', JSON.stringify(tokens))).toEqual({ Blue: ['#168EFF', '#168EFF'] })
+  })
+
+  it('reads CSS variables, following var() references and skipping non-colors', () => {
+    const css = ':root { --brand-500: 59 130 246; --brand-600: var(--brand-500); --radius: 4px; --accent: #f00; }'
+    expect(hexesByFamily('theme.css', css)).toEqual({ Brand: ['#3B82F6', '#3B82F6'], Colors: ['#FF0000'] })
+  })
+
+  it('reads the colors of a Tailwind config without running it', () => {
+    const config = `
+      const plugin = require('plugin')
+      module.exports = {
+        theme: {
+          extend: {
+            colors: {
+              // comment
+              brand: { DEFAULT: '#168EFF', 100: "#e8f3ff" },
+              'accent-red': 'rgb(241 61 81)',
+              ...require('./more'),
+              computed: shade('#000', 0.5),
+            }
+          }
+        },
+        plugins: [plugin()]
+      }`
+    // Object keys that are integers come first, as in the evaluated config
+    expect(hexesByFamily('tailwind.config.js', config)).toEqual({ Brand: ['#E8F3FF', '#168EFF'], Colors: ['#F13D51'] })
+  })
+
+  it('returns on a Tailwind config with a stray closing bracket instead of hanging', () => {
+    expect(importPalette('bad.js', text("module.exports={theme:{colors:{a:'#fff')}}}")).ok).toBe(false)
+    expect(hexesByFamily('bad.js', "module.exports={theme:{colors:{a:'#fff'],b:'#000000'}}}")).toEqual({ Colors: ['#000000'] })
+    expect(importPalette('bad.js', text('module.exports={theme:{colors:{)]}}}')).ok).toBe(false)
+  })
+
+  it('reads GIMP palettes', () => {
+    const gpl = 'GIMP Palette\nName: Sunset\nColumns: 2\n#\n255 0 0 Red\n  0 128 255\tSky\n'
+    const { palette } = imported('sunset.gpl', gpl)
+    expect(palette.name).toBe('Sunset')
+    expect(palette.families[0].colors.map(color => [color.name, color.hex])).toEqual([['Red', '#FF0000'], ['Sky', '#0080FF']])
+  })
+
+  it('reads Adobe swatch exchange files', () => {
+    const ase = aseFile('Brand', [['Red', 1, 0, 0], ['Navy', 0, 0, 0.5]])
+    expect(hexesByFamily('brand.ase', ase)).toEqual({ Brand: ['#FF0000', '#000080'] })
+  })
+
+  it('keeps the colors before the point where a swatch file is cut off, with a warning', () => {
+    const ase = aseFile('Brand', [['Red', 1, 0, 0], ['Navy', 0, 0, 0.5]])
+    const result = imported('brand.ase', ase.subarray(0, ase.length - 20))
+    expect(result.palette.families[0].colors.map(color => color.hex)).toEqual(['#FF0000'])
+    expect(result.warnings).toHaveLength(1)
+  })
+
+  it('warns about skipped colors and the color cap', () => {
+    const tokens = Object.fromEntries(Array.from({ length: 520 }, (_, i) => [`c${i}`, i === 0 ? 'not a color' : '#123456']))
+    const result = imported('many.json', JSON.stringify(tokens))
+    expect(result.palette.families[0].colors).toHaveLength(512)
+    expect(result.warnings).toEqual(['Skipped c0: "not a color" is not a supported color', 'Only the first 512 colors were imported'])
+  })
+
+  it('reports files with no colors', () => {
+    expect(importPalette('empty.json', text('{}')).ok).toBe(false)
+    expect(importPalette('broken.json', text('{"a":')).ok).toBe(false)
+    expect(importPalette('notes.txt', text('hello')).ok).toBe(false)
+  })
+})
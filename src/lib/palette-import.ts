@@ -0,0 +1,392 @@
+// Palette import from the formats brand teams already have: this app's palette JSON, design-token
+// JSON (W3C `$value` or Style Dictionary `value`, with {alias} references), CSS custom properties,
+// a Tailwind config's `colors`, GIMP .gpl and Adobe .ase swatch files. Groups become families;
+// ungrouped colors land in one "Colors" family.
+
+import { Palette, PaletteFamily, createColor, createPaletteId } from './palette'
+import { hslToRgb, labD50ToRgb, oklchToRgb } from './color-space'
+
+export type PaletteImportResult =
+  | { ok: true; palette: Palette; warnings: string[] }
+  | { ok: false; errors: string[] }
+
+const MAX_COLORS = 512
+
+const clampByte = (value: number) => Math.max(0, Math.min(255, Math.round(value)))
+
+const toHex = (r: number, g: number, b: number) => `#${[r, g, b].map(value => clampByte(value).toString(16).padStart(2, '0')).join('').toUpperCase()}`
+
+const parseChannel = (value: string, scale: number) => (value.endsWith('%') ? (parseFloat(value) / 100) * scale : parseFloat(value))
+
+// Hex, rgb()/hsl()/oklch() in comma or space syntax, and the bare channel lists design systems keep in
+// variables ("59 130 246", "222 84% 5%"). Returns #RRGGBB or null.
+export const parseCssColor = (input: string): string | null => {
+  const value = input.trim().toLowerCase()
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value)
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].slice(0, 3).split('').map(d => d + d).join('') : hex[1].slice(0, 6)
+    return `#${digits.toUpperCase()}`
+  }
+
+  const fn = /^(rgba?|hsla?|oklch)\((.*)\)$/.exec(value)
+  const body = fn ? fn[2] : value
+  const parts = body.replace(/\//g, ' ').split(/[\s,]+/).filter(Boolean)
+  if (parts.length < 3 || !parts.slice(0, 3).every(part => /^-?[\d.]+(%|deg)?$/.test(part))) return null
+
+  if (fn?.[1] === 'oklch') {
+    // Chroma percentages are relative to 0.4, per CSS Color 4
+    return toHex(...oklchToRgb(parseChannel(parts[0], 1), parseChannel(parts[1], 0.4), parseFloat(parts[2])))
+  }
+  const isHsl = fn ? fn[1].startsWith('hsl') : parts[1].endsWith('%') && parts[2].endsWith('%')
+  if (isHsl) {
+    return toHex(...hslToRgb(parseFloat(parts[0]), parseChannel(parts[1], 1), parseChannel(parts[2], 1)))
+  }
+  return toHex(parseChannel(parts[0], 255), parseChannel(parts[1], 255), parseChannel(parts[2], 255))
+}
+
+const titleCase = (name: string) => name.replace(/[-_.]+/g, ' ').replace(/\b\w/g, char => char.toUpperCase()).trim()
+
+// Collects colors into families by group path, in first-seen order
+const createCollector = () => {
+  const families = new Map<string, PaletteFamily>()
+  const warnings: string[] = []
+  let count = 0
+
+  return {
+    warnings,
+    add: (group: string[], leaf: string, raw: string) => {
+      const hex = parseCssColor(raw)
+      if (!hex) {
+        warnings.push(`Skipped ${[...group, leaf].join('.')}: "${raw}" is not a supported color`)
+        return
+      }
+      if (count >= MAX_COLORS) {
+        if (count === MAX_COLORS) warnings.push(`Only the first ${MAX_COLORS} colors were imported`)
+        count++
+        return
+      }
+      count++
+      const familyName = group.length > 0 ? titleCase(group.join(' ')) : 'Colors'
+      const family = families.get(familyName) ?? { name: familyName, colors: [] }
+      families.set(familyName, family)
+      // Tailwind's DEFAULT is the family's base color
+      const name = leaf === 'DEFAULT' || leaf === '' ? familyName : group.length > 0 ? `${familyName} ${titleCase(leaf)}` : titleCase(leaf)
+      family.colors.push(createColor(hex, name))
+    },
+    families: () => Array.from(families.values())
+  }
+}
+
+const finish = (name: string, collector: ReturnType<typeof createCollector>): PaletteImportResult => {
+  const families = collector.families()
+  if (families.length === 0) {
+    return { ok: false, errors: ['No colors found', ...collector.warnings.slice(0, 10)] }
+  }
+  return { ok: true, palette: { id: createPaletteId(), name, families }, warnings: collector.warnings }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Design tokens and plain nested color objects. Leaves are strings or token objects; {a.b.c}
+// references are resolved against the other tokens.
+const parseTokens = (name: string, root: unknown): PaletteImportResult => {
+  const tokens: { path: string[]; value: string }[] = []
+
+  const walk = (node: unknown, path: string[], inheritedType?: unknown) => {
+    if (typeof node === 'string') {
+      tokens.push({ path, value: node })
+    } else if (Array.isArray(node)) {
+      node.forEach((child, i) => walk(child, [...path, String(i + 1)], inheritedType))
+    } else if (isRecord(node)) {
+      const type = node.$type ?? node.type ?? inheritedType
+      const value = '$value' in node ? node.$value : typeof node.value === 'string' ? node.value : undefined
+      if (value !== undefined) {
+        if (typeof value === 'string' && (type === undefined || type === 'color')) tokens.push({ path, value })
+        return
+      }
+      for (const [key, child] of Object.entries(node)) {
+        if (!key.startsWith('$')) walk(child, [...path, key], type)
+      }
+    }
+  }
+  walk(root, [])
+
+  const byPath = new Map(tokens.map(token => [token.path.join('.'), token.value]))
+  const resolve = (value: string, depth = 0): string => {
+    const alias = /^\{(.+)\}$/.exec(value.trim())
+    if (!alias || depth > 10) return value
+    return resolve(byPath.get(alias[1]) ?? value, depth + 1)
+  }
+
+  // Token files often wrap everything in a "color" group; it says nothing about the family
+  const collector = createCollector()
+  for (const { path, value } of tokens) {
+    const group = path.slice(0, -1).filter((segment, i) => !(i === 0 && /^colou?rs?$/i.test(segment)))
+    collector.add(group, path[path.length - 1] ?? '', resolve(value))
+  }
+  return finish(name, collector)
+}
+
+// This app's own export format; names are kept as they were saved
+const parseNativePalette = (name: string, doc: Record<string, unknown>): PaletteImportResult => {
+  const families: PaletteFamily[] = []
+  const warnings: string[] = []
+  for (const family of Array.isArray(doc.families) ? doc.families : []) {
+    if (!isRecord(family) || !Array.isArray(family.colors)) continue
+    const familyName = typeof family.name === 'string' && family.name ? family.name : 'Colors'
+    const colors = family.colors.flatMap(color => {
+      const hex = isRecord(color) && typeof color.hex === 'string' ? parseCssColor(color.hex) : null
+      if (!hex) {
+        warnings.push(`Skipped an invalid color in ${familyName}`)
+        return []
+      }
+      return [createColor(hex, typeof color.name === 'string' && color.name ? color.name : hex)]
+    })
+    if (colors.length > 0) families.push({ name: familyName, colors })
+  }
+  if (families.length === 0) return { ok: false, errors: ['No colors found', ...warnings.slice(0, 10)] }
+  const paletteName = typeof doc.name === 'string' && doc.name ? doc.name : name
+  return { ok: true, palette: { id: createPaletteId(), name: paletteName, families }, warnings }
+}
+
+const parseCssVariables = (name: string, text: string): PaletteImportResult => {
+  const variables = new Map<string, string>()
+  for (const match of Array.from(text.matchAll(/--([\w-]+)\s*:\s*([^;{}]+)/g))) {
+    variables.set(match[1], match[2].trim())
+  }
+  const resolve = (value: string, depth = 0): string => {
+    const reference = /^var\(\s*--([\w-]+)\s*(?:,[^)]*)?\)$/.exec(value)
+    if (!reference || depth > 10) return value
+    return resolve(variables.get(reference[1]) ?? value, depth + 1)
+  }
+
+  const collector = createCollector()
+  for (const [variable, raw] of Array.from(variables.entries())) {
+    const value = resolve(raw)
+    // Only variables that hold colors; spacing, fonts etc. are skipped quietly
+    if (!parseCssColor(value)) continue
+    const parts = variable.replace(/^(colou?rs?|clr)-/, '').split('-')
+    const leaf = parts[parts.length - 1]
+    if (parts.length > 1 && /^\d+$/.test(leaf)) collector.add(parts.slice(0, -1), leaf, value)
+    else collector.add([], parts.join('-'), value)
+  }
+  return finish(name, collector)
+}
+
+// Reads object literals out of JavaScript source without running it: nested objects and string
+// values are kept, anything else (spreads, function calls, imports) is skipped.
+const parseObjectLiteral = (source: string, start: number): { value: Record<string, unknown>; end: number } => {
+  let i = start
+
+  const skipSpace = () => {
+    while (i < source.length) {
+      if (/\s/.test(source[i])) i++
+      else if (source.startsWith('//', i)) i = source.indexOf('\n', i) === -1 ? source.length : source.indexOf('\n', i)
+      else if (source.startsWith('/*', i)) i = source.indexOf('*/', i) === -1 ? source.length : source.indexOf('*/', i) + 2
+      else break
+    }
+  }
+
+  const readString = () => {
+    const quote = source[i++]
+    let result = ''
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === '\\') i++
+      result += source[i++]
+    }
+    i++
+    return result
+  }
+
+  // Skips an unsupported expression up to the next top-level , or }. A stray ) or ] closes
+  // nothing, so it is skipped as part of the expression.
+  const skipExpression = () => {
+    let depth = 0
+    while (i < source.length) {
+      const char = source[i]
+      if (char === '"' || char === "'" || char === '`') readString()
+      else if ('([{'.includes(char)) {
+        depth++
+        i++
+      } else if (')]}'.includes(char)) {
+        if (depth === 0 && char === '}') return
+        depth = Math.max(0, depth - 1)
+        i++
+      } else if (char === ',' && depth === 0) return
+      else i++
+    }
+  }
+
+  const readObject = (): Record<string, unknown> => {
+    const result: Record<string, unknown> = {}
+    i++ // {
+    for (;;) {
+      const entryStart = i
+      skipSpace()
+      if (i >= source.length || source[i] === '}') {
+        i++
+        return result
+      }
+      let key: string | null = null
+      if (source[i] === '"' || source[i] === "'") key = readString()
+      else {
+        const match = /^[\w$]+/.exec(source.slice(i, i + 200))
+        if (match) {
+          key = match[0]
+          i += key.length
+        }
+      }
+      skipSpace()
+      if (key !== null && source[i] === ':') {
+        i++
+        skipSpace()
+        const char = source[i]
+        if (char === '{') result[key] = readObject()
+        else if ((char === '"' || char === "'" || char === '`') && !source.slice(i, source.indexOf(char, i + 1)).includes('${')) {
+          const value = readString()
+          skipSpace()
+          // A string followed by more expression (e.g. concatenation) is not a plain value
+          if (source[i] === ',' || source[i] === '}') result[key] = value
+          else skipExpression()
+        } else skipExpression()
+      } else skipExpression()
+      skipSpace()
+      if (source[i] === ',') i++
+      // Every entry has to consume something; otherwise the source is not an object literal we understand
+      if (i === entryStart) throw new Error(`Unexpected "${source[i]}" at character ${i}`)
+    }
+  }
+
+  const value = readObject()
+  return { value, end: i }
+}
+
+const parseTailwindConfig = (name: string, text: string): PaletteImportResult => {
+  const colors: Record<string, unknown> = {}
+  const pattern = /\bcolors\s*:\s*\{/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text))) {
+    try {
+      const { value, end } = parseObjectLiteral(text, match.index + match[0].length - 1)
+      Object.assign(colors, value)
+      pattern.lastIndex = end
+    } catch (error) {
+      return { ok: false, errors: [`Could not read the \`colors\` object: ${(error as Error).message}`] }
+    }
+  }
+  if (Object.keys(colors).length === 0) {
+    return { ok: false, errors: ['No `colors` object found in the Tailwind config'] }
+  }
+  return parseTokens(name, colors)
+}
+
+// GIMP palette: "R G B name" lines after a header
+const parseGpl = (fallbackName: string, text: string): PaletteImportResult => {
+  let name = fallbackName
+  const collector = createCollector()
+  for (const line of text.split(/\r?\n/)) {
+    const header = /^Name:\s*(.+)$/.exec(line)
+    if (header) {
+      name = header[1].trim()
+      continue
+    }
+    const entry = /^\s*(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/.exec(line)
+    if (!entry) continue
+    const hex = toHex(Number(entry[1]), Number(entry[2]), Number(entry[3]))
+    collector.add([], entry[4].trim() || hex, hex)
+  }
+  return finish(name, collector)
+}
+
+// Adobe Swatch Exchange: big-endian blocks of group starts/ends and color entries
+const parseAse = (name: string, bytes: Uint8Array): PaletteImportResult => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  if (bytes.length < 12 || String.fromCharCode(...Array.from(bytes.subarray(0, 4))) !== 'ASEF') {
+    return { ok: false, errors: ['Not an Adobe Swatch Exchange file'] }
+  }
+
+  const readName = (offset: number) => {
+    const length = view.getUint16(offset)
+    let text = ''
+    for (let i = 0; i < length; i++) {
+      const code = view.getUint16(offset + 2 + i * 2)
+      if (code !== 0) text += String.fromCharCode(code)
+    }
+    return { text, next: offset + 2 + length * 2 }
+  }
+
+  const collector = createCollector()
+  let group: string[] = []
+  const blockCount = view.getUint32(8)
+  let offset = 12
+  try {
+    for (let block = 0; block < blockCount && offset + 6 <= bytes.length; block++) {
+      const type = view.getUint16(offset)
+      const length = view.getUint32(offset + 2)
+      const body = offset + 6
+      if (type === 0xc001) {
+        group = [readName(body).text]
+      } else if (type === 0xc002) {
+        group = []
+      } else if (type === 0x0001) {
+        const { text, next } = readName(body)
+        const model = String.fromCharCode(...Array.from(bytes.subarray(next, next + 4))).trim()
+        const value = (index: number) => view.getFloat32(next + 4 + index * 4)
+        let hex: string | null = null
+        if (model === 'RGB') hex = toHex(value(0) * 255, value(1) * 255, value(2) * 255)
+        else if (model === 'Gray') hex = toHex(value(0) * 255, value(0) * 255, value(0) * 255)
+        else if (model === 'CMYK') {
+          const k = value(3)
+          hex = toHex(255 * (1 - value(0)) * (1 - k), 255 * (1 - value(1)) * (1 - k), 255 * (1 - value(2)) * (1 - k))
+        } else if (model === 'LAB') hex = toHex(...labD50ToRgb([value(0) * 100, value(1), value(2)]))
+
+        if (hex) collector.add(group, text || hex, hex)
+        else collector.warnings.push(`Skipped ${text || 'a color'}: unsupported color model ${model}`)
+      }
+      offset = body + length
+    }
+  } catch {
+    collector.warnings.push('The swatch file ends early; imported the colors before that point')
+  }
+  return finish(name, collector)
+}
+
+export const importPalette = (fileName: string, bytes: Uint8Array): PaletteImportResult => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? ''
+  const name = titleCase(fileName.replace(/\.[^.]+$/, '')) || 'Imported palette'
+
+  if (extension === 'ase' || String.fromCharCode(...Array.from(bytes.subarray(0, 4))) === 'ASEF') {
+    return parseAse(name, bytes)
+  }
+
+  const text = new TextDecoder().decode(bytes)
+  if (extension === 'gpl' || text.startsWith('GIMP Palette')) return parseGpl(name, text)
+
+  if (extension === 'json' || /^\s*[[{]/.test(text)) {
+    let doc: unknown
+    try {
+      doc = JSON.parse(text)
+    } catch {
+      return { ok: false, errors: ['File is not valid JSON'] }
+    }
+    if (isRecord(doc) && Array.isArray(doc.families)) return parseNativePalette(name, doc)
+    return parseTokens(name, doc)
+  }
+
+  if (['js', 'cjs', 'mjs', 'ts'].includes(extension) || /\bcolors\s*:\s*\{/.test(text)) return parseTailwindConfig(name, text)
+  if (/--[\w-]+\s*:/.test(text)) return parseCssVariables(name, text)
+
+  return { ok: false, errors: ['Unrecognized palette format. Use JSON, design tokens, CSS variables, a Tailwind config, .gpl or .ase'] }
+}
+
+// The format parseNativePalette reads back
+export const serializePalette = (palette: Palette): string => {
+  return JSON.stringify({
+    name: palette.name,
+    families: palette.families.map(family => ({
+      name: family.name,
+      colors: family.colors.map(({ name, hex }) => ({ name, hex }))
+    }))
+  }, null, 2)
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_PALETTE, Palette, createColor, loadPalettes, savePalettes } from './palette'
+
+const STORAGE_KEY = 'background-generator:palettes'
+
+const custom: Palette = { id: 'sub', name: 'Sub-brand', families: [{ name: 'Teal', colors: [createColor('#139A8F', 'Teal 500')] }] }
+
+describe('loadPalettes', () => {
+  let store: Map<string, string>
+
+  beforeEach(() => {
+    store = new Map()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value)
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const stored = (value: unknown) => store.set(STORAGE_KEY, JSON.stringify(value))
+
+  it('starts with the built-in palette', () => {
+    expect(loadPalettes()).toEqual({ palettes: [DEFAULT_PALETTE], activeId: DEFAULT_PALETTE.id })
+  })
+
+  it('reads back what was saved', () => {
+    savePalettes({ palettes: [DEFAULT_PALETTE, custom], activeId: 'sub' })
+    expect(loadPalettes()).toEqual({ palettes: [DEFAULT_PALETTE, custom], activeId: 'sub' })
+  })
+
+  it.each([
+    ['colors that are not a list', { ...custom, families: [{ name: 'Teal', colors: '#139A8F' }] }],
+    ['a color that is not hex', { ...custom, families: [{ name: 'Teal', colors: [{ name: 'Teal', hex: 'teal' }] }] }],
+    ['no families', { ...custom, families: [] }],
+    ['no id', { ...custom, id: undefined }],
+    ['the id of the built-in palette', { ...custom, id: DEFAULT_PALETTE.id }],
+    ['a built-in flag', { ...custom, builtIn: true }],
+    ['not being an object', 'sub']
+  ])('drops a palette with %s and keeps the others', (_, bad) => {
+    stored({ palettes: [bad, custom], activeId: 'sub' })
+    expect(loadPalettes()).toEqual({ palettes: [DEFAULT_PALETTE, custom], activeId: 'sub' })
+  })
+
+  it('falls back to the built-in palette when the active one is gone', () => {
+    stored({ palettes: [{ ...custom, families: null }], activeId: 'sub' })
+    expect(loadPalettes()).toEqual({ palettes: [DEFAULT_PALETTE], activeId: DEFAULT_PALETTE.id })
+  })
+
+  it('ignores storage that is not JSON', () => {
+    store.set(STORAGE_KEY, '{')
+    expect(loadPalettes().palettes).toEqual([DEFAULT_PALETTE])
+  })
+})
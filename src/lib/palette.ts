@@ -0,0 +1,184 @@
+// Palettes as data: named families of named colors. The built-in brand palette is derived from
+// the brandColors table; sub-brands import or build their own and switch between them. Every
+// place that draws colors (seeded palettes, the color picker, moods, image matching, variations)
+// takes the active palette instead of reading a fixed table.
+
+import { Color, brandColors, hexToRgb } from '@/utils/colors'
+import { RandomFn, shuffle } from '@/utils/random'
+import { deltaE2000, rgbToHsl, rgbToLab } from './color-space'
+
+export interface PaletteFamily {
+  name: string
+  colors: Color[]
+}
+
+export interface Palette {
+  id: string
+  name: string
+  families: PaletteFamily[]
+  // Built-in palettes can be duplicated but not edited or deleted
+  builtIn?: boolean
+}
+
+const capitalize = (name: string) => name.charAt(0).toUpperCase() + name.slice(1)
+
+export const createColor = (hex: string, name: string): Color => {
+  const normalized = `#${hex.replace('#', '').toUpperCase()}`
+  return { name, hex: normalized, rgb: hexToRgb(normalized) }
+}
+
+// Shade tables like brandColors or Tailwind's: { red: { 100: '#...', ... }, ... }
+export const paletteFromShadeTable = (id: string, name: string, table: Record<string, Record<string, string>>): Palette => ({
+  id,
+  name,
+  families: Object.entries(table).map(([family, shades]) => ({
+    name: capitalize(family),
+    colors: Object.entries(shades).map(([shade, hex]) => createColor(hex, `${capitalize(family)} ${shade}`))
+  }))
+})
+
+export const DEFAULT_PALETTE: Palette = { ...paletteFromShadeTable('brand', 'Brand', brandColors), builtIn: true }
+
+export const paletteColors = (palette: Palette): Color[] => palette.families.flatMap(family => family.colors)
+
+export const findPaletteColor = (palette: Palette, hex: string): Color | undefined => {
+  const normalized = hex.toUpperCase()
+  return paletteColors(palette).find(color => color.hex.toUpperCase() === normalized)
+}
+
+export const findPaletteFamily = (palette: Palette, name: string): PaletteFamily | undefined => {
+  const normalized = name.toLowerCase()
+  return palette.families.find(family => family.name.toLowerCase() === normalized)
+}
+
+// The trailing number of names like "Blue 500", if every color in the family has one
+const numericShades = (family: PaletteFamily): number[] | null => {
+  const shades = family.colors.map(color => Number(/(\d+)$/.exec(color.name)?.[1]))
+  return shades.length > 0 && shades.every(Number.isFinite) ? shades : null
+}
+
+const lightness = (rgb: [number, number, number]) => rgbToHsl(rgb)[2]
+
+// Colors in the middle of the family's range, which read best in gradients: shades 400-600 of
+// numbered families (as the brand palette always used), otherwise by lightness
+export const familyMidTones = (family: PaletteFamily): Color[] => {
+  const shades = numericShades(family)
+  if (shades) {
+    const mid = family.colors.filter((_, i) => shades[i] >= 400 && shades[i] <= 600)
+    if (mid.length > 0) return mid
+  }
+  const mid = family.colors.filter(color => lightness(color.rgb) >= 0.3 && lightness(color.rgb) <= 0.75)
+  return mid.length > 0 ? mid : family.colors
+}
+
+// Shades of a family in the given range (e.g. 300-600); families without numbered shades fall
+// back to their mid-tones
+export const familyShades = (family: PaletteFamily, min: number, max: number): Color[] => {
+  const shades = numericShades(family)
+  if (!shades) return familyMidTones(family)
+  const selected = family.colors.filter((_, i) => shades[i] >= min && shades[i] <= max)
+  return selected.length > 0 ? selected : familyMidTones(family)
+}
+
+export const paletteMidTones = (palette: Palette): Color[] => palette.families.flatMap(familyMidTones)
+
+export const randomMidToneColors = (palette: Palette, count: number = 3, random: RandomFn = Math.random): Color[] => {
+  return shuffle(paletteMidTones(palette), random).slice(0, count)
+}
+
+export interface PaletteMatch {
+  color: Color
+  // CIEDE2000 distance from the requested color; 0 for exact palette colors
+  deltaE: number
+}
+
+// The perceptually closest palette color (CIEDE2000), for image matching and for snapping
+// off-palette picks in strict brand mode
+export const snapToPalette = (palette: Palette, rgb: [number, number, number]): PaletteMatch => {
+  const lab = rgbToLab(rgb)
+  let match: PaletteMatch = { color: paletteColors(palette)[0], deltaE: Infinity }
+  for (const color of paletteColors(palette)) {
+    const deltaE = deltaE2000(lab, rgbToLab(color.rgb))
+    if (deltaE < match.deltaE) match = { color, deltaE }
+  }
+  return match
+}
+
+export const nearestPaletteColor = (palette: Palette, rgb: [number, number, number]): Color => snapToPalette(palette, rgb).color
+
+// The colors next to `color` in its family, one step lighter and darker
+export const neighborShades = (palette: Palette, color: Color): Color[] => {
+  for (const family of palette.families) {
+    const index = family.colors.findIndex(entry => entry.hex.toUpperCase() === color.hex.toUpperCase())
+    if (index === -1) continue
+    return [family.colors[index - 1], family.colors[index + 1]].filter((entry): entry is Color => entry !== undefined)
+  }
+  return []
+}
+
+const STORAGE_KEY = 'background-generator:palettes'
+
+export interface StoredPalettes {
+  palettes: Palette[]
+  activeId: string
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const HEX_PATTERN = /^#[0-9a-f]{6}$/i
+
+// Stored data can be hand-edited or written by an older version, so every field is checked;
+// returns null for anything the editor and renderer could not use as it is
+const readStoredPalette = (value: unknown): Palette | null => {
+  if (!isRecord(value) || value.builtIn) return null
+  if (typeof value.id !== 'string' || !value.id || typeof value.name !== 'string') return null
+  if (!Array.isArray(value.families) || value.families.length === 0) return null
+  const families: PaletteFamily[] = []
+  for (const family of value.families) {
+    if (!isRecord(family) || typeof family.name !== 'string' || !Array.isArray(family.colors) || family.colors.length === 0) return null
+    const colors: Color[] = []
+    for (const color of family.colors) {
+      if (!isRecord(color) || typeof color.hex !== 'string' || !HEX_PATTERN.test(color.hex) || typeof color.name !== 'string') return null
+      colors.push(createColor(color.hex, color.name))
+    }
+    families.push({ name: family.name, colors })
+  }
+  return { id: value.id, name: value.name, families }
+}
+
+// Palettes are small, so they live in localStorage and are available synchronously on load.
+// Entries that don't validate are dropped; the rest still load.
+export const loadPalettes = (): StoredPalettes => {
+  const fallback = { palettes: [DEFAULT_PALETTE], activeId: DEFAULT_PALETTE.id }
+  if (typeof localStorage === 'undefined') return fallback
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null')
+    if (!isRecord(stored) || !Array.isArray(stored.palettes)) return fallback
+    const ids = new Set([DEFAULT_PALETTE.id])
+    const custom = stored.palettes.flatMap((entry, i) => {
+      const palette = readStoredPalette(entry)
+      if (!palette || ids.has(palette.id)) {
+        console.warn(`Ignoring unreadable saved palette #${i + 1}`)
+        return []
+      }
+      ids.add(palette.id)
+      return [palette]
+    })
+    const palettes = [DEFAULT_PALETTE, ...custom]
+    const activeId = typeof stored.activeId === 'string' && ids.has(stored.activeId) ? stored.activeId : DEFAULT_PALETTE.id
+    return { palettes, activeId }
+  } catch (error) {
+    console.warn('Ignoring unreadable saved palettes:', error)
+    return fallback
+  }
+}
+
+export const savePalettes = ({ palettes, activeId }: StoredPalettes) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ palettes: palettes.filter(palette => !palette.builtIn), activeId }))
+  } catch (error) {
+    console.error('Saving palettes failed:', error)
+  }
+}
+
+export const createPaletteId = () => `palette-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_RECIPE,
+  MAX_LAYERS,
+  MAX_RECIPE_COLORS,
+  RECIPE_VERSION,
+  migrateRecipe,
+  parseRecipe,
+  parseRecipeJSON,
+  recipeFromSeed,
+  serializeRecipe
+} from './recipe'
+
+const parsed = (input: unknown) => {
+  const result = parseRecipe(input)
+  if (!result.ok) throw new Error(`Expected a valid recipe, got: ${result.errors.join('; ')}`)
+  return result
+}
+
+const blob = (fields: Record<string, unknown> = {}) => ({ color: '#FF0000', x: 0.5, y: 0.5, radius: 0.3, intensity: 0.8, ...fields })
+
+describe('migrateRecipe', () => {
+  it('upgrades the flat version 0 shape step by step to the current version', () => {
+    const doc = migrateRecipe({
+      gradientStyle: 'radial',
+      overlayEnabled: true,
+      overlayType: 'noise',
+      overlayIntensity: 0.4,
+      rippleEnabled: false,
+      rippleFrequencyX: 0.02
+    })
+    expect(doc.version).toBe(RECIPE_VERSION)
+    expect(doc.overlay).toEqual({ enabled: true, type: 'noise', intensity: 0.4 })
+    expect(doc.ripple).toMatchObject({ enabled: false, frequencyX: 0.02 })
+    expect(doc.layers).toEqual([{ id: 'base', style: 'radial' }])
+    expect(doc).not.toHaveProperty('gradientStyle')
+    expect(doc).not.toHaveProperty('overlayEnabled')
+  })
+
+  it('leaves current documents alone', () => {
+    const doc = { version: RECIPE_VERSION, layers: [{ id: 'a', style: 'linear' }] }
+    expect(migrateRecipe(doc)).toBe(doc)
+  })
+})
+
+describe('parseRecipe', () => {
+  it('fills a missing document with the defaults', () => {
+    const { recipe, warnings } = parsed({ version: RECIPE_VERSION })
+    expect(recipe).toEqual(DEFAULT_RECIPE)
+    expect(warnings).toEqual([])
+  })
+
+  it('reads a version 1 gradient style as the base layer', () => {
+    const { recipe } = parsed({ version: 1, gradientStyle: 'sunburst' })
+    expect(recipe.layers).toHaveLength(1)
+    expect(recipe.layers[0]).toMatchObject({ id: 'base', style: 'sunburst', opacity: 1, blendMode: 'normal' })
+  })
+
+  it('rejects documents from a newer app and non-objects', () => {
+    expect(parseRecipe({ version: RECIPE_VERSION + 1 }).ok).toBe(false)
+    expect(parseRecipe(null).ok).toBe(false)
+    expect(parseRecipe([]).ok).toBe(false)
+  })
+
+  it('clamps numbers outside their range with a warning', () => {
+    const { recipe, warnings } = parsed({ version: RECIPE_VERSION, zoomLevel: 50 })
+    expect(recipe.zoomLevel).toBe(3)
+    expect(warnings).toHaveLength(1)
+  })
+
+  it('reports wrong types as errors', () => {
+    const result = parseRecipe({ version: RECIPE_VERSION, zoomLevel: 'big', colors: ['nope'] })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.errors).toContain('zoomLevel must be a number')
+      expect(result.errors).toContain('colors[0] must be a 6-digit hex color')
+    }
+  })
+
+  it(`keeps at most ${MAX_RECIPE_COLORS} colors and ${MAX_LAYERS} layers`, () => {
+    const { recipe, warnings } = parsed({
+      version: RECIPE_VERSION,
+      colors: Array.from({ length: MAX_RECIPE_COLORS + 2 }, () => '#123456'),
+      layers: Array.from({ length: MAX_LAYERS + 1 }, (_, i) => ({ id: `l${i}`, style: 'linear' }))
+    })
+    expect(recipe.colors).toHaveLength(MAX_RECIPE_COLORS)
+    expect(recipe.layers).toHaveLength(MAX_LAYERS)
+    expect(warnings).toHaveLength(2)
+  })
+
+  it('replaces missing and repeated layer ids', () => {
+    const { recipe } = parsed({ version: RECIPE_VERSION, layers: [{ id: 'a' }, { id: 'a' }, {}] })
+    expect(new Set(recipe.layers.map(layer => layer.id)).size).toBe(3)
+    expect(recipe.layers[0].id).toBe('a')
+  })
+
+  it('accepts color blobs inside their ranges', () => {
+    const { recipe } = parsed({ version: RECIPE_VERSION, colorBlobs: [blob(), blob({ x: 0, y: 1, radius: 1, intensity: 0 })] })
+    expect(recipe.colorBlobs).toHaveLength(2)
+    expect(recipe.colorBlobs[0]).toMatchObject({ x: 0.5, y: 0.5, radius: 0.3, intensity: 0.8 })
+  })
+
+  it.each([
+    ['a negative radius', { radius: -0.2 }],
+    ['a zero radius', { radius: 0 }],
+    ['an intensity above 1', { intensity: 1.5 }],
+    ['a position off the canvas', { x: 2 }],
+    ['a missing field', { y: undefined }],
+    ['a string', { radius: '0.3' }]
+  ])('rejects a color blob with %s', (_, fields) => {
+    const result = parseRecipe({ version: RECIPE_VERSION, colorBlobs: [blob(fields)] })
+    expect(result.ok).toBe(false)
+  })
+
+  it('rejects non-finite blob values that JSON cannot carry but objects can', () => {
+    expect(parseRecipe({ version: RECIPE_VERSION, colorBlobs: [blob({ radius: Infinity })] }).ok).toBe(false)
+    expect(parseRecipe({ version: RECIPE_VERSION, colorBlobs: [blob({ x: NaN })] }).ok).toBe(false)
+  })
+})
+
+describe('serializeRecipe', () => {
+  it('round-trips through parseRecipeJSON', () => {
+    const recipe = { ...recipeFromSeed(42), colorBlobs: parsed({ version: RECIPE_VERSION, colorBlobs: [blob()] }).recipe.colorBlobs }
+    const result = parseRecipeJSON(serializeRecipe(recipe))
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.recipe).toEqual(recipe)
+      expect(result.warnings).toEqual([])
+    }
+  })
+
+  it('turns invalid JSON into an error rather than throwing', () => {
+    expect(parseRecipeJSON('{').ok).toBe(false)
+  })
+})
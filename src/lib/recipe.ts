@@ -0,0 +1,643 @@
+// Background recipe: one serializable document describing everything needed to re-render a background
+
+import { Color, hexToRgb } from '@/utils/colors'
+import { createStageRandom, normalizeSeed } from '@/utils/random'
+import { DEFAULT_PALETTE, Palette, findPaletteColor, randomMidToneColors } from './palette'
+import { Mood, getColorsByMood } from './moods'
+
+export const RECIPE_VERSION = 2
+
+export type GradientStyle = 'organic' | 'linear' | 'radial' | 'wave' | 'sunburst'
+export type OverlayType = 'glass' | 'horizontal-glitch' | 'vertical-glitch' | 'pattern' | 'noise'
+
+export const GRADIENT_STYLES: GradientStyle[] = ['organic', 'linear', 'radial', 'wave', 'sunburst']
+export const OVERLAY_TYPES: OverlayType[] = ['glass', 'horizontal-glitch', 'vertical-glitch', 'pattern', 'noise']
+
+// 'normal' paints over the layers below; the rest are the canvas blend modes of the same name
+export type LayerBlendMode =
+  | 'normal' | 'multiply' | 'screen' | 'overlay' | 'soft-light' | 'hard-light' | 'color-dodge' | 'color-burn'
+  | 'darken' | 'lighten' | 'difference' | 'exclusion' | 'hue' | 'saturation' | 'color' | 'luminosity'
+// Fades a layer out: 'radial' keeps the middle, 'vignette' keeps the edges, the sides keep that edge
+export type LayerMask = 'none' | 'radial' | 'vignette' | 'top' | 'bottom' | 'left' | 'right'
+
+export const LAYER_BLEND_MODES: LayerBlendMode[] = [
+  'normal', 'multiply', 'screen', 'overlay', 'soft-light', 'hard-light', 'color-dodge', 'color-burn',
+  'darken', 'lighten', 'difference', 'exclusion', 'hue', 'saturation', 'color', 'luminosity'
+]
+export const LAYER_MASKS: LayerMask[] = ['none', 'radial', 'vignette', 'top', 'bottom', 'left', 'right']
+
+export type TextAreaTreatment = 'none' | 'scrim' | 'soften'
+export type TextColor = 'white' | 'black'
+
+export const TEXT_AREA_TREATMENTS: TextAreaTreatment[] = ['none', 'scrim', 'soften']
+export const TEXT_COLORS: TextColor[] = ['white', 'black']
+
+export type FontFamily = 'sans' | 'serif' | 'mono' | 'display'
+export type TextAlign = 'left' | 'center' | 'right'
+export type LogoAnchor = 'top-left' | 'top' | 'top-right' | 'left' | 'center' | 'right' | 'bottom-left' | 'bottom' | 'bottom-right'
+
+export const FONT_FAMILIES: FontFamily[] = ['sans', 'serif', 'mono', 'display']
+export const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right']
+export const LOGO_ANCHORS: LogoAnchor[] = ['top-left', 'top', 'top-right', 'left', 'center', 'right', 'bottom-left', 'bottom', 'bottom-right']
+
+export interface ColorBlob {
+  color: Color
+  x: number // 0-1 normalized position
+  y: number // 0-1 normalized position
+  radius: number // 0-1 normalized size
+  intensity: number
+}
+
+export interface OverlaySettings {
+  enabled: boolean
+  type: OverlayType
+  intensity: number
+}
+
+export interface RippleSettings {
+  enabled: boolean
+  frequencyX: number
+  frequencyY: number
+  amplitudeX: number
+  amplitudeY: number
+}
+
+export interface LayerTransform {
+  // Offset from the center as fractions of the image size
+  x: number
+  y: number
+  scale: number
+  // Degrees, clockwise
+  rotation: number
+}
+
+// One gradient in the composition. Layers are listed bottom first; each paints its style with
+// its own subset of the recipe colors, then is masked and blended onto the layers below.
+export interface GradientLayer {
+  id: string
+  style: GradientStyle
+  visible: boolean
+  // Indexes into the recipe colors; empty uses all of them
+  colors: number[]
+  opacity: number
+  blendMode: LayerBlendMode
+  mask: LayerMask
+  transform: LayerTransform
+}
+
+// Where text will sit on the finished image, and what the render does there to keep it legible:
+// a scrim tints the area toward the opposite of the text color, soften mutes its colors
+export interface TextAreaSettings {
+  enabled: boolean
+  // 0-1 fractions of the image
+  x: number
+  y: number
+  width: number
+  height: number
+  treatment: TextAreaTreatment
+  amount: number
+  textColor: TextColor
+}
+
+export interface TextLayerSettings {
+  text: string
+  font: FontFamily
+  weight: number
+  // Font size as a fraction of the image's short side
+  size: number
+  color: string
+}
+
+export interface LogoSettings {
+  // Data URL of the uploaded SVG or PNG; null when there is no logo
+  src: string | null
+  anchor: LogoAnchor
+  // Longest side, and the distance kept from the edges, as fractions of the image's short side
+  size: number
+  margin: number
+}
+
+// Foreground drawn over the finished background: a headline and subtitle set inside the text
+// safe area, and a logo pinned to an anchor
+export interface ForegroundSettings {
+  enabled: boolean
+  headline: TextLayerSettings
+  subtitle: TextLayerSettings
+  align: TextAlign
+  logo: LogoSettings
+}
+
+export interface BackgroundRecipe {
+  version: number
+  seed: number
+  colors: Color[]
+  layers: GradientLayer[]
+  gradientIntensity: number
+  gradientDensity: number
+  zoomLevel: number
+  noiseIntensity: number
+  posterizeSteps: number
+  aspectRatio: string
+  isAnimated: boolean
+  animationSpeed: number
+  // Seconds before an animation repeats; exports render exactly one loop
+  loopDuration: number
+  overlay: OverlaySettings
+  ripple: RippleSettings
+  textArea: TextAreaSettings
+  foreground: ForegroundSettings
+  colorBlobs: ColorBlob[]
+}
+
+export const DEFAULT_LAYER: GradientLayer = {
+  id: 'base',
+  style: 'organic',
+  visible: true,
+  colors: [],
+  opacity: 1,
+  blendMode: 'normal',
+  mask: 'none',
+  transform: { x: 0, y: 0, scale: 1, rotation: 0 }
+}
+
+export const MAX_LAYERS = 6
+
+export const DEFAULT_RECIPE: BackgroundRecipe = {
+  version: RECIPE_VERSION,
+  seed: 0,
+  colors: [
+    { name: 'Blue 500', hex: '#3B82F6', rgb: [59, 130, 246] },
+    { name: 'Green 500', hex: '#10B981', rgb: [16, 185, 129] },
+    { name: 'Purple 500', hex: '#8B5CF6', rgb: [139, 92, 246] }
+  ],
+  layers: [DEFAULT_LAYER],
+  gradientIntensity: 0.8,
+  gradientDensity: 0.7,
+  zoomLevel: 1.0,
+  noiseIntensity: 0.15,
+  posterizeSteps: 8,
+  aspectRatio: '1:1',
+  isAnimated: false,
+  animationSpeed: 1.0,
+  loopDuration: 8,
+  overlay: {
+    enabled: false,
+    type: 'glass',
+    intensity: 0.5
+  },
+  ripple: {
+    enabled: false,
+    frequencyX: 0.02,
+    frequencyY: 0.015,
+    amplitudeX: 8,
+    amplitudeY: 12
+  },
+  textArea: {
+    enabled: false,
+    x: 0.06,
+    y: 0.3,
+    width: 0.5,
+    height: 0.4,
+    treatment: 'none',
+    amount: 0.35,
+    textColor: 'white'
+  },
+  foreground: {
+    enabled: false,
+    headline: { text: 'Your headline here', font: 'sans', weight: 700, size: 0.08, color: '#FFFFFF' },
+    subtitle: { text: '', font: 'sans', weight: 400, size: 0.035, color: '#FFFFFF' },
+    align: 'left',
+    logo: { src: null, anchor: 'bottom-right', size: 0.15, margin: 0.05 }
+  },
+  colorBlobs: []
+}
+
+// A fresh background for a seed: the colors are drawn from `palette` (within `mood`, if one is
+// chosen) with the seed's own stream, so the same seed, palette and mood always pick the same
+// colors. Other settings come from `base`.
+export const recipeFromSeed = (seed: number, base: BackgroundRecipe = DEFAULT_RECIPE, palette: Palette = DEFAULT_PALETTE, mood?: Mood): BackgroundRecipe => {
+  const random = createStageRandom(seed, 'palette')
+  return {
+    ...base,
+    seed: normalizeSeed(seed),
+    colors: mood ? getColorsByMood(palette, mood, random) : randomMidToneColors(palette, Math.floor(random() * 4) + 2, random),
+    colorBlobs: [] // Positioned blobs belong to the previous palette
+  }
+}
+
+// Valid ranges mirror the sliders in ControlsPanel
+export const NUMBER_RANGES: Record<string, [number, number]> = {
+  gradientIntensity: [0.1, 1.0],
+  gradientDensity: [0.2, 1.0],
+  zoomLevel: [0.2, 3.0],
+  noiseIntensity: [0, 0.5],
+  posterizeSteps: [2, 32],
+  animationSpeed: [0.2, 2.0],
+  loopDuration: [2, 30],
+  'overlay.intensity': [0, 1.0],
+  'ripple.frequencyX': [0.005, 0.08],
+  'ripple.frequencyY': [0.005, 0.08],
+  'ripple.amplitudeX': [1, 30],
+  'ripple.amplitudeY': [1, 30],
+  'textArea.x': [0, 1],
+  'textArea.y': [0, 1],
+  'textArea.width': [0.02, 1],
+  'textArea.height': [0.02, 1],
+  'textArea.amount': [0, 1],
+  'foreground.headline.weight': [100, 900],
+  'foreground.headline.size': [0.01, 0.3],
+  'foreground.subtitle.weight': [100, 900],
+  'foreground.subtitle.size': [0.01, 0.3],
+  'foreground.logo.size': [0.02, 1],
+  'foreground.logo.margin': [0, 0.25],
+  // Shared by every entry of `layers`
+  'layer.opacity': [0, 1],
+  'layer.transform.x': [-1, 1],
+  'layer.transform.y': [-1, 1],
+  'layer.transform.scale': [0.25, 4],
+  'layer.transform.rotation': [-180, 180],
+  // Shared by every entry of `colorBlobs`. The renderer can't draw a blob outside these, so
+  // they are rejected rather than clamped
+  'colorBlob.x': [0, 1],
+  'colorBlob.y': [0, 1],
+  'colorBlob.radius': [0.01, 1],
+  'colorBlob.intensity': [0, 1]
+}
+
+export const MAX_TEXT_LENGTH = 300
+
+// Logos travel inside the recipe, so only self-contained images are accepted
+const LOGO_SRC_PATTERN = /^data:image\/(png|jpeg|webp|svg\+xml)[;,]/
+
+export const MAX_RECIPE_COLORS = 6
+
+export type RecipeParseResult =
+  | { ok: true; recipe: BackgroundRecipe; warnings: string[] }
+  | { ok: false; errors: string[] }
+
+// Forward migrations: MIGRATIONS[n] upgrades a version n document to version n + 1
+// Unversioned documents are treated as version 0, the flat shape of the old page state
+type RecipeDocument = Record<string, unknown>
+
+const MIGRATIONS: Record<number, (doc: RecipeDocument) => RecipeDocument> = {
+  0: (doc) => {
+    const { overlayEnabled, overlayType, overlayIntensity, rippleEnabled, rippleFrequencyX, rippleFrequencyY, rippleAmplitudeX, rippleAmplitudeY, ...rest } = doc
+    return {
+      ...rest,
+      version: 1,
+      overlay: rest.overlay ?? { enabled: overlayEnabled, type: overlayType, intensity: overlayIntensity },
+      ripple: rest.ripple ?? {
+        enabled: rippleEnabled,
+        frequencyX: rippleFrequencyX,
+        frequencyY: rippleFrequencyY,
+        amplitudeX: rippleAmplitudeX,
+        amplitudeY: rippleAmplitudeY
+      }
+    }
+  },
+  // Version 1 had a single gradient style; it becomes the only layer of the stack
+  1: (doc) => {
+    const { gradientStyle, ...rest } = doc
+    return {
+      ...rest,
+      version: 2,
+      layers: rest.layers ?? (gradientStyle === undefined ? undefined : [{ id: DEFAULT_LAYER.id, style: gradientStyle }])
+    }
+  }
+}
+
+export const migrateRecipe = (doc: RecipeDocument): RecipeDocument => {
+  let current = doc
+  let version = typeof current.version === 'number' ? current.version : 0
+
+  while (version < RECIPE_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) {
+      throw new Error(`No migration from recipe version ${version}`)
+    }
+    current = migrate(current)
+    version = current.version as number
+  }
+
+  return current
+}
+
+const isRecord = (value: unknown): value is RecipeDocument => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const HEX_PATTERN = /^#?[0-9a-f]{6}$/i
+
+// Unnamed colors take their name from the palette when they are in it
+export const colorFromHex = (hex: string, name?: string, palette: Palette = DEFAULT_PALETTE): Color => {
+  const normalized = `#${hex.replace('#', '').toUpperCase()}`
+  const paletteColor = findPaletteColor(palette, normalized)
+  return {
+    name: name || paletteColor?.name || 'Custom',
+    hex: paletteColor?.hex ?? normalized,
+    rgb: hexToRgb(normalized)
+  }
+}
+
+const parseColor = (value: unknown, path: string, errors: string[]): Color | null => {
+  const hex = typeof value === 'string' ? value : isRecord(value) ? value.hex : undefined
+  if (typeof hex !== 'string' || !HEX_PATTERN.test(hex)) {
+    errors.push(`${path} must be a 6-digit hex color`)
+    return null
+  }
+  const name = isRecord(value) && typeof value.name === 'string' ? value.name : undefined
+  return colorFromHex(hex, name)
+}
+
+// Validate an untrusted document (imported file, pasted JSON, URL) into a complete recipe
+// Missing fields fall back to defaults; present-but-invalid fields are errors
+export const parseRecipe = (input: unknown): RecipeParseResult => {
+  if (!isRecord(input)) {
+    return { ok: false, errors: ['Recipe must be a JSON object'] }
+  }
+
+  const version = typeof input.version === 'number' ? input.version : 0
+  if (version > RECIPE_VERSION) {
+    return { ok: false, errors: [`Recipe version ${version} is newer than this app supports (${RECIPE_VERSION})`] }
+  }
+
+  let doc: RecipeDocument
+  try {
+    doc = migrateRecipe(input)
+  } catch (error) {
+    return { ok: false, errors: [(error as Error).message] }
+  }
+
+  const errors: string[] = []
+  const warnings: string[] = []
+
+  // `rangeKey` names the NUMBER_RANGES entry when it differs from the path, e.g. for array items
+  const readNumber = (value: unknown, path: string, fallback: number, rangeKey = path): number => {
+    if (value === undefined) return fallback
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path} must be a number`)
+      return fallback
+    }
+    const range = NUMBER_RANGES[rangeKey]
+    if (range && (value < range[0] || value > range[1])) {
+      warnings.push(`${path} ${value} is outside ${range[0]}-${range[1]} and was clamped`)
+      return Math.max(range[0], Math.min(range[1], value))
+    }
+    return value
+  }
+
+  // For required values with no sensible fallback: anything missing or out of range is an error
+  const requireNumber = (value: unknown, path: string, rangeKey: string): number | null => {
+    const [min, max] = NUMBER_RANGES[rangeKey]
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      errors.push(`${path} must be a number between ${min} and ${max}`)
+      return null
+    }
+    return value
+  }
+
+  const readBoolean = (value: unknown, path: string, fallback: boolean): boolean => {
+    if (value === undefined) return fallback
+    if (typeof value !== 'boolean') {
+      errors.push(`${path} must be true or false`)
+      return fallback
+    }
+    return value
+  }
+
+  const readEnum = <T extends string>(value: unknown, path: string, options: T[], fallback: T): T => {
+    if (value === undefined) return fallback
+    if (typeof value !== 'string' || !options.includes(value as T)) {
+      errors.push(`${path} must be one of ${options.join(', ')}`)
+      return fallback
+    }
+    return value as T
+  }
+
+  const readText = (value: unknown, path: string, fallback: string): string => {
+    if (value === undefined) return fallback
+    if (typeof value !== 'string') {
+      errors.push(`${path} must be a string`)
+      return fallback
+    }
+    if (value.length > MAX_TEXT_LENGTH) {
+      warnings.push(`${path} was cut to ${MAX_TEXT_LENGTH} characters`)
+      return value.slice(0, MAX_TEXT_LENGTH)
+    }
+    return value
+  }
+
+  const readHex = (value: unknown, path: string, fallback: string): string => {
+    if (value === undefined) return fallback
+    if (typeof value !== 'string' || !HEX_PATTERN.test(value)) {
+      errors.push(`${path} must be a 6-digit hex color`)
+      return fallback
+    }
+    return `#${value.replace('#', '').toUpperCase()}`
+  }
+
+  const readTextLayer = (value: unknown, path: string, fallback: TextLayerSettings): TextLayerSettings => {
+    const layer = isRecord(value) ? value : {}
+    return {
+      text: readText(layer.text, `${path}.text`, fallback.text),
+      font: readEnum(layer.font, `${path}.font`, FONT_FAMILIES, fallback.font),
+      weight: Math.round(readNumber(layer.weight, `${path}.weight`, fallback.weight) / 100) * 100,
+      size: readNumber(layer.size, `${path}.size`, fallback.size),
+      color: readHex(layer.color, `${path}.color`, fallback.color)
+    }
+  }
+
+  const readLogoSrc = (value: unknown): string | null => {
+    if (value === undefined || value === null) return null
+    if (typeof value !== 'string' || !LOGO_SRC_PATTERN.test(value)) {
+      errors.push('foreground.logo.src must be a PNG, JPEG, WebP or SVG data URL')
+      return null
+    }
+    return value
+  }
+
+  const readLayer = (value: RecipeDocument, path: string, id: string): GradientLayer => {
+    const transform = isRecord(value.transform) ? value.transform : {}
+    let colorIndexes = DEFAULT_LAYER.colors
+    if (value.colors !== undefined) {
+      if (!Array.isArray(value.colors) || value.colors.some(index => !Number.isInteger(index) || index < 0)) {
+        errors.push(`${path}.colors must be a list of color indexes`)
+      } else {
+        colorIndexes = Array.from(new Set(value.colors as number[]))
+      }
+    }
+    return {
+      id,
+      style: readEnum(value.style, `${path}.style`, GRADIENT_STYLES, DEFAULT_LAYER.style),
+      visible: readBoolean(value.visible, `${path}.visible`, DEFAULT_LAYER.visible),
+      colors: colorIndexes,
+      opacity: readNumber(value.opacity, `${path}.opacity`, DEFAULT_LAYER.opacity, 'layer.opacity'),
+      blendMode: readEnum(value.blendMode, `${path}.blendMode`, LAYER_BLEND_MODES, DEFAULT_LAYER.blendMode),
+      mask: readEnum(value.mask, `${path}.mask`, LAYER_MASKS, DEFAULT_LAYER.mask),
+      transform: {
+        x: readNumber(transform.x, `${path}.transform.x`, DEFAULT_LAYER.transform.x, 'layer.transform.x'),
+        y: readNumber(transform.y, `${path}.transform.y`, DEFAULT_LAYER.transform.y, 'layer.transform.y'),
+        scale: readNumber(transform.scale, `${path}.transform.scale`, DEFAULT_LAYER.transform.scale, 'layer.transform.scale'),
+        rotation: readNumber(transform.rotation, `${path}.transform.rotation`, DEFAULT_LAYER.transform.rotation, 'layer.transform.rotation')
+      }
+    }
+  }
+
+  const readAspectRatio = (value: unknown): string => {
+    if (value === undefined) return DEFAULT_RECIPE.aspectRatio
+    if (typeof value !== 'string' || !/^\d+(\.\d+)?:\d+(\.\d+)?$/.test(value)) {
+      errors.push('aspectRatio must look like "16:9"')
+      return DEFAULT_RECIPE.aspectRatio
+    }
+    const [w, h] = value.split(':').map(Number)
+    if (w <= 0 || h <= 0) {
+      errors.push('aspectRatio sides must be positive')
+      return DEFAULT_RECIPE.aspectRatio
+    }
+    return value
+  }
+
+  let colors = DEFAULT_RECIPE.colors
+  if (doc.colors !== undefined) {
+    if (!Array.isArray(doc.colors) || doc.colors.length === 0) {
+      errors.push('colors must be a non-empty array')
+    } else {
+      if (doc.colors.length > MAX_RECIPE_COLORS) {
+        warnings.push(`Only the first ${MAX_RECIPE_COLORS} colors were kept`)
+      }
+      colors = doc.colors
+        .slice(0, MAX_RECIPE_COLORS)
+        .map((value, i) => parseColor(value, `colors[${i}]`, errors))
+        .filter((color): color is Color => color !== null)
+    }
+  }
+
+  let layers = DEFAULT_RECIPE.layers
+  if (doc.layers !== undefined) {
+    if (!Array.isArray(doc.layers) || doc.layers.length === 0) {
+      errors.push('layers must be a non-empty array')
+    } else {
+      if (doc.layers.length > MAX_LAYERS) {
+        warnings.push(`Only the first ${MAX_LAYERS} layers were kept`)
+      }
+      const ids = new Set<string>()
+      layers = doc.layers.slice(0, MAX_LAYERS).flatMap((layer, i) => {
+        const path = `layers[${i}]`
+        if (!isRecord(layer)) {
+          errors.push(`${path} must be an object`)
+          return []
+        }
+        // Ids only tell layers apart in the editor, so missing or repeated ones are replaced
+        const id = typeof layer.id === 'string' && layer.id !== '' && !ids.has(layer.id) ? layer.id : `layer-${i}`
+        ids.add(id)
+        return [readLayer(layer, path, id)]
+      })
+    }
+  }
+
+  let colorBlobs: ColorBlob[] = []
+  if (doc.colorBlobs !== undefined) {
+    if (!Array.isArray(doc.colorBlobs)) {
+      errors.push('colorBlobs must be an array')
+    } else {
+      colorBlobs = doc.colorBlobs.flatMap((blob, i) => {
+        const path = `colorBlobs[${i}]`
+        if (!isRecord(blob)) {
+          errors.push(`${path} must be an object`)
+          return []
+        }
+        const color = parseColor(blob.color, `${path}.color`, errors)
+        const x = requireNumber(blob.x, `${path}.x`, 'colorBlob.x')
+        const y = requireNumber(blob.y, `${path}.y`, 'colorBlob.y')
+        const radius = requireNumber(blob.radius, `${path}.radius`, 'colorBlob.radius')
+        const intensity = requireNumber(blob.intensity, `${path}.intensity`, 'colorBlob.intensity')
+        if (!color || x === null || y === null || radius === null || intensity === null) return []
+        return [{ color, x, y, radius, intensity }]
+      })
+    }
+  }
+
+  const overlay = isRecord(doc.overlay) ? doc.overlay : {}
+  const ripple = isRecord(doc.ripple) ? doc.ripple : {}
+  const textArea = isRecord(doc.textArea) ? doc.textArea : {}
+  const foreground = isRecord(doc.foreground) ? doc.foreground : {}
+  const logo = isRecord(foreground.logo) ? foreground.logo : {}
+
+  const recipe: BackgroundRecipe = {
+    version: RECIPE_VERSION,
+    seed: normalizeSeed(readNumber(doc.seed, 'seed', DEFAULT_RECIPE.seed)),
+    colors,
+    layers,
+    gradientIntensity: readNumber(doc.gradientIntensity, 'gradientIntensity', DEFAULT_RECIPE.gradientIntensity),
+    gradientDensity: readNumber(doc.gradientDensity, 'gradientDensity', DEFAULT_RECIPE.gradientDensity),
+    zoomLevel: readNumber(doc.zoomLevel, 'zoomLevel', DEFAULT_RECIPE.zoomLevel),
+    noiseIntensity: readNumber(doc.noiseIntensity, 'noiseIntensity', DEFAULT_RECIPE.noiseIntensity),
+    posterizeSteps: readNumber(doc.posterizeSteps, 'posterizeSteps', DEFAULT_RECIPE.posterizeSteps),
+    aspectRatio: readAspectRatio(doc.aspectRatio),
+    isAnimated: readBoolean(doc.isAnimated, 'isAnimated', DEFAULT_RECIPE.isAnimated),
+    animationSpeed: readNumber(doc.animationSpeed, 'animationSpeed', DEFAULT_RECIPE.animationSpeed),
+    loopDuration: readNumber(doc.loopDuration, 'loopDuration', DEFAULT_RECIPE.loopDuration),
+    overlay: {
+      enabled: readBoolean(overlay.enabled, 'overlay.enabled', DEFAULT_RECIPE.overlay.enabled),
+      type: readEnum(overlay.type, 'overlay.type', OVERLAY_TYPES, DEFAULT_RECIPE.overlay.type),
+      intensity: readNumber(overlay.intensity, 'overlay.intensity', DEFAULT_RECIPE.overlay.intensity)
+    },
+    ripple: {
+      enabled: readBoolean(ripple.enabled, 'ripple.enabled', DEFAULT_RECIPE.ripple.enabled),
+      frequencyX: readNumber(ripple.frequencyX, 'ripple.frequencyX', DEFAULT_RECIPE.ripple.frequencyX),
+      frequencyY: readNumber(ripple.frequencyY, 'ripple.frequencyY', DEFAULT_RECIPE.ripple.frequencyY),
+      amplitudeX: readNumber(ripple.amplitudeX, 'ripple.amplitudeX', DEFAULT_RECIPE.ripple.amplitudeX),
+      amplitudeY: readNumber(ripple.amplitudeY, 'ripple.amplitudeY', DEFAULT_RECIPE.ripple.amplitudeY)
+    },
+    textArea: {
+      enabled: readBoolean(textArea.enabled, 'textArea.enabled', DEFAULT_RECIPE.textArea.enabled),
+      x: readNumber(textArea.x, 'textArea.x', DEFAULT_RECIPE.textArea.x),
+      y: readNumber(textArea.y, 'textArea.y', DEFAULT_RECIPE.textArea.y),
+      width: readNumber(textArea.width, 'textArea.width', DEFAULT_RECIPE.textArea.width),
+      height: readNumber(textArea.height, 'textArea.height', DEFAULT_RECIPE.textArea.height),
+      treatment: readEnum(textArea.treatment, 'textArea.treatment', TEXT_AREA_TREATMENTS, DEFAULT_RECIPE.textArea.treatment),
+      amount: readNumber(textArea.amount, 'textArea.amount', DEFAULT_RECIPE.textArea.amount),
+      textColor: readEnum(textArea.textColor, 'textArea.textColor', TEXT_COLORS, DEFAULT_RECIPE.textArea.textColor)
+    },
+    foreground: {
+      enabled: readBoolean(foreground.enabled, 'foreground.enabled', DEFAULT_RECIPE.foreground.enabled),
+      headline: readTextLayer(foreground.headline, 'foreground.headline', DEFAULT_RECIPE.foreground.headline),
+      subtitle: readTextLayer(foreground.subtitle, 'foreground.subtitle', DEFAULT_RECIPE.foreground.subtitle),
+      align: readEnum(foreground.align, 'foreground.align', TEXT_ALIGNS, DEFAULT_RECIPE.foreground.align),
+      logo: {
+        src: readLogoSrc(logo.src),
+        anchor: readEnum(logo.anchor, 'foreground.logo.anchor', LOGO_ANCHORS, DEFAULT_RECIPE.foreground.logo.anchor),
+        size: readNumber(logo.size, 'foreground.logo.size', DEFAULT_RECIPE.foreground.logo.size),
+        margin: readNumber(logo.margin, 'foreground.logo.margin', DEFAULT_RECIPE.foreground.logo.margin)
+      }
+    },
+    colorBlobs
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  return { ok: true, recipe, warnings }
+}
+
+export const parseRecipeJSON = (json: string): RecipeParseResult => {
+  let input: unknown
+  try {
+    input = JSON.parse(json)
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON'] }
+  }
+  return parseRecipe(input)
+}
+
+// Colors are stored as { name, hex }; rgb is derived again on load
+export const serializeRecipe = (recipe: BackgroundRecipe): string => {
+  const { colors, colorBlobs, ...rest } = recipe
+  return JSON.stringify({
+    ...rest,
+    version: RECIPE_VERSION,
+    colors: colors.map(({ name, hex }) => ({ name, hex })),
+    colorBlobs: colorBlobs.map(({ color, ...blob }) => ({ ...blob, color: { name: color.name, hex: color.hex } }))
+  }, null, 2)
+}
@@ -0,0 +1,50 @@
+// Canvas abstractions so the pipeline runs on DOM canvases, OffscreenCanvas and server canvases alike
+
+export type RenderContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export interface ScratchCanvas {
+  canvas: HTMLCanvasElement | OffscreenCanvas
+  ctx: RenderContext
+}
+
+// Creates the temporary canvases tiled rendering needs (the soft layer and the strips)
+export type CanvasFactory = (width: number, height: number) => ScratchCanvas | null
+
+export const createBrowserCanvas: CanvasFactory = (width, height) => {
+  if (typeof document !== 'undefined') {
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d')
+    return ctx ? { canvas, ctx } : null
+  }
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height)
+    const ctx = canvas.getContext('2d')
+    return ctx ? { canvas, ctx } : null
+  }
+
+  return null
+}
+
+// Whether workers can draw: Safari before 16.4 has OffscreenCanvas but no 2D context for it
+export const supportsOffscreenRendering = () => {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return false
+  try {
+    return new OffscreenCanvas(1, 1).getContext('2d') !== null
+  } catch {
+    return false
+  }
+}
+
+// Where a canvas sits inside the full image. Tiled renders draw one window of a larger frame,
+// so the pixel passes work in full-image coordinates and only touch the pixels they were given.
+export interface RenderRegion {
+  x: number
+  y: number
+  fullWidth: number
+  fullHeight: number
+}
+
+export const fullRegion = (width: number, height: number): RenderRegion => ({ x: 0, y: 0, fullWidth: width, fullHeight: height })
@@ -0,0 +1,536 @@
+// Post-processing passes: blur, grain, overlay effects, ripple distortion and the text area. Each
+// works on the shared pixel buffer (see kernels.ts), so the pipeline reads and writes the canvas only once
+
+import { RippleSettings, OverlayType, TextAreaSettings } from '@/lib/recipe'
+import { createRandom, createRandomStream } from '@/utils/random'
+import { RenderRegion, fullRegion } from './context'
+import { PixelBuffer, gaussianBlur, getScratch, swapBuffers } from './kernels'
+
+// Heavy blur for the ultra-soft ethereal effect. This used to stack three canvas blur filters of
+// blurAmount / 1, 2 and 3; Gaussians compose, so one blur of their combined sigma matches it
+export const applyHeavyBlur = (pixels: PixelBuffer) => {
+  // Much stronger blur for ethereal effect - like the reference images
+  const blurAmount = Math.min(pixels.width, pixels.height) * 0.12
+  gaussianBlur(pixels, Math.hypot(blurAmount, blurAmount / 2, blurAmount / 3))
+}
+
+// Ultra-subtle posterization for smooth gradients (minimal banding)
+export const posterizeImageData = (imageData: ImageData, steps: number): ImageData => {
+  const data = imageData.data
+  const factor = 255 / (steps - 1)
+  
+  for (let i = 0; i < data.length; i += 4) {
+    // Ultra-minimal posterization strength - barely visible
+    const posterizeStrength = 0.05 // Only 5% posterization
+    
+    // Posterize each channel with minimal strength
+    const originalR = data[i]
+    const originalG = data[i + 1]
+    const originalB = data[i + 2]
+    
+    const posterizedR = Math.round(originalR / factor) * factor
+    const posterizedG = Math.round(originalG / factor) * factor
+    const posterizedB = Math.round(originalB / factor) * factor
+    
+    // Blend original with posterized for ultra-subtlety
+    data[i] = originalR + (posterizedR - originalR) * posterizeStrength
+    data[i + 1] = originalG + (posterizedG - originalG) * posterizeStrength
+    data[i + 2] = originalB + (posterizedB - originalB) * posterizeStrength
+  }
+  
+  return imageData
+}
+
+// Organic film grain and the subtle vignette, fused into one sweep over the pixels.
+// Six grain draws per pixel in full-image row order, so any region reproduces the full render exactly
+export const applyGrainAndVignette = (pixels: PixelBuffer, grainIntensity: number, seed: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { data, width, height } = pixels
+  const { fullWidth, fullHeight } = region
+
+  // Vignette: transparent to 70% of the half diagonal, then darkening to 10% at the corners
+  const centerX = fullWidth / 2
+  const centerY = fullHeight / 2
+  const radius = Math.sqrt(fullWidth * fullWidth + fullHeight * fullHeight) / 2
+  
+  for (let y = 0; y < height; y++) {
+    const random = grainIntensity > 0 ? createRandom(seed, 6 * ((region.y + y) * fullWidth + region.x)) : null
+    const dy = region.y + y + 0.5 - centerY
+
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4
+      let r = data[i]
+      let g = data[i + 1]
+      let b = data[i + 2]
+
+      if (random) {
+        // Create multiple layers of random noise for organic feel
+        const noise1 = (random() - 0.5) * 2
+        const noise2 = (random() - 0.5) * 2
+        const noise3 = (random() - 0.5) * 2
+        
+        // Weight the noise layers differently
+        const grain = (noise1 * 0.6 + noise2 * 0.3 + noise3 * 0.1) * grainIntensity * 40
+        
+        // Add some variance between RGB channels for film-like effect
+        r = Math.max(0, Math.min(255, r + grain + (random() - 0.5) * grainIntensity * 10))
+        g = Math.max(0, Math.min(255, g + grain + (random() - 0.5) * grainIntensity * 10))
+        b = Math.max(0, Math.min(255, b + grain + (random() - 0.5) * grainIntensity * 10))
+      }
+
+      const dx = region.x + x + 0.5 - centerX
+      const t = Math.sqrt(dx * dx + dy * dy) / radius
+      const shade = 1 - Math.min(1, Math.max(0, (t - 0.7) / 0.3)) * 0.1
+
+      data[i] = r * shade
+      data[i + 1] = g * shade
+      data[i + 2] = b * shade
+    }
+  }
+}
+
+// Overlay Effects System
+export const applyGlassRipple = (pixels: PixelBuffer, intensity: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { data, width, height } = pixels
+  const newData = getScratch(pixels)
+  
+  // Copy original data first
+  newData.set(data)
+  
+  const rippleStrength = intensity * 20 // Max displacement in pixels
+  const rippleFrequency = 0.008 // Wave frequency
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sourceIndex = (y * width + x) * 4
+      
+      // Create vertical sine wave displacement
+      const displacement = Math.sin((region.x + x) * rippleFrequency) * rippleStrength
+      const sourceY = Math.round(region.y + y + displacement) - region.y
+      
+      // Ensure we stay within bounds
+      if (region.y + sourceY >= 0 && region.y + sourceY < region.fullHeight) {
+        const targetIndex = (sourceY * width + x) * 4
+        
+        // Copy pixel data with displacement (a region's padding covers reads past its edges)
+        if (targetIndex >= 0 && targetIndex < data.length - 3) {
+          newData[sourceIndex] = data[targetIndex]
+          newData[sourceIndex + 1] = data[targetIndex + 1]
+          newData[sourceIndex + 2] = data[targetIndex + 2]
+          newData[sourceIndex + 3] = data[targetIndex + 3]
+        }
+      }
+    }
+  }
+  
+  swapBuffers(pixels)
+}
+
+// Scanline bands shift whole rows, so the region must span the full width (tiles are horizontal strips)
+export const applyGlitchScanlines = (pixels: PixelBuffer, intensity: number, seed: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { data, width, height } = pixels
+  const newData = getScratch(pixels)
+  
+  // Copy original data first
+  newData.set(data)
+  
+  const maxDisplacement = intensity * 80 // Increased max displacement for more dramatic effect
+  const minScanlineHeight = 1
+  const maxScanlineHeight = Math.max(3, Math.floor(intensity * 25)) // More variable scanline heights
+  const channelSeparation = Math.floor((intensity - 0.6) * 2.5 * 3) // 0-3 pixel separation
+  // Rows outside the region skip the per-pixel draws they would have made
+  const stream = createRandomStream(seed)
+  const random = stream.next
+  const drawsPerRow = intensity > 0.6 && channelSeparation > 0 ? width : 0
+  
+  let y = 0
+  while (y < Math.min(region.fullHeight, region.y + height)) {
+    // Randomize scanline height for each band
+    const scanlineHeight = Math.floor(random() * (maxScanlineHeight - minScanlineHeight + 1)) + minScanlineHeight
+    
+    // Higher chance of glitching at higher intensities, but always some randomness
+    const glitchProbability = Math.max(0.3, intensity * 0.8)
+    
+    if (random() < glitchProbability) {
+      // Randomize direction: -1 for left, 1 for right
+      const direction = random() < 0.5 ? -1 : 1
+      
+      // Create more varied displacement patterns
+      const baseOffset = direction * random() * maxDisplacement
+      const offsetVariation = intensity * 10 // Additional per-row variation
+      
+      // Apply glitch to this band of scanlines
+      for (let bandRow = y; bandRow < Math.min(y + scanlineHeight, region.fullHeight); bandRow++) {
+        // Add slight variation per row within the band for more organic glitching
+        const rowVariation = (random() - 0.5) * offsetVariation
+        const totalOffset = Math.round(baseOffset + rowVariation)
+
+        const row = bandRow - region.y
+        if (row < 0 || row >= height) {
+          stream.skip(drawsPerRow)
+          continue
+        }
+        
+        // Process each pixel in this row
+        for (let x = 0; x < width; x++) {
+          const sourceX = x + totalOffset
+          const targetIndex = (row * width + x) * 4
+          
+          // Handle wrapping and bounds checking for more interesting effects
+          let finalSourceX = sourceX
+          if (sourceX < 0) {
+            // Wrap from left edge or use edge pixel
+            finalSourceX = intensity > 0.7 ? width + sourceX : 0
+          } else if (sourceX >= width) {
+            // Wrap from right edge or use edge pixel
+            finalSourceX = intensity > 0.7 ? sourceX - width : width - 1
+          }
+          
+          // Clamp to valid range
+          finalSourceX = Math.max(0, Math.min(width - 1, finalSourceX))
+          const sourceIndex = (row * width + finalSourceX) * 4
+          
+          // Copy pixel data with displacement
+          if (sourceIndex >= 0 && sourceIndex < data.length - 3) {
+            newData[targetIndex] = data[sourceIndex]
+            newData[targetIndex + 1] = data[sourceIndex + 1]
+            newData[targetIndex + 2] = data[sourceIndex + 2]
+            newData[targetIndex + 3] = data[sourceIndex + 3]
+            
+            // Add subtle RGB channel separation for digital artifacts at high intensity
+            if (intensity > 0.6) {
+              if (channelSeparation > 0 && random() < 0.3) {
+                const rSourceX = Math.max(0, Math.min(width - 1, finalSourceX + channelSeparation))
+                const bSourceX = Math.max(0, Math.min(width - 1, finalSourceX - channelSeparation))
+                const rSourceIndex = (row * width + rSourceX) * 4
+                const bSourceIndex = (row * width + bSourceX) * 4
+                
+                // Separate red and blue channels slightly
+                newData[targetIndex] = data[rSourceIndex] // Red from offset position
+                newData[targetIndex + 2] = data[bSourceIndex + 2] // Blue from opposite offset
+              }
+            }
+          }
+        }
+      }
+    }
+    
+    y += scanlineHeight
+  }
+  
+  swapBuffers(pixels)
+}
+
+// Two draws per dot, column by column, so a region can start the stream at its first dot.
+// White dots in 'overlay' blend mode, rasterized here with one pixel of anti-aliasing
+export const applyPatternOverlay = (pixels: PixelBuffer, intensity: number, seed: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { data, width, height } = pixels
+  const opacity = intensity * 0.3
+  
+  // Create dot pattern
+  const dotSize = 3
+  const radius = dotSize * intensity
+  const spacing = Math.max(8, Math.floor(40 / (intensity * 2 + 1)))
+  const columns = Math.ceil(region.fullWidth / spacing)
+  const rows = Math.ceil(region.fullHeight / spacing)
+
+  // Dots whose jittered circle can reach into the region
+  const reach = spacing * 0.15 + radius + 1
+  const firstColumn = Math.max(0, Math.floor((region.x - reach) / spacing))
+  const lastColumn = Math.min(columns - 1, Math.ceil((region.x + width + reach) / spacing))
+  const firstRow = Math.max(0, Math.floor((region.y - reach) / spacing))
+  const lastRow = Math.min(rows - 1, Math.ceil((region.y + height + reach) / spacing))
+  
+  for (let column = firstColumn; column <= lastColumn; column++) {
+    const random = createRandom(seed, 2 * (column * rows + firstRow))
+    const x = column * spacing
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const y = row * spacing
+
+      // Add some randomness to dot positions
+      const centerX = x + (random() - 0.5) * spacing * 0.3 - region.x
+      const centerY = y + (random() - 0.5) * spacing * 0.3 - region.y
+
+      const left = Math.max(0, Math.floor(centerX - radius - 1))
+      const right = Math.min(width - 1, Math.ceil(centerX + radius + 1))
+      const top = Math.max(0, Math.floor(centerY - radius - 1))
+      const bottom = Math.min(height - 1, Math.ceil(centerY + radius + 1))
+
+      for (let py = top; py <= bottom; py++) {
+        for (let px = left; px <= right; px++) {
+          const dx = px + 0.5 - centerX
+          const dy = py + 0.5 - centerY
+          const coverage = Math.min(1, radius + 0.5 - Math.sqrt(dx * dx + dy * dy))
+          if (coverage <= 0) continue
+
+          // Overlay with white doubles dark channels and lifts light ones to white
+          const alpha = opacity * coverage
+          const i = (py * width + px) * 4
+          for (let c = i; c < i + 3; c++) {
+            const base = data[c]
+            data[c] = base + ((base <= 127.5 ? base * 2 : 255) - base) * alpha
+          }
+        }
+      }
+    }
+  }
+}
+
+export const applyNoisePulse = (pixels: PixelBuffer, intensity: number, seed: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { data, width, height } = pixels
+  const random = createRandom(seed)
+  
+  const blockSize = Math.max(8, Math.floor(32 / intensity))
+  const noiseStrength = intensity * 60
+  
+  // Create noise blocks (every block draws, so the stream is walked from the top even for a region)
+  for (let y = 0; y < Math.min(region.fullHeight, region.y + height); y += blockSize) {
+    for (let x = 0; x < region.fullWidth; x += blockSize) {
+      // Randomly decide if this block should be noisy
+      if (random() < intensity * 0.4) {
+        const colorOffset = (random() - 0.5) * noiseStrength
+        const rgbSplit = intensity > 0.5 ? (random() - 0.5) * 10 : 0
+        
+        // Apply noise to the part of the block inside the region
+        for (let by = Math.max(y, region.y); by < Math.min(y + blockSize, region.fullHeight, region.y + height); by++) {
+          for (let bx = Math.max(x, region.x); bx < Math.min(x + blockSize, region.fullWidth, region.x + width); bx++) {
+            const index = ((by - region.y) * width + (bx - region.x)) * 4
+            
+            // Add color noise with slight RGB channel splitting
+            data[index] = Math.max(0, Math.min(255, data[index] + colorOffset + rgbSplit))
+            data[index + 1] = Math.max(0, Math.min(255, data[index + 1] + colorOffset))
+            data[index + 2] = Math.max(0, Math.min(255, data[index + 2] + colorOffset - rgbSplit))
+          }
+        }
+      }
+    }
+  }
+}
+
+// Column bands shift whole columns, so the region must span the full height (tiles are vertical strips)
+export const applyVerticalGlitchScanlines = (pixels: PixelBuffer, intensity: number, seed: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { data, width, height } = pixels
+  const newData = getScratch(pixels)
+  
+  // Copy original data first
+  newData.set(data)
+  
+  const maxDisplacement = intensity * 80 // Max vertical displacement
+  const minScanlineWidth = 1
+  const maxScanlineWidth = Math.max(3, Math.floor(intensity * 25)) // Variable column widths
+  const channelSeparation = Math.floor((intensity - 0.6) * 2.5 * 3) // 0-3 pixel separation
+  // Columns outside the region skip the per-pixel draws they would have made
+  const stream = createRandomStream(seed)
+  const random = stream.next
+  const drawsPerColumn = intensity > 0.6 && channelSeparation > 0 ? height : 0
+  
+  let x = 0
+  while (x < Math.min(region.fullWidth, region.x + width)) {
+    // Randomize column width for each band
+    const scanlineWidth = Math.floor(random() * (maxScanlineWidth - minScanlineWidth + 1)) + minScanlineWidth
+    
+    // Higher chance of glitching at higher intensities, but always some randomness
+    const glitchProbability = Math.max(0.3, intensity * 0.8)
+    
+    if (random() < glitchProbability) {
+      // Randomize direction: -1 for up, 1 for down
+      const direction = random() < 0.5 ? -1 : 1
+      
+      // Create varied displacement patterns
+      const baseOffset = direction * random() * maxDisplacement
+      const offsetVariation = intensity * 10 // Additional per-column variation
+      
+      // Apply glitch to this band of vertical scanlines
+      for (let bandCol = x; bandCol < Math.min(x + scanlineWidth, region.fullWidth); bandCol++) {
+        // Add slight variation per column within the band
+        const colVariation = (random() - 0.5) * offsetVariation
+        const totalOffset = Math.round(baseOffset + colVariation)
+
+        const col = bandCol - region.x
+        if (col < 0 || col >= width) {
+          stream.skip(drawsPerColumn)
+          continue
+        }
+        
+        // Process each pixel in this column
+        for (let y = 0; y < height; y++) {
+          const sourceY = y + totalOffset
+          const targetIndex = (y * width + col) * 4
+          
+          // Handle wrapping and bounds checking
+          let finalSourceY = sourceY
+          if (sourceY < 0) {
+            // Wrap from top edge or use edge pixel
+            finalSourceY = intensity > 0.7 ? height + sourceY : 0
+          } else if (sourceY >= height) {
+            // Wrap from bottom edge or use edge pixel
+            finalSourceY = intensity > 0.7 ? sourceY - height : height - 1
+          }
+          
+          // Clamp to valid range
+          finalSourceY = Math.max(0, Math.min(height - 1, finalSourceY))
+          const sourceIndex = (finalSourceY * width + col) * 4
+          
+          // Copy pixel data with vertical displacement
+          if (sourceIndex >= 0 && sourceIndex < data.length - 3) {
+            newData[targetIndex] = data[sourceIndex]
+            newData[targetIndex + 1] = data[sourceIndex + 1]
+            newData[targetIndex + 2] = data[sourceIndex + 2]
+            newData[targetIndex + 3] = data[sourceIndex + 3]
+            
+            // Add subtle RGB channel separation for digital artifacts at high intensity
+            if (intensity > 0.6) {
+              if (channelSeparation > 0 && random() < 0.3) {
+                const rSourceY = Math.max(0, Math.min(height - 1, finalSourceY + channelSeparation))
+                const bSourceY = Math.max(0, Math.min(height - 1, finalSourceY - channelSeparation))
+                const rSourceIndex = (rSourceY * width + col) * 4
+                const bSourceIndex = (bSourceY * width + col) * 4
+                
+                // Separate red and blue channels slightly (vertically)
+                newData[targetIndex] = data[rSourceIndex] // Red from offset position
+                newData[targetIndex + 2] = data[bSourceIndex + 2] // Blue from opposite offset
+              }
+            }
+          }
+        }
+      }
+    }
+    
+    x += scanlineWidth
+  }
+  
+  swapBuffers(pixels)
+}
+
+// `seed` is the overlay stage seed; `region` places the canvas inside the full image for tiled renders
+export const applyOverlayEffect = (pixels: PixelBuffer, type: OverlayType, intensity: number, seed: number, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  switch (type) {
+    case 'glass':
+      applyGlassRipple(pixels, intensity, region)
+      break
+    case 'horizontal-glitch':
+      applyGlitchScanlines(pixels, intensity, seed, region)
+      break
+    case 'vertical-glitch':
+      applyVerticalGlitchScanlines(pixels, intensity, seed, region)
+      break
+    case 'pattern':
+      applyPatternOverlay(pixels, intensity, seed, region)
+      break
+    case 'noise':
+      applyNoisePulse(pixels, intensity, seed, region)
+      break
+    default:
+      break
+  }
+}
+
+// Apply glass ripple distortion effect
+export const applyRippleEffect = (pixels: PixelBuffer, ripple: RippleSettings, time: number = 0, isAnimated: boolean = false, animationSpeed: number = 1, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  const { enabled: rippleEnabled, frequencyX: rippleFrequencyX, frequencyY: rippleFrequencyY, amplitudeX: rippleAmplitudeX, amplitudeY: rippleAmplitudeY } = ripple
+  if (!rippleEnabled) return
+
+  const { width, height } = pixels
+  const originalData = pixels.data
+  const outputData = getScratch(pixels)
+  outputData.set(originalData)
+
+  // Add time-based animation if enabled
+  let timeOffset = 0
+  if (isAnimated) {
+    timeOffset = time * 0.001 * animationSpeed * 0.5 // Slow ripple animation
+  }
+
+  // Apply ripple distortion to each pixel
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Work in full-image coordinates so tiles line up
+      const imageX = region.x + x
+      const imageY = region.y + y
+
+      // Calculate sine wave offsets with time animation
+      const offsetX = Math.sin(imageY * rippleFrequencyY + timeOffset) * rippleAmplitudeX
+      const offsetY = Math.sin(imageX * rippleFrequencyX + timeOffset * 1.3) * rippleAmplitudeY
+      
+      // Calculate source pixel position
+      let sourceX = imageX + offsetX
+      let sourceY = imageY + offsetY
+      
+      // Handle edge cases by clamping to image bounds
+      sourceX = Math.max(0, Math.min(region.fullWidth - 1, Math.round(sourceX))) - region.x
+      sourceY = Math.max(0, Math.min(region.fullHeight - 1, Math.round(sourceY))) - region.y
+
+      // Only the padding of a tile can read past its edges; those pixels are discarded
+      if (sourceX < 0 || sourceX >= width || sourceY < 0 || sourceY >= height) continue
+      
+      // Get source and destination pixel indices
+      const sourceIndex = (sourceY * width + sourceX) * 4
+      const destIndex = (y * width + x) * 4
+      
+      // Copy RGBA values from source to destination
+      outputData[destIndex] = originalData[sourceIndex]         // R
+      outputData[destIndex + 1] = originalData[sourceIndex + 1] // G
+      outputData[destIndex + 2] = originalData[sourceIndex + 2] // B
+      outputData[destIndex + 3] = originalData[sourceIndex + 3] // A
+    }
+  }
+
+  swapBuffers(pixels)
+}
+
+// Text safe area: tint the area toward black or white (scrim) or mute its colors (soften), so
+// text placed there reads. Full strength inside the rectangle, fading out over a short feather
+export const applyTextAreaTreatment = (pixels: PixelBuffer, area: TextAreaSettings, region: RenderRegion = fullRegion(pixels.width, pixels.height)) => {
+  if (!area.enabled || area.treatment === 'none' || area.amount <= 0) return
+
+  const { data, width, height } = pixels
+  const { fullWidth, fullHeight } = region
+  const left = area.x * fullWidth
+  const top = area.y * fullHeight
+  const right = left + area.width * fullWidth
+  const bottom = top + area.height * fullHeight
+  const feather = Math.max(1, Math.min(fullWidth, fullHeight) * 0.04)
+  // The scrim goes the opposite way from the text
+  const target = area.textColor === 'white' ? 0 : 255
+
+  const weight = (position: number, start: number, end: number) => {
+    return Math.max(0, Math.min(1, (Math.min(position - start, end - position) + feather) / feather))
+  }
+
+  const firstRow = Math.max(0, Math.floor(top - feather) - region.y)
+  const lastRow = Math.min(height, Math.ceil(bottom + feather) - region.y)
+  for (let y = firstRow; y < lastRow; y++) {
+    const rowWeight = weight(region.y + y + 0.5, top, bottom)
+    if (rowWeight === 0) continue
+
+    for (let x = 0; x < width; x++) {
+      const w = rowWeight * weight(region.x + x + 0.5, left, right) * area.amount
+      if (w === 0) continue
+
+      const i = (y * width + x) * 4
+      let r = data[i]
+      let g = data[i + 1]
+      let b = data[i + 2]
+
+      if (area.treatment === 'soften') {
+        // Desaturate, then ease a little toward the scrim tone
+        const gray = 0.2126 * r + 0.7152 * g + 0.0722 * b
+        r += (gray - r) * w
+        g += (gray - g) * w
+        b += (gray - b) * w
+        const ease = w * 0.35
+        r += (target - r) * ease
+        g += (target - g) * ease
+        b += (target - b) * ease
+      } else {
+        r += (target - r) * w
+        g += (target - g) * w
+        b += (target - b) * w
+      }
+
+      data[i] = r
+      data[i + 1] = g
+      data[i + 2] = b
+    }
+  }
+}
@@ -0,0 +1,136 @@
+// Step 7, the foreground: headline and subtitle set inside the text safe area, and the logo
+// pinned to an anchor. This is canvas drawing rather than a pixel pass, so it runs once over the
+// whole finished image, after the plain render and after the last strip of a tiled one.
+// The logo has to be decoded before rendering starts; callers hand it in as an asset.
+
+import { BackgroundRecipe, FontFamily, LogoSettings, TextLayerSettings } from '@/lib/recipe'
+import { RenderContext } from './context'
+
+export interface LogoImage {
+  image: CanvasImageSource
+  width: number
+  height: number
+}
+
+export interface ForegroundAssets {
+  logo: LogoImage | null
+}
+
+// Workers and the server canvas only see installed fonts, so these are web-safe stacks, ending
+// in the DejaVu fonts most Linux servers have
+export const FONT_STACKS: Record<FontFamily, string> = {
+  sans: '"Helvetica Neue", Helvetica, Arial, "DejaVu Sans", sans-serif',
+  serif: 'Georgia, "Times New Roman", Times, "DejaVu Serif", serif',
+  mono: 'Menlo, Consolas, "DejaVu Sans Mono", monospace',
+  display: 'Impact, "Arial Black", "Helvetica Neue", "DejaVu Sans", sans-serif'
+}
+
+// Line height per font size; headlines are set tighter than running text
+const HEADLINE_LEADING = 1.1
+const SUBTITLE_LEADING = 1.35
+// Space between the headline and the subtitle, per subtitle font size
+const SUBTITLE_GAP = 0.6
+
+export const hasForegroundText = (recipe: BackgroundRecipe) => {
+  const { enabled, headline, subtitle } = recipe.foreground
+  return enabled && (headline.text.trim() !== '' || subtitle.text.trim() !== '')
+}
+
+// The same recipe with the foreground switched off, e.g. to measure the background under the text
+export const withoutForeground = (recipe: BackgroundRecipe): BackgroundRecipe => {
+  return recipe.foreground.enabled ? { ...recipe, foreground: { ...recipe.foreground, enabled: false } } : recipe
+}
+
+// Where the logo goes in a width x height image, for a logo of the given width / height ratio
+export const logoRect = (logo: LogoSettings, width: number, height: number, aspect: number) => {
+  const short = Math.min(width, height)
+  const longest = logo.size * short
+  const logoWidth = aspect >= 1 ? longest : longest * aspect
+  const logoHeight = aspect >= 1 ? longest / aspect : longest
+  const margin = logo.margin * short
+
+  // 0, 0.5 or 1 of the room left between the margins
+  const horizontal = logo.anchor.endsWith('left') ? 0 : logo.anchor.endsWith('right') ? 1 : 0.5
+  const vertical = logo.anchor.startsWith('top') ? 0 : logo.anchor.startsWith('bottom') ? 1 : 0.5
+  return {
+    x: Math.round(margin + (width - margin * 2 - logoWidth) * horizontal),
+    y: Math.round(margin + (height - margin * 2 - logoHeight) * vertical),
+    width: Math.max(1, Math.round(logoWidth)),
+    height: Math.max(1, Math.round(logoHeight))
+  }
+}
+
+const fontFor = (layer: TextLayerSettings, size: number) => `${layer.weight} ${size}px ${FONT_STACKS[layer.font]}`
+
+// Greedy word wrap; explicit line breaks are kept, and a word longer than the line gets a line of its own
+const wrapLines = (ctx: RenderContext, text: string, maxWidth: number) => {
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = []
+    let line = ''
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line)
+        line = word
+      } else {
+        line = candidate
+      }
+    })
+    // An empty paragraph still takes up a line
+    if (line || lines.length === 0) lines.push(line)
+    return lines
+  })
+}
+
+const drawText = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number) => {
+  const { foreground, textArea } = recipe
+  const short = Math.min(width, height)
+  const box = { x: textArea.x * width, y: textArea.y * height, width: textArea.width * width, height: textArea.height * height }
+
+  const blocks = [
+    { layer: foreground.headline, leading: HEADLINE_LEADING },
+    { layer: foreground.subtitle, leading: SUBTITLE_LEADING }
+  ]
+    .filter(({ layer }) => layer.text.trim() !== '')
+    .map(({ layer, leading }) => {
+      const size = Math.max(1, layer.size * short)
+      ctx.font = fontFor(layer, size)
+      return { layer, size, lineHeight: size * leading, lines: wrapLines(ctx, layer.text, box.width) }
+    })
+  if (blocks.length === 0) return
+
+  const gap = blocks.length > 1 ? blocks[1].size * SUBTITLE_GAP : 0
+  const total = blocks.reduce((sum, block) => sum + block.lines.length * block.lineHeight, gap)
+
+  // The block is centered vertically in the box and aligned horizontally to its edges
+  const x = foreground.align === 'left' ? box.x : foreground.align === 'right' ? box.x + box.width : box.x + box.width / 2
+  let y = box.y + (box.height - total) / 2
+
+  ctx.textAlign = foreground.align
+  ctx.textBaseline = 'middle'
+  blocks.forEach((block, index) => {
+    if (index > 0) y += gap
+    ctx.font = fontFor(block.layer, block.size)
+    ctx.fillStyle = block.layer.color
+    block.lines.forEach(line => {
+      ctx.fillText(line, x, y + block.lineHeight / 2)
+      y += block.lineHeight
+    })
+  })
+}
+
+export const drawForeground = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, assets?: ForegroundAssets) => {
+  if (!recipe.foreground.enabled) return
+
+  ctx.save()
+  drawText(ctx, recipe, width, height)
+
+  const logo = assets?.logo
+  if (logo && recipe.foreground.logo.src) {
+    const rect = logoRect(recipe.foreground.logo, width, height, logo.width / logo.height)
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(logo.image, rect.x, rect.y, rect.width, rect.height)
+  }
+  ctx.restore()
+}
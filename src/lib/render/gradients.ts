@@ -0,0 +1,986 @@
+// Gradient styles: each paints the base composition for one style onto a 2D context, and
+// createGradient stacks them as layers
+
+import { BackgroundRecipe, DEFAULT_LAYER, GradientLayer, GradientStyle, LayerBlendMode, LayerMask } from '@/lib/recipe'
+import { RandomFn, createStageRandom } from '@/utils/random'
+import { mixOklab } from '@/lib/color-space'
+import { layerColors } from '@/lib/layers'
+import { CanvasFactory, RenderContext, ScratchCanvas, createBrowserCanvas } from './context'
+
+// Intermediate stops used when a gradient runs from one color to another
+const BLEND_STEPS = 6
+
+// Utility function to ensure valid hex colors for canvas
+export const sanitizeHexColor = (hexColor: string): string => {
+  if (!hexColor || typeof hexColor !== 'string') return '#ffffff'
+  
+  // Remove # and any extra characters, keep only first 6 characters
+  const cleanHex = hexColor.replace('#', '').substring(0, 6)
+  
+  // Validate hex characters
+  if (!/^[0-9A-Fa-f]{6}$/.test(cleanHex)) {
+    console.warn(`Invalid hex color "${hexColor}", defaulting to #ffffff`)
+    return '#ffffff'
+  }
+  
+  return `#${cleanHex}`
+}
+
+// Create gradients that scale from subtle to dramatic based on intensity  
+export const createOrganicGradient = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, time: number = 0, random: RandomFn = Math.random) => {
+  const { colors, gradientIntensity, gradientDensity, colorBlobs, isAnimated, animationSpeed } = recipe
+
+  // Scale intensity and density to maintain same strength with 0-100% UI range
+  const scaledIntensity = gradientIntensity * 1.2 // Maintain 120% internal strength
+  const scaledDensity = gradientDensity * 1.5 // Maintain 150% internal strength
+  
+  // Always use solid background color - never transparent
+  const baseColor = colors[0] || { hex: '#ffffff' }
+  ctx.fillStyle = baseColor.hex
+  ctx.fillRect(0, 0, width, height)
+  
+  // Use positioned blobs if available from image analysis
+  if (colorBlobs && colorBlobs.length > 0) {
+    // Limit blobs based on complexity setting
+    const maxBlobs = Math.floor(2 + (scaledDensity * 8)) // 2-10 blobs based on complexity
+    const selectedBlobs = colorBlobs.slice(0, maxBlobs)
+    
+    // Create positioned blobs with intensity-based contrast
+    selectedBlobs.forEach((blob, index) => {
+      // Safety check for blob properties
+      if (!blob || typeof blob.x !== 'number' || typeof blob.y !== 'number' ||
+          typeof blob.radius !== 'number' || typeof blob.intensity !== 'number') {
+        return // Skip invalid blobs
+      }
+      
+      // Use colors from main state, not from blob.color - this ensures sync with ControlsPanel
+      const color = colors[index % colors.length]
+      const safeHex = sanitizeHexColor(color?.hex)
+      
+      // Base positions with optional animation drift
+      let x = blob.x * width
+      let y = blob.y * height
+      
+      // Add very subtle, slow animation drift if enabled
+      if (isAnimated) {
+        const smoothTime = time * 0.0001 * animationSpeed // Even slower and smoother
+        const driftAmount = Math.min(width, height) * 0.005 // Tiny movements
+        const uniqueOffset = index * 2.7 // Different stagger for more organic feel
+        
+        // Use multiple smooth sine waves for ultra-smooth movement
+        x += (Math.sin(smoothTime + uniqueOffset) * 0.7 + Math.sin(smoothTime * 1.3 + uniqueOffset + 1) * 0.3) * driftAmount
+        y += (Math.cos(smoothTime * 0.8 + uniqueOffset + 1.5) * 0.6 + Math.cos(smoothTime * 1.1 + uniqueOffset + 3) * 0.4) * driftAmount
+      }
+      // Size scales with intensity: smaller at low intensity, larger at high intensity
+      const sizeMultiplier = 0.5 + (scaledIntensity * 1.5)
+      let radius = blob.radius * Math.min(width, height) * scaledIntensity * sizeMultiplier
+      
+      // Add very subtle breathing animation if enabled
+      if (isAnimated) {
+        const smoothTime = time * 0.00015 * animationSpeed // Ultra smooth breathing
+        const pulseAmount = 1 + (Math.sin(smoothTime + index * 2.1) * 0.5 + Math.sin(smoothTime * 1.4 + index * 1.3 + 2) * 0.5) * 0.02 // ±2% variation
+        radius *= pulseAmount
+      }
+      
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+      
+      // Balanced opacity that ensures all colors are visible
+      // Adjust opacity based on color index to prevent single color dominance
+      const baseOpacity = 0.3 + scaledIntensity * 0.5 // 30%-80% range
+      const colorBalance = Math.max(0.3, 1 - (index * 0.05)) // Ensure minimum 30% opacity, gentler reduction
+      const centerOpacity = Math.max(0, Math.min(255, Math.floor(baseOpacity * colorBalance * 255)))
+      const midOpacity = Math.max(0, Math.min(255, Math.floor(centerOpacity * 0.7)))
+      const centerHex = centerOpacity.toString(16).padStart(2, '0')
+      const midHex = midOpacity.toString(16).padStart(2, '0')
+      
+      gradient.addColorStop(0, `${safeHex}${centerHex}`)
+      gradient.addColorStop(0.6, `${safeHex}${midHex}`)
+      gradient.addColorStop(1, `${safeHex}00`)
+      
+      // Balanced blend modes that give each color equal representation
+      if (index === 0) {
+        ctx.globalCompositeOperation = 'source-over'
+      } else {
+        // Use alternating blend modes for better color balance
+        // This ensures no single color dominates regardless of brightness
+        const blendModes: GlobalCompositeOperation[] = ['overlay', 'soft-light', 'hard-light', 'multiply', 'screen']
+        ctx.globalCompositeOperation = blendModes[index % blendModes.length]
+      }
+      ctx.fillStyle = gradient
+      ctx.beginPath()
+      ctx.arc(x, y, radius, 0, 2 * Math.PI)
+      ctx.fill()
+    })
+    
+    // At high complexity, add extra random blobs using main colors for consistency
+    if (gradientDensity > 0.8) {
+      const extraBlobCount = Math.floor((gradientDensity - 0.8) * 10) // 0-2 extra blobs
+      
+      for (let i = 0; i < extraBlobCount; i++) {
+        const randomColor = colors[i % colors.length] // Use main colors for consistency
+        
+        // Use seeded positions for consistency across frames
+        const seed = (i + 1000) * 9876 // Different seed from main blobs
+        const baseX = (Math.sin(seed) * 0.5 + 0.5) * width
+        const baseY = (Math.cos(seed * 1.4) * 0.5 + 0.5) * height
+        
+        let x = baseX
+        let y = baseY
+        
+        // Add ultra-smooth animation
+        if (isAnimated) {
+          const smoothTime = time * 0.0001 * animationSpeed
+          const driftAmount = Math.min(width, height) * 0.004
+          const uniqueOffset = (i + 1000) * 2.7
+          
+          x += (Math.sin(smoothTime + uniqueOffset) * 0.5 + Math.sin(smoothTime * 1.25 + uniqueOffset + 1) * 0.5) * driftAmount
+          y += (Math.cos(smoothTime * 0.8 + uniqueOffset + 2) * 0.6 + Math.cos(smoothTime * 1.1 + uniqueOffset + 4) * 0.4) * driftAmount
+        }
+        
+        // Seeded size with ultra-smooth breathing animation
+        const baseRadius = (0.15 + (Math.sin(seed * 2.7) * 0.5 + 0.5) * 0.25) * Math.min(width, height) * gradientIntensity
+        let radius = baseRadius
+        
+        if (isAnimated) {
+          const smoothTime = time * 0.00015 * animationSpeed
+          const pulseAmount = 1 + (Math.sin(smoothTime + i * 2.1 + 5) * 0.3 + Math.sin(smoothTime * 1.4 + i * 1.8 + 8) * 0.7) * 0.015
+          radius *= pulseAmount
+        }
+        
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+        
+        const centerOpacity = Math.floor((0.2 + gradientIntensity * 0.6) * 255)
+        const midOpacity = Math.floor(centerOpacity * 0.6)
+        const centerHex = centerOpacity.toString(16).padStart(2, '0')
+        const midHex = midOpacity.toString(16).padStart(2, '0')
+        
+        gradient.addColorStop(0, `${randomColor.hex}${centerHex}`)
+        gradient.addColorStop(0.6, `${randomColor.hex}${midHex}`)
+        gradient.addColorStop(1, `${randomColor.hex}00`)
+        
+        // Use balanced blend mode for extra blobs
+        const blendModes: GlobalCompositeOperation[] = ['soft-light', 'overlay', 'multiply']
+        ctx.globalCompositeOperation = blendModes[i % blendModes.length]
+        
+        ctx.fillStyle = gradient
+        ctx.beginPath()
+        ctx.arc(x, y, radius, 0, 2 * Math.PI)
+        ctx.fill()
+      }
+    }
+  } else {
+    // Dramatic shape count scaling with complexity
+    const minShapes = 2
+    const maxShapes = 15 
+    const baseCount = Math.floor(minShapes + (gradientDensity * (maxShapes - minShapes)))
+    const intensityBonus = Math.floor(gradientIntensity * 3) // +0 to +3 from intensity
+    const shapeCount = baseCount + intensityBonus
+    
+    for (let i = 0; i < shapeCount; i++) {
+      const color = colors[i % colors.length]
+      
+      // Base position (seeded random for consistency across frames)
+      const seed = i * 12345 // Consistent seed for each blob
+      const baseX = (Math.sin(seed) * 0.5 + 0.5) * width // Convert -1,1 to 0,1 range  
+      const baseY = (Math.cos(seed * 1.3) * 0.5 + 0.5) * height
+      
+      let x = baseX
+      let y = baseY
+      
+      // Add very subtle animation drift if enabled
+      if (isAnimated) {
+        const smoothTime = time * 0.0001 * animationSpeed // Ultra smooth
+        const driftAmount = Math.min(width, height) * 0.004 // Tiny movements
+        const uniqueOffset = i * 2.5
+        
+        // Multiple smooth sine waves for ultra-smooth movement
+        x += (Math.sin(smoothTime + uniqueOffset) * 0.6 + Math.sin(smoothTime * 1.2 + uniqueOffset + 0.5) * 0.4) * driftAmount
+        y += (Math.cos(smoothTime * 0.75 + uniqueOffset + 1) * 0.7 + Math.cos(smoothTime * 1.15 + uniqueOffset + 2.5) * 0.3) * driftAmount
+      }  
+      
+      // Size scaling with intensity AND complexity for more variation  
+      const baseSize = 0.15 + (gradientIntensity * 0.4) // 15% to 55% of canvas
+      const complexityVariation = (Math.sin(seed * 2.1) * 0.5 + 0.5) * (0.1 + gradientDensity * 0.3) // Seeded variation
+      let radius = Math.min(width, height) * (baseSize + complexityVariation) * gradientIntensity
+      
+      // Add very subtle breathing animation if enabled  
+      if (isAnimated) {
+        const smoothTime = time * 0.00015 * animationSpeed // Ultra smooth breathing
+        const pulseAmount = 1 + (Math.sin(smoothTime + i * 2.3) * 0.4 + Math.sin(smoothTime * 1.3 + i * 1.6 + 1.5) * 0.6) * 0.015 // ±1.5% variation
+        radius *= pulseAmount
+      }
+      
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+      
+      // Balanced opacity for non-blob organic gradients
+      const baseOpacity = 0.3 + gradientIntensity * 0.5
+      const colorBalance = Math.max(0.3, 1 - (i * 0.04)) // Ensure minimum 30% opacity, gentler reduction
+      const centerOpacity = Math.max(0, Math.min(255, Math.floor(baseOpacity * colorBalance * 255)))
+      const midOpacity = Math.max(0, Math.min(255, Math.floor(centerOpacity * 0.7)))
+      const centerHex = centerOpacity.toString(16).padStart(2, '0')
+      const midHex = midOpacity.toString(16).padStart(2, '0')
+      
+      gradient.addColorStop(0, `${color.hex}${centerHex}`)
+      gradient.addColorStop(0.6, `${color.hex}${midHex}`)
+      gradient.addColorStop(1, `${color.hex}00`)
+      
+      // Balanced blend modes for non-blob organic gradients
+      if (i === 0) {
+        ctx.globalCompositeOperation = 'source-over'
+      } else {
+        // Use alternating blend modes for better color balance
+        const blendModes: GlobalCompositeOperation[] = ['overlay', 'soft-light', 'hard-light', 'multiply', 'screen']
+        ctx.globalCompositeOperation = blendModes[i % blendModes.length]
+      }
+      ctx.fillStyle = gradient
+      ctx.beginPath()
+      ctx.arc(x, y, radius, 0, 2 * Math.PI)
+      ctx.fill()
+    }
+    
+    // Add overlay effects only at higher intensities
+    if (gradientIntensity > 0.5) {
+      const overlayCount = Math.floor((gradientIntensity - 0.5) * 2 * gradientDensity * 6) // 0-6 overlays
+      
+      for (let i = 0; i < overlayCount; i++) {
+        const color = colors[Math.floor(random() * colors.length)]
+        const x = random() * width
+        const y = random() * height
+        const radius = Math.min(width, height) * (0.4 + random() * 0.6) * gradientIntensity
+        
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+        
+        const overlayAlpha = Math.max(0, Math.min(255, Math.floor((gradientIntensity - 0.5) * 2 * 0.8 * 255)))
+        const overlayOpacity = overlayAlpha.toString(16).padStart(2, '0')
+        gradient.addColorStop(0, `${color.hex}${overlayOpacity}`)
+        gradient.addColorStop(0.4, `${color.hex}80`) // 50%
+        gradient.addColorStop(0.7, `${color.hex}40`) // 25%
+        gradient.addColorStop(1, `${color.hex}00`)
+        
+        ctx.globalCompositeOperation = 'overlay'
+        ctx.fillStyle = gradient
+        ctx.fillRect(0, 0, width, height)
+      }
+    }
+    
+    // Add accent spots only at highest intensities
+    if (gradientIntensity > 0.7) {
+      const accentCount = Math.floor((gradientIntensity - 0.7) * 3.33 * gradientDensity * 3) // 0-3 accents
+      
+      for (let i = 0; i < accentCount; i++) {
+        const color = colors[Math.floor(random() * colors.length)]
+        const x = random() * width
+        const y = random() * height
+        const radius = Math.min(width, height) * (0.2 + random() * 0.3) * gradientIntensity
+        
+        const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+        
+        gradient.addColorStop(0, color.hex) // Full opacity
+        gradient.addColorStop(0.5, `${color.hex}AA`) // 65% opacity
+        gradient.addColorStop(0.8, `${color.hex}33`) // 20% opacity
+        gradient.addColorStop(1, `${color.hex}00`) // Transparent
+        
+        ctx.globalCompositeOperation = 'soft-light'
+        ctx.fillStyle = gradient
+        ctx.beginPath()
+        ctx.arc(x, y, radius, 0, 2 * Math.PI)
+        ctx.fill()
+      }
+    }
+  }
+}
+
+// Create linear flowing gradients with balanced layering and blend modes
+export const createLinearGradient = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, time: number = 0) => {
+  const { colors, gradientIntensity, gradientDensity, colorBlobs, isAnimated, animationSpeed } = recipe
+
+  // Scale intensity and density to maintain same strength with 0-100% UI range
+  const scaledIntensity = gradientIntensity * 1.2 // Maintain 120% internal strength
+  const scaledDensity = gradientDensity * 1.5 // Maintain 150% internal strength
+  
+  // Always use solid background color
+  const baseColor = colors[0] || { hex: '#ffffff' }
+  ctx.fillStyle = baseColor.hex
+  ctx.fillRect(0, 0, width, height)
+  
+  // Smart layer count scaling
+  const minLayers = 3
+  const maxLayers = 12
+  const baseLayers = Math.floor(minLayers + (scaledDensity * (maxLayers - minLayers)))
+  const intensityBonus = Math.floor(scaledIntensity * 4)
+  const numLayers = baseLayers + intensityBonus
+  
+  // Use image-aware angles if colorBlobs exist
+  const useImageAngles = colorBlobs && colorBlobs.length >= 2
+  
+  for (let i = 0; i < numLayers; i++) {
+    const color = colors[i % colors.length]
+    let angle
+    
+    if (useImageAngles && i < colorBlobs!.length - 1) {
+      // Create angle from one blob to another for image-aware flow
+      const blob1 = colorBlobs![i]
+      const blob2 = colorBlobs![(i + 1) % colorBlobs!.length]
+      angle = Math.atan2(blob2.y - blob1.y, blob2.x - blob1.x)
+    } else {
+      // Seeded angles for consistency (not random)
+      const seed = i * 73856 // Consistent seed
+      angle = (Math.sin(seed) * 0.5 + 0.5) * Math.PI * 2 // Full range of angles
+    }
+    
+    // Add subtle animation rotation if enabled
+    if (isAnimated) {
+      const smoothTime = time * 0.0001 * animationSpeed
+      const rotationAmount = 0.1 // Small rotation range
+      const uniqueOffset = i * 1.7
+      angle += Math.sin(smoothTime + uniqueOffset) * rotationAmount
+    }
+    
+    // Create gradient line extending beyond canvas for smooth coverage
+    const extendFactor = 1.5
+    const centerX = width * 0.5
+    const centerY = height * 0.5
+    const length = Math.max(width, height) * extendFactor
+    
+    const x1 = centerX + Math.cos(angle) * length * -0.5
+    const y1 = centerY + Math.sin(angle) * length * -0.5
+    const x2 = centerX + Math.cos(angle) * length * 0.5
+    const y2 = centerY + Math.sin(angle) * length * 0.5
+    
+    const gradient = ctx.createLinearGradient(x1, y1, x2, y2)
+    
+    // Intensity-driven opacity (same as organic)
+    const centerOpacity = Math.floor((0.2 + gradientIntensity * 0.6) * 255)
+    const midOpacity = Math.floor(centerOpacity * 0.7)
+    const centerHex = centerOpacity.toString(16).padStart(2, '0')
+    const midHex = midOpacity.toString(16).padStart(2, '0')
+    
+    // Create flowing gradients with multiple stops
+    gradient.addColorStop(0, `${color.hex}00`)
+    gradient.addColorStop(0.2, `${color.hex}${Math.max(0, Math.min(255, Math.floor(centerOpacity * 0.3))).toString(16).padStart(2, '0')}`)
+    gradient.addColorStop(0.4, `${color.hex}${centerHex}`)
+    gradient.addColorStop(0.6, `${color.hex}${centerHex}`)
+    gradient.addColorStop(0.8, `${color.hex}${Math.max(0, Math.min(255, Math.floor(centerOpacity * 0.3))).toString(16).padStart(2, '0')}`)
+    gradient.addColorStop(1, `${color.hex}00`)
+    
+    // Smart blend mode (same as organic)
+    if (i === 0) {
+      ctx.globalCompositeOperation = 'source-over'
+    } else {
+      const blendModes: GlobalCompositeOperation[] = ['overlay', 'soft-light', 'multiply', 'screen', 'hard-light']
+      ctx.globalCompositeOperation = blendModes[i % blendModes.length]
+    }
+    
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, width, height)
+  }
+  
+  // Add flowing accent layers at higher intensities
+  if (gradientIntensity > 0.6) {
+    const accentCount = Math.floor((gradientIntensity - 0.6) * 2.5 * gradientDensity * 4) // 0-4 accents
+    
+    for (let i = 0; i < accentCount; i++) {
+      const color = colors[i % colors.length]
+      
+      // More dramatic accent angles
+      const seed = (i + 500) * 91237
+      const angle = (Math.sin(seed) * 0.5 + 0.5) * Math.PI * 2
+      
+      const centerX = width * 0.5
+      const centerY = height * 0.5
+      const length = Math.max(width, height) * 2
+      
+      const x1 = centerX + Math.cos(angle) * length * -0.5
+      const y1 = centerY + Math.sin(angle) * length * -0.5
+      const x2 = centerX + Math.cos(angle) * length * 0.5
+      const y2 = centerY + Math.sin(angle) * length * 0.5
+      
+      const gradient = ctx.createLinearGradient(x1, y1, x2, y2)
+      
+      const accentAlpha = Math.max(0, Math.min(255, Math.floor((gradientIntensity - 0.6) * 2.5 * 0.6 * 255)))
+      const accentHex = accentAlpha.toString(16).padStart(2, '0')
+      
+      gradient.addColorStop(0, `${color.hex}00`)
+      gradient.addColorStop(0.3, `${color.hex}${Math.max(0, Math.min(255, Math.floor(accentAlpha * 0.5))).toString(16).padStart(2, '0')}`)
+      gradient.addColorStop(0.5, `${color.hex}${accentHex}`)
+      gradient.addColorStop(0.7, `${color.hex}${Math.max(0, Math.min(255, Math.floor(accentAlpha * 0.5))).toString(16).padStart(2, '0')}`)
+      gradient.addColorStop(1, `${color.hex}00`)
+      
+      ctx.globalCompositeOperation = 'soft-light'
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, width, height)
+    }
+  }
+}
+
+// Create radial burst gradients with balanced positioning and blend modes
+export const createRadialGradient = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, time: number = 0) => {
+  const { colors, gradientIntensity, gradientDensity, colorBlobs, isAnimated, animationSpeed } = recipe
+
+  // Scale intensity and density to maintain same strength with 0-100% UI range
+  const scaledIntensity = gradientIntensity * 1.2 // Maintain 120% internal strength
+  const scaledDensity = gradientDensity * 1.5 // Maintain 150% internal strength
+  
+  // Always use solid background color
+  const baseColor = colors[0] || { hex: '#ffffff' }
+  ctx.fillStyle = baseColor.hex
+  ctx.fillRect(0, 0, width, height)
+  
+  // Smart center count scaling
+  const minCenters = 2
+  const maxCenters = 8
+  const baseCenters = Math.floor(minCenters + (scaledDensity * (maxCenters - minCenters)))
+  const intensityBonus = Math.floor(scaledIntensity * 3)
+  const numCenters = baseCenters + intensityBonus
+  
+  // Use image-aware positioning if colorBlobs exist
+  const useImagePositions = colorBlobs && colorBlobs.length > 0
+  
+  for (let i = 0; i < numCenters; i++) {
+    const color = colors[i % colors.length]
+    let x, y, baseRadius
+    
+    if (useImagePositions && i < colorBlobs!.length) {
+      // Use blob positions for image-aware placement
+      const blob = colorBlobs![i]
+      x = blob.x * width
+      y = blob.y * height
+      baseRadius = blob.radius * Math.min(width, height)
+    } else {
+      // Seeded positions for consistency (not random)
+      const seed = i * 48271 // Consistent seed
+      x = (Math.sin(seed) * 0.5 + 0.5) * width
+      y = (Math.cos(seed * 1.4) * 0.5 + 0.5) * height
+      baseRadius = Math.min(width, height) * (0.3 + (Math.sin(seed * 2.7) * 0.5 + 0.5) * 0.4) // 30%-70% of canvas
+    }
+    
+    // Add subtle animation movement if enabled
+    if (isAnimated) {
+      const smoothTime = time * 0.0001 * animationSpeed
+      const driftAmount = Math.min(width, height) * 0.02 // Larger movement than linear
+      const uniqueOffset = i * 2.3
+      
+      x += (Math.sin(smoothTime + uniqueOffset) * 0.8 + Math.sin(smoothTime * 1.2 + uniqueOffset + 1) * 0.2) * driftAmount
+      y += (Math.cos(smoothTime * 0.9 + uniqueOffset + 2) * 0.7 + Math.cos(smoothTime * 1.3 + uniqueOffset + 3) * 0.3) * driftAmount
+    }
+    
+    // Intensity and complexity-driven radius scaling
+    const sizeMultiplier = 0.6 + (gradientIntensity * 1.2) // Larger than linear style
+    const complexityVariation = 0.8 + (gradientDensity * 0.6) // More variation at high complexity
+    let radius = baseRadius * sizeMultiplier * complexityVariation * gradientIntensity
+    
+    // Add breathing animation if enabled
+    if (isAnimated) {
+      const smoothTime = time * 0.00012 * animationSpeed // Slower breathing for radials
+      const pulseAmount = 1 + (Math.sin(smoothTime + i * 2.8) * 0.6 + Math.sin(smoothTime * 1.5 + i * 1.9 + 2) * 0.4) * 0.025 // ±2.5% variation
+      radius *= pulseAmount
+    }
+    
+    const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+    
+    // Intensity-driven opacity with multiple gradient stops for smoother falloff
+    const centerOpacity = Math.floor((0.3 + gradientIntensity * 0.7) * 255) // Stronger center than linear
+    const midOpacity = Math.floor(centerOpacity * 0.6)
+    const edgeOpacity = Math.floor(centerOpacity * 0.2)
+    
+    const centerHex = centerOpacity.toString(16).padStart(2, '0')
+    const midHex = midOpacity.toString(16).padStart(2, '0')
+    const edgeHex = edgeOpacity.toString(16).padStart(2, '0')
+    
+    gradient.addColorStop(0, `${color.hex}${centerHex}`)
+    gradient.addColorStop(0.3, `${color.hex}${midHex}`)
+    gradient.addColorStop(0.7, `${color.hex}${edgeHex}`)
+    gradient.addColorStop(1, `${color.hex}00`)
+    
+    // Balanced blend modes for Radial Burst
+    if (i === 0) {
+      ctx.globalCompositeOperation = 'source-over'
+    } else {
+      const blendModes: GlobalCompositeOperation[] = ['overlay', 'soft-light', 'multiply', 'screen', 'hard-light']
+      ctx.globalCompositeOperation = blendModes[i % blendModes.length]
+    }
+    
+    ctx.fillStyle = gradient
+    ctx.fillRect(0, 0, width, height)
+  }
+  
+  // Add burst overlays at higher intensities for more drama
+  if (gradientIntensity > 0.5) {
+    const burstCount = Math.floor((gradientIntensity - 0.5) * 2 * gradientDensity * 3) // 0-3 bursts
+    
+    for (let i = 0; i < burstCount; i++) {
+      const color = colors[i % colors.length]
+      
+      // Seeded positions for burst overlays
+      const seed = (i + 777) * 31415
+      const x = (Math.sin(seed) * 0.5 + 0.5) * width
+      const y = (Math.cos(seed * 1.6) * 0.5 + 0.5) * height
+      
+      // Larger, more dramatic burst radius
+      const radius = Math.max(width, height) * (0.4 + (Math.sin(seed * 3.2) * 0.5 + 0.5) * 0.6) * gradientIntensity
+      
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+      
+      const burstAlpha = Math.max(0, Math.min(255, Math.floor((gradientIntensity - 0.5) * 2 * 0.4 * 255))) // Subtle overlay
+      const burstHex = burstAlpha.toString(16).padStart(2, '0')
+      
+      gradient.addColorStop(0, `${color.hex}${burstHex}`)
+      gradient.addColorStop(0.5, `${color.hex}${Math.max(0, Math.min(255, Math.floor(burstAlpha * 0.6))).toString(16).padStart(2, '0')}`)
+      gradient.addColorStop(0.8, `${color.hex}${Math.max(0, Math.min(255, Math.floor(burstAlpha * 0.3))).toString(16).padStart(2, '0')}`)
+      gradient.addColorStop(1, `${color.hex}00`)
+      
+      ctx.globalCompositeOperation = 'overlay'
+      ctx.fillStyle = gradient
+      ctx.fillRect(0, 0, width, height)
+    }
+  }
+  
+  // Add concentrated hot spots at highest intensities
+  if (gradientIntensity > 0.7) {
+    const hotspotCount = Math.floor((gradientIntensity - 0.7) * 3.33 * gradientDensity * 2) // 0-2 hotspots
+    
+    for (let i = 0; i < hotspotCount; i++) {
+      const color = colors[i % colors.length]
+      
+      // Seeded positions for hotspots
+      const seed = (i + 1234) * 65537
+      const x = (Math.sin(seed) * 0.5 + 0.5) * width
+      const y = (Math.cos(seed * 1.8) * 0.5 + 0.5) * height
+      
+      // Smaller, intense hotspots
+      const radius = Math.min(width, height) * (0.15 + (Math.sin(seed * 2.1) * 0.5 + 0.5) * 0.15) * gradientIntensity
+      
+      const gradient = ctx.createRadialGradient(x, y, 0, x, y, radius)
+      
+      gradient.addColorStop(0, color.hex) // Full intensity center
+      gradient.addColorStop(0.4, `${color.hex}BB`) // 75% intensity
+      gradient.addColorStop(0.7, `${color.hex}66`) // 40% intensity
+      gradient.addColorStop(1, `${color.hex}00`) // Transparent edge
+      
+      ctx.globalCompositeOperation = 'color-dodge' // Intense blend mode
+      ctx.fillStyle = gradient
+      ctx.beginPath()
+      ctx.arc(x, y, radius, 0, 2 * Math.PI)
+      ctx.fill()
+    }
+  }
+}
+
+// Create gradient mesh with balanced triangular color zones
+export const createWaveGradient = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, time: number = 0) => {
+  const { colors, gradientIntensity, gradientDensity, colorBlobs, isAnimated, animationSpeed } = recipe
+
+  // Scale intensity and density to maintain same strength with 0-100% UI range
+  const scaledIntensity = gradientIntensity * 1.2 // Maintain 120% internal strength
+  const scaledDensity = gradientDensity * 1.5 // Maintain 150% internal strength
+  
+  // Always use solid background color
+  const baseColor = colors[0] || { hex: '#ffffff' }
+  ctx.fillStyle = baseColor.hex
+  ctx.fillRect(0, 0, width, height)
+  
+  // Smart mesh density scaling
+  const minTriangles = 4
+  const maxTriangles = 16
+  const baseTriangles = Math.floor(minTriangles + (scaledDensity * (maxTriangles - minTriangles)))
+  const intensityBonus = Math.floor(scaledIntensity * 6)
+  const numTriangles = baseTriangles + intensityBonus
+  
+  // Use image-aware points if colorBlobs exist
+  const useImagePoints = colorBlobs && colorBlobs.length >= 3
+  
+  // Generate mesh points
+  let meshPoints = []
+  
+  if (useImagePoints) {
+    // Use blob positions as mesh anchor points
+    for (let i = 0; i < Math.min(colorBlobs!.length, numTriangles); i++) {
+      const blob = colorBlobs![i]
+      meshPoints.push({
+        x: blob.x * width,
+        y: blob.y * height,
+        color: colors[i % colors.length]
+      })
+    }
+  } else {
+    // Generate seeded mesh points
+    for (let i = 0; i < numTriangles; i++) {
+      const seed = i * 67890
+      meshPoints.push({
+        x: (Math.sin(seed) * 0.5 + 0.5) * width,
+        y: (Math.cos(seed * 1.7) * 0.5 + 0.5) * height,
+        color: colors[i % colors.length]
+      })
+    }
+  }
+  
+  // Add animation movement to mesh points
+  if (isAnimated) {
+    const smoothTime = time * 0.0001 * animationSpeed
+    const driftAmount = Math.min(width, height) * 0.015
+    
+    meshPoints = meshPoints.map((point, i) => {
+      const uniqueOffset = i * 2.7
+      return {
+        ...point,
+        x: point.x + (Math.sin(smoothTime + uniqueOffset) * 0.6 + Math.sin(smoothTime * 1.4 + uniqueOffset + 1) * 0.4) * driftAmount,
+        y: point.y + (Math.cos(smoothTime * 1.1 + uniqueOffset + 2) * 0.7 + Math.cos(smoothTime * 1.3 + uniqueOffset + 3) * 0.3) * driftAmount
+      }
+    })
+  }
+  
+  // Create triangular mesh zones
+  for (let i = 0; i < meshPoints.length; i++) {
+    const point1 = meshPoints[i]
+    const point2 = meshPoints[(i + 1) % meshPoints.length]
+    const point3 = meshPoints[(i + 2) % meshPoints.length]
+    
+    // Calculate triangle centroid for gradient center
+    const centerX = (point1.x + point2.x + point3.x) / 3
+    const centerY = (point1.y + point2.y + point3.y) / 3
+    
+    // Calculate average distance for gradient radius
+    const dist1 = Math.sqrt((point1.x - centerX)**2 + (point1.y - centerY)**2)
+    const dist2 = Math.sqrt((point2.x - centerX)**2 + (point2.y - centerY)**2)
+    const dist3 = Math.sqrt((point3.x - centerX)**2 + (point3.y - centerY)**2)
+    const avgRadius = (dist1 + dist2 + dist3) / 3
+    
+    // Intensity-driven radius scaling
+    const meshRadius = avgRadius * (0.8 + gradientIntensity * 0.8)
+    
+    // Create radial gradient for this triangle zone
+    const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, meshRadius)
+    
+    // Use dominant color from the triangle's first point
+    const zoneColor = point1.color
+    
+    // Opacity scaling with intensity
+    const zoneOpacity = Math.floor((0.25 + gradientIntensity * 0.65) * 255)
+    const midOpacity = Math.floor(zoneOpacity * 0.7)
+    const edgeOpacity = Math.floor(zoneOpacity * 0.3)
+    
+    const zoneHex = zoneOpacity.toString(16).padStart(2, '0')
+    const midHex = midOpacity.toString(16).padStart(2, '0')
+    const edgeHex = edgeOpacity.toString(16).padStart(2, '0')
+    
+    gradient.addColorStop(0, `${zoneColor.hex}${zoneHex}`)
+    gradient.addColorStop(0.4, `${zoneColor.hex}${midHex}`)
+    gradient.addColorStop(0.8, `${zoneColor.hex}${edgeHex}`)
+    gradient.addColorStop(1, `${zoneColor.hex}00`)
+    
+    // Smart blend mode
+    if (i === 0) {
+      ctx.globalCompositeOperation = 'source-over'
+    } else {
+      const blendModes: GlobalCompositeOperation[] = ['overlay', 'soft-light', 'multiply', 'screen', 'hard-light']
+      ctx.globalCompositeOperation = blendModes[i % blendModes.length]
+    }
+    
+    // Draw the triangle zone
+    ctx.fillStyle = gradient
+    ctx.beginPath()
+    ctx.moveTo(point1.x, point1.y)
+    ctx.lineTo(point2.x, point2.y)
+    ctx.lineTo(point3.x, point3.y)
+    ctx.closePath()
+    ctx.fill()
+  }
+  
+  // Add mesh overlays at higher intensities
+  if (gradientIntensity > 0.5) {
+    const overlayCount = Math.floor((gradientIntensity - 0.5) * 2 * gradientDensity * 4) // 0-4 overlays
+    
+    for (let i = 0; i < overlayCount; i++) {
+      const color = colors[i % colors.length]
+      
+      // Create overlay zones with different geometry
+      const seed = (i + 555) * 23456
+      const centerX = (Math.sin(seed) * 0.5 + 0.5) * width
+      const centerY = (Math.cos(seed * 1.8) * 0.5 + 0.5) * height
+      const radius = Math.min(width, height) * (0.2 + (Math.sin(seed * 3.1) * 0.5 + 0.5) * 0.4) * gradientIntensity
+      
+      const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, radius)
+      
+      const overlayAlpha = Math.max(0, Math.min(255, Math.floor((gradientIntensity - 0.5) * 2 * 0.35 * 255)))
+      const overlayHex = overlayAlpha.toString(16).padStart(2, '0')
+      
+      gradient.addColorStop(0, `${color.hex}${overlayHex}`)
+      gradient.addColorStop(0.6, `${color.hex}${Math.max(0, Math.min(255, Math.floor(overlayAlpha * 0.5))).toString(16).padStart(2, '0')}`)
+      gradient.addColorStop(1, `${color.hex}00`)
+      
+      ctx.globalCompositeOperation = 'soft-light'
+      ctx.fillStyle = gradient
+      ctx.beginPath()
+      ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI)
+      ctx.fill()
+    }
+  }
+  
+  // Add connecting gradients between mesh points at highest intensities
+  if (gradientIntensity > 0.7) {
+    const connectionCount = Math.floor((gradientIntensity - 0.7) * 3.33 * gradientDensity * 3) // 0-3 connections
+    
+    for (let i = 0; i < connectionCount; i++) {
+      const point1 = meshPoints[i % meshPoints.length]
+      const point2 = meshPoints[(i + Math.floor(meshPoints.length / 2)) % meshPoints.length]
+      
+      // Create gradient connection between distant points
+      const gradient = ctx.createLinearGradient(point1.x, point1.y, point2.x, point2.y)
+      
+      const connectionAlpha = Math.max(0, Math.min(255, Math.floor((gradientIntensity - 0.7) * 3.33 * 0.4 * 255)))
+      const connectionHex = connectionAlpha.toString(16).padStart(2, '0')
+      
+      // Blend between the two colors through OKLab stops; the canvas would mix them in sRGB
+      const endAlpha = Math.floor(connectionAlpha * 0.8)
+      for (let step = 0; step <= BLEND_STEPS; step++) {
+        const t = step / BLEND_STEPS
+        const [r, g, b] = mixOklab(point1.color.rgb, point2.color.rgb, t)
+        const alpha = Math.round(connectionAlpha + (endAlpha - connectionAlpha) * t)
+        gradient.addColorStop(t * 0.5, `rgba(${r}, ${g}, ${b}, ${alpha / 255})`)
+      }
+      gradient.addColorStop(1, `${point2.color.hex}00`)
+      
+      ctx.globalCompositeOperation = 'multiply'
+      
+      // Draw connection as wide line
+      const connectionWidth = Math.min(width, height) * 0.06 * gradientIntensity
+      ctx.save()
+      ctx.translate(point1.x, point1.y)
+      ctx.rotate(Math.atan2(point2.y - point1.y, point2.x - point1.x))
+      const connectionLength = Math.sqrt((point2.x - point1.x)**2 + (point2.y - point1.y)**2)
+      ctx.fillStyle = gradient
+      ctx.fillRect(-connectionWidth/2, -connectionWidth/2, connectionLength + connectionWidth, connectionWidth)
+      ctx.restore()
+    }
+  }
+}
+
+// Create sunburst radial rays emanating from center
+export const createSunburstGradient = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, time: number = 0) => {
+  const { colors, gradientIntensity, gradientDensity, isAnimated, animationSpeed } = recipe
+
+  // Scale intensity and density to maintain same strength with 0-100% UI range
+  const scaledIntensity = gradientIntensity * 1.2 // Maintain 120% internal strength
+  const scaledDensity = gradientDensity * 1.5 // Maintain 150% internal strength
+  
+  // Always use solid background color
+  const baseColor = colors[0] || { hex: '#ffffff' }
+  ctx.fillStyle = baseColor.hex
+  ctx.fillRect(0, 0, width, height)
+  
+  // Center point for the sunburst (customizable later)
+  const centerX = width * 0.5
+  const centerY = height * 0.5
+  
+  // Add slight animation to center if enabled
+  let animatedCenterX = centerX
+  let animatedCenterY = centerY
+  
+  if (isAnimated) {
+    const smoothTime = time * 0.0001 * animationSpeed
+    const driftAmount = Math.min(width, height) * 0.02
+    animatedCenterX += Math.sin(smoothTime * 0.7) * driftAmount
+    animatedCenterY += Math.cos(smoothTime * 0.5) * driftAmount
+  }
+  
+  // Calculate number of rays based on density (16-64 rays)
+  const minRays = 16
+  const maxRays = 64
+  const baseRayCount = Math.floor(minRays + (scaledDensity * (maxRays - minRays)))
+  const rayCount = Math.max(minRays, baseRayCount)
+  
+  // Calculate radius for rays (should extend beyond canvas)
+  const maxDimension = Math.max(width, height)
+  const rayRadius = maxDimension * 1.2 // Extend beyond canvas
+  
+  // Rotation animation
+  let rotationOffset = 0
+  if (isAnimated) {
+    const smoothTime = time * 0.00005 * animationSpeed // Very slow rotation
+    rotationOffset = smoothTime
+  }
+  
+  // Draw alternating color rays
+  for (let i = 0; i < rayCount; i++) {
+    const angle = (i / rayCount) * Math.PI * 2 + rotationOffset
+    const colorIndex = i % colors.length
+    const color = colors[colorIndex]
+    const safeHex = sanitizeHexColor(color?.hex)
+    
+    // Calculate ray width based on intensity and density
+    const baseRayWidth = (Math.PI * 2) / rayCount // Base angular width
+    const rayWidth = baseRayWidth * (0.7 + scaledIntensity * 0.6) // 70%-130% of base width
+    
+    // Create wedge path
+    ctx.beginPath()
+    ctx.moveTo(animatedCenterX, animatedCenterY)
+    
+    // Create smooth arc for the ray
+    const startAngle = angle - rayWidth / 2
+    const endAngle = angle + rayWidth / 2
+    
+    ctx.arc(animatedCenterX, animatedCenterY, rayRadius, startAngle, endAngle)
+    ctx.closePath()
+    
+    // Create radial gradient for this ray
+    const gradient = ctx.createRadialGradient(
+      animatedCenterX, animatedCenterY, 0,
+      animatedCenterX, animatedCenterY, rayRadius * 0.8
+    )
+    
+    // Opacity based on intensity and ray index for variation
+    const baseOpacity = 0.15 + scaledIntensity * 0.35 // 15%-50% range
+    const rayVariation = 0.8 + (Math.sin(i * 0.5) * 0.4) // Vary each ray slightly
+    const finalOpacity = Math.floor(baseOpacity * rayVariation * 255)
+    
+    const centerHex = Math.floor(Math.min(255, finalOpacity * 1.2)).toString(16).padStart(2, '0')
+    const midHex = Math.floor(finalOpacity).toString(16).padStart(2, '0')
+    const edgeHex = Math.floor(finalOpacity * 0.3).toString(16).padStart(2, '0')
+    
+    gradient.addColorStop(0, `${safeHex}${centerHex}`)
+    gradient.addColorStop(0.3, `${safeHex}${midHex}`)
+    gradient.addColorStop(0.7, `${safeHex}${edgeHex}`)
+    gradient.addColorStop(1, `${safeHex}00`)
+    
+    // Blend modes for layering
+    if (i === 0) {
+      ctx.globalCompositeOperation = 'source-over'
+    } else {
+      const blendModes: GlobalCompositeOperation[] = ['overlay', 'soft-light', 'multiply', 'screen', 'color-dodge']
+      ctx.globalCompositeOperation = blendModes[i % blendModes.length]
+    }
+    
+    ctx.fillStyle = gradient
+    ctx.fill()
+  }
+  
+  // Add central glow at higher intensities
+  if (scaledIntensity > 0.5) {
+    const glowRadius = Math.min(width, height) * 0.2 * scaledIntensity
+    const glowGradient = ctx.createRadialGradient(
+      animatedCenterX, animatedCenterY, 0,
+      animatedCenterX, animatedCenterY, glowRadius
+    )
+    
+    // Use primary color for central glow
+    const glowColor = colors[0]
+    const glowHex = sanitizeHexColor(glowColor?.hex)
+    const glowOpacity = Math.floor((scaledIntensity - 0.5) * 2 * 0.4 * 255)
+    const glowOpacityHex = glowOpacity.toString(16).padStart(2, '0')
+    
+    glowGradient.addColorStop(0, `${glowHex}${glowOpacityHex}`)
+    glowGradient.addColorStop(0.5, `${glowHex}${Math.floor(glowOpacity * 0.5).toString(16).padStart(2, '0')}`)
+    glowGradient.addColorStop(1, `${glowHex}00`)
+    
+    ctx.globalCompositeOperation = 'overlay'
+    ctx.fillStyle = glowGradient
+    ctx.beginPath()
+    ctx.arc(animatedCenterX, animatedCenterY, glowRadius, 0, Math.PI * 2)
+    ctx.fill()
+  }
+  
+}
+
+type StylePainter = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, time: number, random: RandomFn) => void
+
+// Every style paints a full, opaque frame that starts from a fill of its first color
+const STYLE_PAINTERS: Record<GradientStyle, StylePainter> = {
+  organic: createOrganicGradient,
+  linear: createLinearGradient,
+  radial: createRadialGradient,
+  wave: createWaveGradient,
+  sunburst: createSunburstGradient
+}
+
+const blendOperation = (mode: LayerBlendMode): GlobalCompositeOperation => (mode === 'normal' ? 'source-over' : mode)
+
+// A layer drawn straight onto the canvas looks the same as one composited onto it
+const isPlainLayer = (layer: GradientLayer) => layer.opacity >= 1 && layer.blendMode === 'normal' && layer.mask === 'none'
+
+// Alpha ramp for a mask: opaque where the layer is kept, transparent where it fades out
+const createMask = (ctx: RenderContext, mask: Exclude<LayerMask, 'none'>, width: number, height: number): CanvasGradient => {
+  if (mask === 'radial' || mask === 'vignette') {
+    const centerX = width / 2
+    const centerY = height / 2
+    const gradient = ctx.createRadialGradient(centerX, centerY, 0, centerX, centerY, Math.hypot(centerX, centerY))
+    gradient.addColorStop(0.2, mask === 'radial' ? '#000000ff' : '#00000000')
+    gradient.addColorStop(1, mask === 'radial' ? '#00000000' : '#000000ff')
+    return gradient
+  }
+  const ends = {
+    top: [0, 0, 0, height],
+    bottom: [0, height, 0, 0],
+    left: [0, 0, width, 0],
+    right: [width, 0, 0, 0]
+  }[mask]
+  const gradient = ctx.createLinearGradient(ends[0], ends[1], ends[2], ends[3])
+  gradient.addColorStop(0, '#000000ff')
+  gradient.addColorStop(1, '#00000000')
+  return gradient
+}
+
+// Paints one layer's style with its own colors. The zoom applies to the whole stack, then the
+// layer's transform, both about the center of the image.
+const paintLayer = (ctx: RenderContext, recipe: BackgroundRecipe, layer: GradientLayer, width: number, height: number, time: number) => {
+  const { x, y, scale, rotation } = layer.transform
+  const centerX = width / 2
+  const centerY = height / 2
+
+  ctx.save()
+  ctx.translate(centerX + x * width, centerY + y * height)
+  ctx.rotate((rotation * Math.PI) / 180)
+  ctx.scale(recipe.zoomLevel * scale, recipe.zoomLevel * scale)
+  ctx.translate(-centerX, -centerY)
+
+  // Keyed by id so reordering, hiding or deleting layers leaves the others as they were; the
+  // base layer keeps the stream a single-style recipe had, so its renders don't change
+  const random = createStageRandom(recipe.seed, layer.id === DEFAULT_LAYER.id ? 'gradient' : `gradient-${layer.id}`)
+  STYLE_PAINTERS[layer.style](ctx, { ...recipe, colors: layerColors(recipe.colors, layer) }, width, height, time, random)
+  ctx.restore()
+}
+
+// Paints the layer stack bottom first. Layers that are see-through, blended or masked are
+// painted on a scratch canvas and composited from there.
+export const createGradient = (
+  ctx: RenderContext,
+  recipe: BackgroundRecipe,
+  width: number,
+  height: number,
+  time: number = 0,
+  createCanvas: CanvasFactory = createBrowserCanvas
+) => {
+  const visible = recipe.layers.filter(layer => layer.visible && layer.opacity > 0)
+
+  // Start from the first color, as every style does. A moved, turned or shrunk layer no longer
+  // covers the whole canvas, so this fill is what shows at its edges.
+  ctx.fillStyle = sanitizeHexColor(recipe.colors[0]?.hex)
+  ctx.fillRect(0, 0, width, height)
+
+  let scratch: ScratchCanvas | null = null
+  for (const [position, layer] of visible.entries()) {
+    if (position === 0 && isPlainLayer(layer)) {
+      paintLayer(ctx, recipe, layer, width, height, time)
+      continue
+    }
+
+    scratch = scratch ?? createCanvas(width, height)
+    if (!scratch) throw new Error('Could not allocate a gradient layer canvas')
+    const layerCtx = scratch.ctx
+    layerCtx.clearRect(0, 0, width, height)
+    paintLayer(layerCtx, recipe, layer, width, height, time)
+
+    if (layer.mask !== 'none') {
+      layerCtx.save()
+      layerCtx.globalCompositeOperation = 'destination-in'
+      layerCtx.fillStyle = createMask(layerCtx, layer.mask, width, height)
+      layerCtx.fillRect(0, 0, width, height)
+      layerCtx.restore()
+    }
+
+    ctx.save()
+    ctx.globalAlpha = layer.opacity
+    ctx.globalCompositeOperation = blendOperation(layer.blendMode)
+    ctx.drawImage(scratch.canvas, 0, 0)
+    ctx.restore()
+  }
+}
@@ -0,0 +1,105 @@
+// Pixel kernels. The pipeline reads the canvas once, runs every pixel pass on one RGBA buffer and
+// writes it back once, instead of a getImageData/putImageData round trip per effect.
+
+import { RenderContext } from './context'
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+  // Displacement passes read `data` and write here, then swap the two
+  scratch: Uint8ClampedArray | null
+}
+
+export const getScratch = (pixels: PixelBuffer) => {
+  if (!pixels.scratch) pixels.scratch = new Uint8ClampedArray(pixels.data.length)
+  return pixels.scratch
+}
+
+export const swapBuffers = (pixels: PixelBuffer) => {
+  const previous = pixels.data
+  pixels.data = getScratch(pixels)
+  pixels.scratch = previous
+}
+
+// Runs `passes` on the canvas pixels with a single read and a single write
+export const withPixels = (ctx: RenderContext, width: number, height: number, passes: (pixels: PixelBuffer) => void) => {
+  const imageData = ctx.getImageData(0, 0, width, height)
+  const pixels: PixelBuffer = { data: imageData.data, width, height, scratch: null }
+  passes(pixels)
+
+  // After an odd number of swaps the result lives in what started as the scratch buffer
+  if (pixels.data !== imageData.data) imageData.data.set(pixels.data)
+  ctx.putImageData(imageData, 0, 0)
+}
+
+// Half-widths of the box filters whose successive passes approximate a Gaussian of this sigma
+const boxRadii = (sigma: number, passes: number) => {
+  const ideal = Math.sqrt((12 * sigma * sigma) / passes + 1)
+  let lower = Math.floor(ideal)
+  if (lower % 2 === 0) lower--
+  const upper = lower + 2
+  const lowerCount = Math.round((12 * sigma * sigma - passes * lower * lower - 4 * passes * lower - 3 * passes) / (-4 * lower - 4))
+
+  return Array.from({ length: passes }, (_, index) => ((index < lowerCount ? lower : upper) - 1) / 2)
+}
+
+// Running-sum box filter along one axis, clamping at the edges. `stride` steps along the axis,
+// `lineStride` between lines, so the same loop does rows and columns
+const boxPass = (
+  source: Float32Array,
+  target: Float32Array,
+  length: number,
+  lines: number,
+  stride: number,
+  lineStride: number,
+  radius: number
+) => {
+  const scale = 1 / (radius * 2 + 1)
+  const last = length - 1
+
+  for (let line = 0; line < lines; line++) {
+    const start = line * lineStride
+
+    let sum = source[start] * (radius + 1)
+    for (let i = 1; i <= radius; i++) {
+      sum += source[start + Math.min(i, last) * stride]
+    }
+
+    for (let i = 0; i < length; i++) {
+      target[start + i * stride] = sum * scale
+      sum += source[start + Math.min(i + radius + 1, last) * stride] - source[start + Math.max(i - radius, 0) * stride]
+    }
+  }
+}
+
+// Separable Gaussian blur from three box passes per axis. Cost does not depend on the radius,
+// and working one channel at a time keeps the float buffers at two per pixel
+export const gaussianBlur = (pixels: PixelBuffer, sigma: number) => {
+  const { data, width, height } = pixels
+  if (sigma <= 0) return
+
+  const radii = boxRadii(sigma, 3)
+  const size = width * height
+  const channel = new Float32Array(size)
+  const temp = new Float32Array(size)
+
+  for (let offset = 0; offset < 4; offset++) {
+    let uniform = true
+    for (let i = 0; i < size; i++) {
+      channel[i] = data[i * 4 + offset]
+      if (channel[i] !== channel[0]) uniform = false
+    }
+    // Typically the alpha channel: nothing to blur
+    if (uniform) continue
+
+    for (const radius of radii) {
+      boxPass(channel, temp, width, height, 1, width, radius)
+      boxPass(temp, channel, height, width, width, 1, radius)
+    }
+
+    for (let i = 0; i < size; i++) {
+      data[i * 4 + offset] = channel[i]
+    }
+  }
+}
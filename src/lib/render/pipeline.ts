@@ -0,0 +1,102 @@
+// The one render pipeline: the editor preview, the export path and the headless API all call
+// `render`, so a recipe looks the same wherever it is drawn. No React or DOM assumptions here.
+
+import { BackgroundRecipe } from '@/lib/recipe'
+import { deriveSeed } from '@/utils/random'
+import { CanvasFactory, RenderContext, RenderRegion, fullRegion } from './context'
+import { createGradient } from './gradients'
+import { applyGrainAndVignette, applyHeavyBlur, applyOverlayEffect, applyRippleEffect, applyTextAreaTreatment } from './effects'
+import { PixelBuffer, withPixels } from './kernels'
+import { ForegroundAssets, drawForeground } from './foreground'
+
+export interface RenderOptions {
+  width: number
+  height: number
+  // Milliseconds since the animation started; 0 renders the still image
+  time?: number
+  // Skip the grain, e.g. for intermediate preview animation frames
+  draft?: boolean
+  // The decoded logo for the foreground; without it only the foreground text is drawn
+  assets?: ForegroundAssets
+  // Allocates the canvas blended gradient layers are painted on; defaults to a DOM or offscreen canvas
+  createCanvas?: CanvasFactory
+}
+
+type StepOptions = Omit<RenderOptions, 'width' | 'height' | 'assets'>
+
+// The gradient and ripple motion are sums of sines at unrelated rates, so plain time never
+// repeats. Running it forward and back along one sine per loop makes every pass periodic in
+// the loop duration with no seam, and covers as much motion per loop as linear time would.
+const loopTime = (recipe: BackgroundRecipe, time: number) => {
+  if (!recipe.isAnimated) return 0
+  const period = recipe.loopDuration * 1000
+  return (period / 4) * Math.sin((2 * Math.PI * time) / period)
+}
+
+// Step 2: the soft color field
+const softLayerPasses = (pixels: PixelBuffer) => {
+  // Step 2: Apply heavy blur for soft transitions
+  applyHeavyBlur(pixels)
+}
+
+// Steps 3-6: texture, distortion and the text area
+const detailPasses = (
+  pixels: PixelBuffer,
+  recipe: BackgroundRecipe,
+  { time = 0, draft = false, region = fullRegion(pixels.width, pixels.height) }: StepOptions & { region?: RenderRegion }
+) => {
+  // Step 3: Add rich grain texture and a subtle vignette for depth, in one sweep
+  applyGrainAndVignette(pixels, draft ? 0 : recipe.noiseIntensity, deriveSeed(recipe.seed, 'grain'), region)
+
+  // Step 4: Apply overlay effects (if enabled)
+  if (recipe.overlay.enabled && recipe.overlay.intensity > 0) {
+    applyOverlayEffect(pixels, recipe.overlay.type, recipe.overlay.intensity, deriveSeed(recipe.seed, 'overlay'), region)
+  }
+
+  // Step 5: Apply glass ripple distortion effect (if enabled)
+  if (recipe.ripple.enabled) {
+    applyRippleEffect(pixels, recipe.ripple, loopTime(recipe, time), recipe.isAnimated, recipe.animationSpeed, region)
+  }
+
+  // Step 6: Keep the text safe area legible (if a treatment is set)
+  applyTextAreaTreatment(pixels, recipe.textArea, region)
+}
+
+const drawGradient = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, { time = 0, createCanvas }: StepOptions) => {
+  // Clear canvas
+  ctx.clearRect(0, 0, width, height)
+
+  // Step 1: Paint the gradient layers, bottom first
+  createGradient(ctx, recipe, width, height, loopTime(recipe, time), createCanvas)
+}
+
+// Steps 1-2 on their own, for the tiled renderer's shared soft layer
+export const renderSoftLayer = (ctx: RenderContext, recipe: BackgroundRecipe, width: number, height: number, options: StepOptions = {}) => {
+  drawGradient(ctx, recipe, width, height, options)
+  withPixels(ctx, width, height, pixels => softLayerPasses(pixels))
+}
+
+// Steps 3-6 on their own. These work on any region of the image, which is what lets the
+// tiled renderer run them strip by strip
+export const applyDetailPasses = (
+  ctx: RenderContext,
+  recipe: BackgroundRecipe,
+  width: number,
+  height: number,
+  options: StepOptions & { region?: RenderRegion } = {}
+) => {
+  withPixels(ctx, width, height, pixels => detailPasses(pixels, recipe, options))
+}
+
+// The gradient and the foreground are the only canvas drawing; every pass between them shares
+// one pixel read and write
+export const render = (ctx: RenderContext, recipe: BackgroundRecipe, { width, height, assets, ...options }: RenderOptions) => {
+  drawGradient(ctx, recipe, width, height, options)
+  withPixels(ctx, width, height, pixels => {
+    softLayerPasses(pixels)
+    detailPasses(pixels, recipe, options)
+  })
+
+  // Step 7: Draw the text and logo on top (if enabled)
+  drawForeground(ctx, recipe, width, height, assets)
+}
@@ -0,0 +1,93 @@
+// Render worker: runs the pipeline on OffscreenCanvas so slider drags and large exports never
+// block the page. The page posts recipes and gets back bitmaps (previews) or encoded files (exports
+// and animations).
+
+import { encodeCanvas, renderExportCanvas } from '@/lib/export'
+import { encodeAnimation } from '@/lib/animation'
+import { createBrowserCanvas, ScratchCanvas } from './context'
+import { render } from './pipeline'
+import { RenderCancelledError } from './tiled'
+import type { RenderWorkerRequest, RenderWorkerResponse } from './worker-client'
+
+// The project compiles against the DOM lib, so describe the little of the worker scope we use
+interface WorkerScope {
+  postMessage(message: RenderWorkerResponse, transfer?: Transferable[]): void
+  addEventListener(type: 'message', listener: (event: MessageEvent<RenderWorkerRequest>) => void): void
+}
+
+const scope = self as unknown as WorkerScope
+
+// Running exports and animations, so a cancel message can stop them between strips or frames
+const running = new Map<number, AbortController>()
+
+// Reused across previews; transferToImageBitmap hands over the pixels and leaves it blank
+let previewSurface: ScratchCanvas | null = null
+
+const renderPreview = (request: Extract<RenderWorkerRequest, { type: 'preview' }>) => {
+  const { recipe, width, height, time, draft } = request
+  if (!previewSurface) previewSurface = createBrowserCanvas(width, height)
+  if (!previewSurface) throw new Error('Could not allocate the preview canvas')
+
+  const canvas = previewSurface.canvas as OffscreenCanvas
+  canvas.width = width
+  canvas.height = height
+  render(previewSurface.ctx, recipe, { width, height, time, draft })
+
+  const bitmap = canvas.transferToImageBitmap()
+  scope.postMessage({ type: 'preview', id: request.id, bitmap }, [bitmap])
+}
+
+const renderExport = async (request: Extract<RenderWorkerRequest, { type: 'export' }>) => {
+  const { id, recipe, width, height, format, quality, assets } = request
+  const controller = new AbortController()
+  running.set(id, controller)
+
+  try {
+    const canvas = await renderExportCanvas(recipe, width, height, {
+      onProgress: (done, total) => scope.postMessage({ type: 'progress', id, done, total }),
+      signal: controller.signal,
+      assets
+    })
+    const image = await encodeCanvas(canvas, format, quality)
+    scope.postMessage({ type: 'export', id, image })
+  } finally {
+    running.delete(id)
+  }
+}
+
+const renderAnimation = async (request: Extract<RenderWorkerRequest, { type: 'animation' }>) => {
+  const { id, type, ...animation } = request
+  const controller = new AbortController()
+  running.set(id, controller)
+
+  try {
+    const blob = await encodeAnimation(animation, {
+      onProgress: (done, total) => scope.postMessage({ type: 'progress', id, done, total }),
+      signal: controller.signal
+    })
+    scope.postMessage({ type, id, blob })
+  } finally {
+    running.delete(id)
+  }
+}
+
+scope.addEventListener('message', async event => {
+  const request = event.data
+  if (request.type === 'cancel') {
+    running.get(request.id)?.abort()
+    return
+  }
+
+  try {
+    if (request.type === 'preview') renderPreview(request)
+    else if (request.type === 'animation') await renderAnimation(request)
+    else await renderExport(request)
+  } catch (error) {
+    scope.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: error instanceof RenderCancelledError
+    })
+  }
+})
@@ -0,0 +1,16 @@
+// Image formats the server renderer encodes. Kept apart from server.ts so code that only
+// validates requests doesn't load the native canvas.
+
+export type ServerImageFormat = 'png' | 'jpeg' | 'webp' | 'avif'
+
+export const SERVER_IMAGE_FORMATS: Record<ServerImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif'
+}
+
+// Own keys only: `in` would also accept names the object inherits, such as "toString"
+export const isServerImageFormat = (value: unknown): value is ServerImageFormat => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(SERVER_IMAGE_FORMATS, value)
+}
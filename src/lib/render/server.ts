@@ -0,0 +1,52 @@
+// Server-side rendering on @napi-rs/canvas. Node runtime only: the native addon can't load on
+// the edge or in Cloudflare Workers.
+
+import { createCanvas, loadImage } from '@napi-rs/canvas'
+import { BackgroundRecipe } from '@/lib/recipe'
+import { CanvasFactory, RenderContext } from './context'
+import { renderForExport } from './tiled'
+import { ForegroundAssets } from './foreground'
+import { ServerImageFormat } from './server-formats'
+
+export { SERVER_IMAGE_FORMATS, isServerImageFormat } from './server-formats'
+export type { ServerImageFormat } from './server-formats'
+
+// The skia context implements the same drawing API as the DOM one
+export const createServerCanvas: CanvasFactory = (width, height) => {
+  const canvas = createCanvas(width, height)
+  return {
+    canvas: canvas as unknown as OffscreenCanvas,
+    ctx: canvas.getContext('2d') as unknown as RenderContext
+  }
+}
+
+// skia decodes SVG as well as bitmaps, and draws SVG logos as vectors at any size
+const loadServerAssets = async (recipe: BackgroundRecipe): Promise<ForegroundAssets> => {
+  const { enabled, logo } = recipe.foreground
+  if (!enabled || !logo.src) return { logo: null }
+  const image = await loadImage(logo.src)
+  return { logo: { image: image as unknown as CanvasImageSource, width: image.width, height: image.height } }
+}
+
+export const renderToBuffer = async (
+  recipe: BackgroundRecipe,
+  width: number,
+  height: number,
+  format: ServerImageFormat = 'png',
+  quality: number = 0.95
+): Promise<Buffer> => {
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d') as unknown as RenderContext
+
+  const assets = await loadServerAssets(recipe)
+  await renderForExport(ctx, recipe, { width, height, createCanvas: createServerCanvas, assets })
+
+  if (format === 'png') {
+    return canvas.encode('png')
+  }
+  // skia takes quality as 0-100
+  if (format === 'avif') {
+    return canvas.encode('avif', { quality: Math.round(quality * 100) })
+  }
+  return canvas.encode(format, Math.round(quality * 100))
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { BackgroundRecipe, GradientStyle, recipeFromSeed } from '@/lib/recipe'
+import { render } from './pipeline'
+import { createServerCanvas } from './server'
+import { renderTiled } from './tiled'
+
+const base = recipeFromSeed(5)
+
+const withStyle = (style: GradientStyle): BackgroundRecipe => ({
+  ...base,
+  layers: [{ ...base.layers[0], style }]
+})
+
+const pixels = async (recipe: BackgroundRecipe, width: number, height: number, tiled: boolean) => {
+  const target = createServerCanvas(width, height)
+  if (!target) throw new Error('Could not allocate a canvas')
+  if (tiled) await renderTiled(target.ctx, recipe, { width, height, stripSize: 128, createCanvas: createServerCanvas })
+  else render(target.ctx, recipe, { width, height, createCanvas: createServerCanvas })
+  return target.ctx.getImageData(0, 0, width, height).data
+}
+
+const difference = async (recipe: BackgroundRecipe, width: number, height: number) => {
+  const plain = await pixels(recipe, width, height, false)
+  const tiled = await pixels(recipe, width, height, true)
+  let max = 0
+  let sum = 0
+  plain.forEach((value, i) => {
+    const delta = Math.abs(value - tiled[i])
+    max = Math.max(max, delta)
+    sum += delta
+  })
+  return { max, mean: sum / plain.length }
+}
+
+describe('renderTiled', () => {
+  it.each<[string, BackgroundRecipe]>([
+    ['no effects', base],
+    ['glass and ripple, which reach across strip edges', { ...base, overlay: { enabled: true, type: 'glass', intensity: 0.6 }, ripple: { ...base.ripple, enabled: true } }],
+    ['vertical glitch, which strips by column', { ...base, overlay: { enabled: true, type: 'vertical-glitch', intensity: 0.6 } }]
+  ])('matches a plain render exactly while the soft layer is full size (%s)', async (_, recipe) => {
+    expect(await difference(recipe, 640, 400)).toEqual({ max: 0, mean: 0 })
+  })
+
+  // Above the soft layer cap the blurred field is upscaled; the hard-edged mesh style is the worst case
+  it('stays within a few levels of a plain render once the soft layer is upscaled', async () => {
+    const { max, mean } = await difference(withStyle('wave'), 3000, 600)
+    expect(max).toBeLessThanOrEqual(8)
+    expect(mean).toBeLessThanOrEqual(0.25)
+  }, 30_000)
+})
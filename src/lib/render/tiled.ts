@@ -0,0 +1,138 @@
+// Tiled rendering for very large exports (8K, print posters). A plain render holds several
+// full-size buffers at once: the pixel buffer, its displacement scratch copy and the blur's
+// float channels. Here the output canvas is the only full-size allocation; everything else
+// happens in strips.
+//
+// The heavy blur reaches 12% of the short side in three passes, so padding full-resolution tiles
+// enough to hide its seams would mean rendering most of the image for every tile. Its output is
+// a soft color field with no detail at that scale, so it is rendered once at a capped size and
+// scaled up into each strip, which leaves no seams to hide. The detail passes then run per strip
+// in full-image coordinates, with overlapping padding for the passes that reach across strip
+// edges (glass, ripple), and match a full render exactly given the same soft layer.
+//
+// So tiled output is pixel-identical to a plain render only up to SOFT_LAYER_SIZE. Beyond it
+// the upscaled soft layer is an approximation: channels differ by a few levels at most (4 of
+// 255 in the worst case measured, on the hard-edged mesh style), well under 0.1 on average.
+
+import { BackgroundRecipe } from '@/lib/recipe'
+import { CanvasFactory, RenderContext, RenderRegion, createBrowserCanvas } from './context'
+import { applyDetailPasses, render, renderSoftLayer } from './pipeline'
+import { ForegroundAssets, drawForeground } from './foreground'
+
+// Above this many pixels exports are rendered in strips (4K UHD and below render in one go)
+export const TILED_RENDER_THRESHOLD = 3840 * 2160
+
+// Long side of the soft layer; its blur radius is ~250px at this size, far above any upscaling artifact
+const SOFT_LAYER_SIZE = 2048
+
+const DEFAULT_STRIP_SIZE = 512
+
+export interface TiledRenderOptions {
+  width: number
+  height: number
+  stripSize?: number
+  createCanvas?: CanvasFactory
+  onProgress?: (done: number, total: number) => void
+  // Checked between strips, so a superseded export stops early
+  signal?: AbortSignal
+  assets?: ForegroundAssets
+}
+
+export class RenderCancelledError extends Error {
+  constructor() {
+    super('Render cancelled')
+    this.name = 'RenderCancelledError'
+  }
+}
+
+// Glitch passes shift whole scanlines, so strips run along them: rows, or columns for vertical glitch
+const usesColumnStrips = (recipe: BackgroundRecipe) => {
+  return recipe.overlay.enabled && recipe.overlay.intensity > 0 && recipe.overlay.type === 'vertical-glitch'
+}
+
+// How far the passes reach beyond the pixels they write. Ripple reads the overlay's output,
+// so their reaches add up.
+const stripPadding = (recipe: BackgroundRecipe) => {
+  let padding = 0
+  if (recipe.overlay.enabled && recipe.overlay.intensity > 0 && recipe.overlay.type === 'glass') {
+    padding += Math.ceil(recipe.overlay.intensity * 20) + 1
+  }
+  if (recipe.ripple.enabled) {
+    padding += Math.ceil(Math.max(recipe.ripple.amplitudeX, recipe.ripple.amplitudeY)) + 1
+  }
+  return padding
+}
+
+// Let the page repaint (progress, cancel buttons) between strips
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0))
+
+export const renderTiled = async (
+  ctx: RenderContext,
+  recipe: BackgroundRecipe,
+  { width, height, stripSize = DEFAULT_STRIP_SIZE, createCanvas = createBrowserCanvas, onProgress, signal, assets }: TiledRenderOptions
+) => {
+  const scale = Math.min(1, SOFT_LAYER_SIZE / Math.max(width, height))
+  const softWidth = Math.max(1, Math.round(width * scale))
+  const softHeight = Math.max(1, Math.round(height * scale))
+  const soft = createCanvas(softWidth, softHeight)
+  if (!soft) throw new Error('Could not allocate the soft layer canvas')
+  renderSoftLayer(soft.ctx, recipe, softWidth, softHeight, { createCanvas })
+
+  const columns = usesColumnStrips(recipe)
+  const length = columns ? width : height
+  const padding = stripPadding(recipe)
+  const total = Math.ceil(length / stripSize)
+
+  const strip = columns
+    ? createCanvas(Math.min(width, stripSize + padding * 2), height)
+    : createCanvas(width, Math.min(height, stripSize + padding * 2))
+  if (!strip) throw new Error('Could not allocate a strip canvas')
+
+  ctx.clearRect(0, 0, width, height)
+
+  for (let index = 0; index < total; index++) {
+    // Checked before each strip, so a render that has drawn its last strip is never thrown away
+    if (signal?.aborted) throw new RenderCancelledError()
+    const start = index * stripSize
+    const end = Math.min(length, start + stripSize)
+    const paddedStart = Math.max(0, start - padding)
+    const paddedEnd = Math.min(length, end + padding)
+
+    const region: RenderRegion = columns
+      ? { x: paddedStart, y: 0, fullWidth: width, fullHeight: height }
+      : { x: 0, y: paddedStart, fullWidth: width, fullHeight: height }
+    const stripWidth = columns ? paddedEnd - paddedStart : width
+    const stripHeight = columns ? height : paddedEnd - paddedStart
+
+    strip.ctx.clearRect(0, 0, strip.canvas.width, strip.canvas.height)
+    strip.ctx.imageSmoothingEnabled = true
+    strip.ctx.imageSmoothingQuality = 'high'
+    strip.ctx.drawImage(soft.canvas, -region.x, -region.y, width, height)
+
+    applyDetailPasses(strip.ctx, recipe, stripWidth, stripHeight, { region })
+
+    // Keep only the strip's own pixels; the padding was context for the displacement passes
+    const offset = start - paddedStart
+    const size = end - start
+    if (columns) {
+      ctx.drawImage(strip.canvas, offset, 0, size, height, start, 0, size, height)
+    } else {
+      ctx.drawImage(strip.canvas, 0, offset, width, size, 0, start, width, size)
+    }
+
+    onProgress?.(index + 1, total)
+    await nextTick()
+  }
+
+  // The foreground is vector drawing on the output canvas, so it needs no strips
+  drawForeground(ctx, recipe, width, height, assets)
+}
+
+// Export-size renders come through here, so the editor, the CLI and the API agree on when tiling kicks in
+export const renderForExport = async (ctx: RenderContext, recipe: BackgroundRecipe, options: TiledRenderOptions) => {
+  if (options.width * options.height > TILED_RENDER_THRESHOLD) {
+    await renderTiled(ctx, recipe, options)
+    return
+  }
+  render(ctx, recipe, { width: options.width, height: options.height, assets: options.assets, createCanvas: options.createCanvas })
+}
@@ -0,0 +1,201 @@
+// Page side of the render worker. Previews are coalesced: while one is rendering, only the newest
+// request waits, so dragging a slider never queues up stale frames. Exports and animations can be
+// cancelled and report progress. Browsers without a usable OffscreenCanvas render on the main thread instead.
+// Previews leave the foreground to the page (see CanvasRenderer); exports and animations get
+// the decoded logo attached here, since only the page can decode it.
+
+import { BackgroundRecipe } from '@/lib/recipe'
+import { EncodedImage, ExportFormat, encodeCanvas, renderExportCanvas } from '@/lib/export'
+import { AnimationRequest, encodeAnimation } from '@/lib/animation'
+import { loadForegroundAssets } from '@/lib/logo'
+import { createBrowserCanvas, supportsOffscreenRendering } from './context'
+import { ForegroundAssets } from './foreground'
+import { render } from './pipeline'
+import { RenderCancelledError } from './tiled'
+
+export { RenderCancelledError }
+
+export interface PreviewRequest {
+  recipe: BackgroundRecipe
+  width: number
+  height: number
+  time?: number
+  draft?: boolean
+}
+
+export interface ExportRequest {
+  recipe: BackgroundRecipe
+  width: number
+  height: number
+  format: ExportFormat
+  quality: number
+  assets?: ForegroundAssets
+}
+
+export interface ExportJobOptions {
+  onProgress?: (done: number, total: number) => void
+  signal?: AbortSignal
+}
+
+export type RenderWorkerRequest =
+  | ({ type: 'preview'; id: number } & PreviewRequest)
+  | ({ type: 'export'; id: number } & ExportRequest)
+  | ({ type: 'animation'; id: number } & AnimationRequest)
+  | { type: 'cancel'; id: number }
+
+export type RenderWorkerResponse =
+  | { type: 'preview'; id: number; bitmap: ImageBitmap }
+  | { type: 'export'; id: number; image: EncodedImage }
+  | { type: 'animation'; id: number; blob: Blob }
+  | { type: 'progress'; id: number; done: number; total: number }
+  | { type: 'error'; id: number; message: string; cancelled: boolean }
+
+interface PendingJob {
+  resolve: (value: ImageBitmap | EncodedImage | Blob) => void
+  reject: (error: Error) => void
+  onProgress?: (done: number, total: number) => void
+}
+
+const jobs = new Map<number, PendingJob>()
+let nextJobId = 1
+
+const handleMessage = (event: MessageEvent<RenderWorkerResponse>) => {
+  const response = event.data
+  const job = jobs.get(response.id)
+  if (!job) {
+    // A cancelled job finished anyway; release its pixels
+    if (response.type === 'preview') response.bitmap.close()
+    return
+  }
+
+  if (response.type === 'progress') {
+    job.onProgress?.(response.done, response.total)
+    return
+  }
+
+  jobs.delete(response.id)
+  if (response.type === 'preview') job.resolve(response.bitmap)
+  else if (response.type === 'export') job.resolve(response.image)
+  else if (response.type === 'animation') job.resolve(response.blob)
+  else job.reject(response.cancelled ? new RenderCancelledError() : new Error(response.message))
+}
+
+// Created on first use; null once we know rendering has to stay on the main thread
+let worker: Worker | null | undefined
+
+const getWorker = () => {
+  if (worker !== undefined) return worker
+  worker = supportsOffscreenRendering() ? new Worker(new URL('./render.worker.ts', import.meta.url)) : null
+  worker?.addEventListener('message', handleMessage)
+
+  // If the worker itself dies, fail what is in flight and fall back for everything after
+  worker?.addEventListener('error', event => {
+    console.error('Render worker failed:', event.message)
+    worker?.terminate()
+    worker = null
+    jobs.forEach(job => job.reject(new Error('Render worker failed')))
+    jobs.clear()
+  })
+  return worker
+}
+
+// A job before it has an id; omitted per request type, so each keeps its own fields
+type NewJob<R = Extract<RenderWorkerRequest, { type: 'preview' | 'export' | 'animation' }>> = R extends unknown ? Omit<R, 'id'> : never
+
+const postJob = <T>(
+  target: Worker,
+  request: NewJob,
+  { onProgress, signal }: ExportJobOptions = {}
+) => {
+  if (signal?.aborted) return Promise.reject(new RenderCancelledError())
+
+  const id = nextJobId++
+  return new Promise<T>((resolve, reject) => {
+    jobs.set(id, { resolve: resolve as PendingJob['resolve'], reject, onProgress })
+    target.postMessage({ ...request, id })
+
+    signal?.addEventListener('abort', () => {
+      if (!jobs.delete(id)) return
+      target.postMessage({ type: 'cancel', id })
+      reject(new RenderCancelledError())
+    })
+  })
+}
+
+const renderPreviewBitmap = async (request: PreviewRequest): Promise<ImageBitmap> => {
+  const target = getWorker()
+  if (target) return postJob<ImageBitmap>(target, { type: 'preview', ...request })
+
+  const surface = createBrowserCanvas(request.width, request.height)
+  if (!surface) throw new Error('Could not allocate the preview canvas')
+  render(surface.ctx, request.recipe, request)
+  return createImageBitmap(surface.canvas)
+}
+
+interface QueuedPreview {
+  request: PreviewRequest
+  signal?: AbortSignal
+  resolve: (bitmap: ImageBitmap | null) => void
+  reject: (error: Error) => void
+}
+
+let previewBusy = false
+let queuedPreview: QueuedPreview | null = null
+
+const runQueuedPreview = async () => {
+  if (previewBusy || !queuedPreview) return
+  const { request, signal, resolve, reject } = queuedPreview
+  queuedPreview = null
+
+  if (signal?.aborted) {
+    resolve(null)
+    runQueuedPreview()
+    return
+  }
+
+  previewBusy = true
+  try {
+    const bitmap = await renderPreviewBitmap(request)
+    if (signal?.aborted) {
+      bitmap.close()
+      resolve(null)
+    } else {
+      resolve(bitmap)
+    }
+  } catch (error) {
+    reject(error instanceof Error ? error : new Error(String(error)))
+  } finally {
+    previewBusy = false
+    runQueuedPreview()
+  }
+}
+
+// Resolves with null when the frame was superseded or aborted before it could be shown.
+// The caller owns the bitmap and should close() it once drawn
+export const renderPreview = (request: PreviewRequest, signal?: AbortSignal): Promise<ImageBitmap | null> => {
+  return new Promise((resolve, reject) => {
+    queuedPreview?.resolve(null)
+    queuedPreview = { request, signal, resolve, reject }
+    runQueuedPreview()
+  })
+}
+
+// Renders and encodes one export file; rejects with RenderCancelledError when the signal aborts
+export const renderExport = async (request: ExportRequest, options: ExportJobOptions = {}): Promise<EncodedImage> => {
+  const assets = request.assets ?? (await loadForegroundAssets(request.recipe, request.width, request.height))
+  const target = getWorker()
+  if (target) return postJob<EncodedImage>(target, { type: 'export', ...request, assets }, options)
+
+  const { recipe, width, height, format, quality } = request
+  const canvas = await renderExportCanvas(recipe, width, height, { ...options, assets })
+  if (options.signal?.aborted) throw new RenderCancelledError()
+  return encodeCanvas(canvas, format, quality)
+}
+
+// Renders one loop of the animation into an animated file; rejects with RenderCancelledError when the signal aborts
+export const renderAnimation = async (request: AnimationRequest, options: ExportJobOptions = {}): Promise<Blob> => {
+  const assets = request.assets ?? (await loadForegroundAssets(request.recipe, request.width, request.height))
+  const target = getWorker()
+  if (target) return postJob<Blob>(target, { type: 'animation', ...request, assets }, options)
+  return encodeAnimation({ ...request, assets }, options)
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { BackgroundRecipe, DEFAULT_LAYER, DEFAULT_RECIPE, colorFromHex, recipeFromSeed } from './recipe'
+import { createShareUrl, decodeRecipe, encodeRecipe, readRecipeFromHash } from './share'
+
+const decoded = (encoded: string): BackgroundRecipe => {
+  const result = decodeRecipe(encoded)
+  if (!result.ok) throw new Error(`Expected a valid link, got: ${result.errors.join('; ')}`)
+  return result.recipe
+}
+
+describe('share links', () => {
+  it('round-trip a generated background', () => {
+    const recipe = recipeFromSeed(1234)
+    expect(decoded(encodeRecipe(recipe))).toEqual(recipe)
+  })
+
+  it('round-trip nested settings, layers, blobs and non-ASCII text', () => {
+    const recipe: BackgroundRecipe = {
+      ...recipeFromSeed(7),
+      zoomLevel: 1.4,
+      overlay: { ...DEFAULT_RECIPE.overlay, enabled: true, type: 'pattern' },
+      layers: [DEFAULT_LAYER, { ...DEFAULT_LAYER, id: 'top', style: 'sunburst', opacity: 0.5, blendMode: 'screen', mask: 'radial' }],
+      colorBlobs: [{ color: colorFromHex('#F13D51'), x: 0.25, y: 0.75, radius: 0.4, intensity: 1 }],
+      foreground: {
+        ...DEFAULT_RECIPE.foreground,
+        enabled: true,
+        headline: { ...DEFAULT_RECIPE.foreground.headline, text: 'Grüße — 你好 🎨' }
+      }
+    }
+    expect(decoded(encodeRecipe(recipe))).toEqual(recipe)
+  })
+
+  it('only write settings that differ from the defaults', () => {
+    const plain = encodeRecipe(DEFAULT_RECIPE)
+    const zoomed = encodeRecipe({ ...DEFAULT_RECIPE, zoomLevel: 2 })
+    expect(plain.length).toBeLessThan(200)
+    expect(zoomed.length).toBeGreaterThan(plain.length)
+    expect(zoomed.length - plain.length).toBeLessThan(30)
+  })
+
+  it('leave the logo image out', () => {
+    const recipe: BackgroundRecipe = {
+      ...DEFAULT_RECIPE,
+      foreground: { ...DEFAULT_RECIPE.foreground, logo: { ...DEFAULT_RECIPE.foreground.logo, src: 'data:image/png;base64,AAAA', anchor: 'top' } }
+    }
+    const { logo } = decoded(encodeRecipe(recipe)).foreground
+    expect(logo.src).toBeNull()
+    expect(logo.anchor).toBe('top')
+  })
+
+  it('are read from the hash of a share URL', () => {
+    const recipe = recipeFromSeed(99)
+    const url = createShareUrl(recipe, 'https://example.com/app#old')
+    expect(url.startsWith('https://example.com/app#r=')).toBe(true)
+    const result = readRecipeFromHash(new URL(url).hash)
+    expect(result?.ok && result.recipe).toEqual(recipe)
+    expect(readRecipeFromHash('#other=1')).toBeNull()
+  })
+
+  it('report a damaged payload as an error', () => {
+    expect(decodeRecipe('not base64 json!').ok).toBe(false)
+    expect(decodeRecipe(encodeRecipe(DEFAULT_RECIPE).slice(0, 10)).ok).toBe(false)
+  })
+})
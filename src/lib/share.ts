@@ -0,0 +1,80 @@
+// Shareable links: the recipe travels in the URL fragment as base64url-encoded JSON
+// Only fields that differ from DEFAULT_RECIPE are written, which keeps typical links short
+
+import { BackgroundRecipe, DEFAULT_RECIPE, RECIPE_VERSION, RecipeParseResult, parseRecipe } from './recipe'
+
+export const SHARE_HASH_KEY = 'r'
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json }
+
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b)
+
+// Drop values equal to the default, recursing into nested settings objects
+const diffFromDefaults = (value: Record<string, unknown>, defaults: Record<string, unknown>): Record<string, Json> => {
+  const result: Record<string, Json> = {}
+  Object.entries(value).forEach(([key, entry]) => {
+    const fallback = defaults[key]
+    if (isEqual(entry, fallback)) return
+    if (entry && typeof entry === 'object' && !Array.isArray(entry) && fallback && typeof fallback === 'object') {
+      result[key] = diffFromDefaults(entry as Record<string, unknown>, fallback as Record<string, unknown>)
+    } else {
+      result[key] = entry as Json
+    }
+  })
+  return result
+}
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  bytes.forEach(byte => { binary += String.fromCharCode(byte) })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+export const encodeRecipe = (recipe: BackgroundRecipe): string => {
+  const { colors, colorBlobs, foreground, ...rest } = recipe
+  // A logo image is far too big for a link; the link keeps its placement, and recipe files keep the image
+  const linked = { ...rest, foreground: { ...foreground, logo: { ...foreground.logo, src: null } } }
+  const compact = {
+    ...diffFromDefaults(linked, DEFAULT_RECIPE as unknown as Record<string, unknown>),
+    version: RECIPE_VERSION,
+    seed: recipe.seed,
+    // Colors are reduced to their hex; names are recovered from the brand palette on load
+    colors: colors.map(color => color.hex.replace('#', '')),
+    ...(colorBlobs.length > 0 && {
+      colorBlobs: colorBlobs.map(({ color, x, y, radius, intensity }) => ({ color: color.hex, x, y, radius, intensity }))
+    })
+  }
+  return toBase64Url(JSON.stringify(compact))
+}
+
+export const decodeRecipe = (encoded: string): RecipeParseResult => {
+  let input: unknown
+  try {
+    input = JSON.parse(fromBase64Url(encoded))
+  } catch {
+    return { ok: false, errors: ['Link does not contain a valid background'] }
+  }
+  return parseRecipe(input)
+}
+
+// Reads `#r=...` from a location hash; returns null when the hash carries no recipe
+export const readRecipeFromHash = (hash: string): RecipeParseResult | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const encoded = params.get(SHARE_HASH_KEY)
+  return encoded ? decodeRecipe(encoded) : null
+}
+
+export const createRecipeHash = (recipe: BackgroundRecipe): string => {
+  return `#${SHARE_HASH_KEY}=${encodeRecipe(recipe)}`
+}
+
+export const createShareUrl = (recipe: BackgroundRecipe, baseUrl: string): string => {
+  return `${baseUrl.split('#')[0]}${createRecipeHash(recipe)}`
+}
@@ -0,0 +1,111 @@
+// Variations: controlled mutations of the current design, for exploring around something that
+// mostly works instead of regenerating from scratch. Each variation comes from its own stream of
+// the batch seed, so a batch can be reproduced and one variation never shifts another.
+
+import { BackgroundRecipe, NUMBER_RANGES } from './recipe'
+import { DEFAULT_PALETTE, Palette, neighborShades } from './palette'
+import { MAX_SEED, RandomFn, createStageRandom, pick, shuffle } from '@/utils/random'
+
+export type MutationKind = 'seed' | 'sliders' | 'order' | 'shade'
+
+export const MUTATION_KINDS: { kind: MutationKind; label: string }[] = [
+  { kind: 'seed', label: 'New seed' },
+  { kind: 'sliders', label: 'Jitter sliders' },
+  { kind: 'order', label: 'Shuffle colors' },
+  { kind: 'shade', label: 'Neighboring shades' }
+]
+
+export const VARIATION_COUNTS = [9, 16]
+
+export interface Variation {
+  recipe: BackgroundRecipe
+  // What changed, for the grid and the undo history
+  label: string
+}
+
+// Fraction of each slider's range a jitter may move it
+const JITTER = 0.15
+
+const JITTERED_FIELDS = ['gradientIntensity', 'gradientDensity', 'zoomLevel'] as const
+
+type Mutation = (recipe: BackgroundRecipe, random: RandomFn, palette: Palette) => { recipe: BackgroundRecipe; label: string } | null
+
+// Same palette and settings, new blob layout and texture
+const newSeed = (recipe: BackgroundRecipe, random: RandomFn) => {
+  const seed = Math.floor(random() * MAX_SEED)
+  return { recipe: { ...recipe, seed }, label: `Seed ${seed}` }
+}
+
+const MUTATIONS: Record<MutationKind, Mutation> = {
+  seed: newSeed,
+
+  sliders: (recipe, random) => {
+    const next = { ...recipe }
+    for (const field of JITTERED_FIELDS) {
+      const [min, max] = NUMBER_RANGES[field]
+      const value = recipe[field] + (random() * 2 - 1) * JITTER * (max - min)
+      next[field] = Math.round(Math.max(min, Math.min(max, value)) * 100) / 100
+    }
+    return { recipe: next, label: 'Jittered sliders' }
+  },
+
+  order: (recipe, random) => {
+    if (recipe.colors.length < 2) return null
+    let colors = shuffle(recipe.colors, random)
+    // A shuffle can land on the same order; rotate instead so something always changes
+    if (colors.every((color, i) => color.hex === recipe.colors[i].hex)) colors = [...colors.slice(1), colors[0]]
+    return { recipe: { ...recipe, colors }, label: 'Shuffled colors' }
+  },
+
+  // One color moves a shade lighter or darker within its palette family; positioned blobs of
+  // that color follow it
+  shade: (recipe, random, palette) => {
+    const candidates = recipe.colors.map((color, index) => ({ index, shades: neighborShades(palette, color) })).filter(entry => entry.shades.length > 0)
+    if (candidates.length === 0) return null
+    const { index, shades } = pick(candidates, random)
+    const from = recipe.colors[index]
+    const to = pick(shades, random)
+    return {
+      recipe: {
+        ...recipe,
+        colors: recipe.colors.map((color, i) => (i === index ? to : color)),
+        colorBlobs: recipe.colorBlobs.map(blob => (blob.color.hex === from.hex ? { ...blob, color: to } : blob))
+      },
+      label: `${from.name} → ${to.name}`
+    }
+  }
+}
+
+// `count` variations of `recipe`, each applying one or two of the allowed mutations
+export const createVariations = (
+  recipe: BackgroundRecipe,
+  count: number,
+  batchSeed: number,
+  kinds: MutationKind[] = MUTATION_KINDS.map(entry => entry.kind),
+  palette: Palette = DEFAULT_PALETTE
+): Variation[] => {
+  if (kinds.length === 0) return []
+
+  return Array.from({ length: count }, (_, index) => {
+    const random = createStageRandom(batchSeed, `variation:${index}`)
+    const chosen = shuffle(kinds, random).slice(0, random() < 0.5 ? 1 : 2)
+
+    let current = recipe
+    const labels: string[] = []
+    for (const kind of chosen) {
+      const result = MUTATIONS[kind](current, random, palette)
+      if (!result) continue
+      current = result.recipe
+      labels.push(result.label)
+    }
+
+    // Nothing applied (e.g. only "shade" with no palette colors): fall back to a new seed
+    if (labels.length === 0) {
+      const result = newSeed(current, random)
+      current = result.recipe
+      labels.push(result.label)
+    }
+
+    return { recipe: current, label: labels.join(', ') }
+  })
+}
@@ -0,0 +1,201 @@
+// WebM video from canvas frames. Frames go through WebCodecs (VP9, or VP8 where VP9 encoding is
+// missing) one at a time, so timing is exact no matter how long each frame takes to render, and
+// the encoded chunks are muxed here into a minimal WebM: one video track, a cluster per keyframe.
+
+export interface WebmCodec {
+  config: string
+  // Matroska codec ID
+  id: string
+}
+
+const WEBM_CODECS: WebmCodec[] = [
+  { config: 'vp09.00.10.08', id: 'V_VP9' },
+  { config: 'vp8', id: 'V_VP8' }
+]
+
+// Soft gradients compress well; grain needs most of these bits
+const BITS_PER_PIXEL = 0.2
+
+const KEYFRAME_INTERVAL_SECONDS = 2
+
+const encoderConfig = (codec: WebmCodec, width: number, height: number, fps: number): VideoEncoderConfig => ({
+  codec: codec.config,
+  width,
+  height,
+  framerate: fps,
+  bitrate: Math.round(width * height * fps * BITS_PER_PIXEL)
+})
+
+// The first codec this browser can encode at this size, or null without WebCodecs
+export const findWebmCodec = async (width = 1280, height = 720, fps = 30): Promise<WebmCodec | null> => {
+  if (typeof VideoEncoder === 'undefined') return null
+  for (const codec of WEBM_CODECS) {
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported(encoderConfig(codec, width, height, fps))
+      if (supported) return codec
+    } catch {
+      // Unknown codec strings throw in some browsers
+    }
+  }
+  return null
+}
+
+// EBML: element ID, a variable-length size, then the payload
+const encodeSize = (size: number) => {
+  let length = 1
+  while (length < 8 && size >= 2 ** (7 * length) - 1) length++
+  const bytes = new Uint8Array(length)
+  let value = size
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256
+    value = Math.floor(value / 256)
+  }
+  bytes[0] |= 0x80 >> (length - 1)
+  return bytes
+}
+
+const encodeUint = (value: number) => {
+  const bytes: number[] = []
+  do {
+    bytes.unshift(value % 256)
+    value = Math.floor(value / 256)
+  } while (value > 0)
+  return new Uint8Array(bytes)
+}
+
+const encodeFloat = (value: number) => {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setFloat64(0, value)
+  return bytes
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    output.set(part, offset)
+    offset += part.length
+  }
+  return output
+}
+
+const element = (id: number, ...children: Uint8Array[]) => {
+  const payload = concat(children)
+  return concat([encodeUint(id), encodeSize(payload.length), payload])
+}
+
+const uintElement = (id: number, value: number) => element(id, encodeUint(value))
+const stringElement = (id: number, value: string) => element(id, new TextEncoder().encode(value))
+
+export interface WebmChunk {
+  data: Uint8Array
+  // Milliseconds from the start
+  timestamp: number
+  keyFrame: boolean
+}
+
+export const muxWebm = (chunks: WebmChunk[], codec: WebmCodec, width: number, height: number, duration: number) => {
+  const header = element(
+    0x1a45dfa3,
+    uintElement(0x4286, 1), // EBMLVersion
+    uintElement(0x42f7, 1), // EBMLReadVersion
+    uintElement(0x42f2, 4), // EBMLMaxIDLength
+    uintElement(0x42f3, 8), // EBMLMaxSizeLength
+    stringElement(0x4282, 'webm'), // DocType
+    uintElement(0x4287, 2), // DocTypeVersion
+    uintElement(0x4285, 2) // DocTypeReadVersion
+  )
+
+  const info = element(
+    0x1549a966,
+    uintElement(0x2ad7b1, 1000000), // TimecodeScale: timestamps in milliseconds
+    stringElement(0x4d80, 'background-generator'), // MuxingApp
+    stringElement(0x5741, 'background-generator'), // WritingApp
+    element(0x4489, encodeFloat(duration)) // Duration
+  )
+
+  const tracks = element(
+    0x1654ae6b,
+    element(
+      0xae, // TrackEntry
+      uintElement(0xd7, 1), // TrackNumber
+      uintElement(0x73c5, 1), // TrackUID
+      uintElement(0x83, 1), // TrackType: video
+      stringElement(0x86, codec.id), // CodecID
+      element(0xe0, uintElement(0xb0, width), uintElement(0xba, height)) // Video: PixelWidth, PixelHeight
+    )
+  )
+
+  // Block timecodes are 16-bit offsets from their cluster, so start a cluster at every keyframe
+  const clusters: Uint8Array[] = []
+  let clusterStart = 0
+  let blocks: Uint8Array[] = []
+  const closeCluster = () => {
+    if (blocks.length > 0) clusters.push(element(0x1f43b675, uintElement(0xe7, clusterStart), ...blocks))
+    blocks = []
+  }
+
+  for (const chunk of chunks) {
+    const timestamp = Math.round(chunk.timestamp)
+    if (chunk.keyFrame || timestamp - clusterStart > 30000) {
+      closeCluster()
+      clusterStart = timestamp
+    }
+    const blockHeader = new Uint8Array(4)
+    blockHeader[0] = 0x81 // track number 1 as a size-style integer
+    new DataView(blockHeader.buffer).setInt16(1, timestamp - clusterStart)
+    blockHeader[3] = chunk.keyFrame ? 0x80 : 0x00
+    blocks.push(element(0xa3, blockHeader, chunk.data)) // SimpleBlock
+  }
+  closeCluster()
+
+  return concat([header, element(0x18538067, info, tracks, ...clusters)])
+}
+
+export interface WebmEncoder {
+  // `source` is the canvas holding the frame; timestamps advance by 1 / fps per frame
+  addFrame: (source: CanvasImageSource) => Promise<void>
+  finish: () => Promise<Uint8Array>
+}
+
+export const createWebmEncoder = (codec: WebmCodec, width: number, height: number, fps: number): WebmEncoder => {
+  const chunks: WebmChunk[] = []
+  let failure: Error | null = null
+  let frameIndex = 0
+
+  const encoder = new VideoEncoder({
+    output: chunk => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      chunks.push({ data, timestamp: chunk.timestamp / 1000, keyFrame: chunk.type === 'key' })
+    },
+    error: error => {
+      failure = error
+    }
+  })
+  encoder.configure(encoderConfig(codec, width, height, fps))
+
+  const frameDuration = 1000000 / fps
+
+  return {
+    addFrame: async source => {
+      if (failure) throw failure
+
+      const frame = new VideoFrame(source, { timestamp: Math.round(frameIndex * frameDuration), duration: Math.round(frameDuration) })
+      encoder.encode(frame, { keyFrame: frameIndex % Math.round(fps * KEYFRAME_INTERVAL_SECONDS) === 0 })
+      frame.close()
+      frameIndex++
+
+      // Let the encoder catch up rather than queueing every frame in memory
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise(resolve => setTimeout(resolve, 5))
+      }
+    },
+    finish: async () => {
+      await encoder.flush()
+      encoder.close()
+      if (failure) throw failure
+      return muxWebm(chunks, codec, width, height, (frameIndex * 1000) / fps)
+    }
+  }
+}
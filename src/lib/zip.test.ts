@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { crc32, createZip } from './zip'
+
+const text = (source: string) => new TextEncoder().encode(source)
+
+// Reads a stored-only archive back through its central directory, the way unzip tools do
+const readZip = (archive: Uint8Array) => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength)
+  const end = archive.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  expect(offset + view.getUint32(end + 12, true)).toBe(end)
+
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const crc = view.getUint32(offset + 16, true)
+    const size = view.getUint32(offset + 24, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const name = new TextDecoder().decode(archive.subarray(offset + 46, offset + 46 + nameLength))
+    const local = view.getUint32(offset + 42, true)
+    offset += 46 + nameLength
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50)
+    expect(view.getUint32(local + 14, true)).toBe(crc)
+    const dataStart = local + 30 + view.getUint16(local + 26, true)
+    return { name, crc, data: archive.subarray(dataStart, dataStart + size) }
+  })
+}
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(text('123456789'))).toBe(0xcbf43926)
+    expect(crc32(new Uint8Array())).toBe(0)
+    expect(crc32(text('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339)
+  })
+})
+
+describe('createZip', () => {
+  it('writes entries that read back with their names, data and checksums', () => {
+    const entries = [
+      { name: 'background-1920x1080.webp', data: text('first') },
+      { name: 'grüße/背景.png', data: new Uint8Array([0, 255, 1, 254]) },
+      { name: 'empty.txt', data: new Uint8Array() }
+    ]
+    const files = readZip(createZip(entries))
+    expect(files.map(file => file.name)).toEqual(entries.map(entry => entry.name))
+    files.forEach((file, index) => {
+      expect(Array.from(file.data)).toEqual(Array.from(entries[index].data))
+      expect(file.crc).toBe(crc32(entries[index].data))
+    })
+  })
+
+  it('stores the modification time in MS-DOS format', () => {
+    const archive = createZip([{ name: 'a', data: text('a'), modified: new Date(2024, 4, 17, 13, 45, 31) }])
+    const view = new DataView(archive.buffer)
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15)
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17)
+  })
+
+  it('writes an empty archive as just the end record', () => {
+    const archive = createZip([])
+    expect(archive).toHaveLength(22)
+    expect(readZip(archive)).toEqual([])
+  })
+})
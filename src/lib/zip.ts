@@ -0,0 +1,109 @@
+// Minimal ZIP writer for bundling exports. Entries are stored uncompressed: the images are
+// already compressed, so deflate would cost time for almost no gain.
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+  modified?: Date
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ZIP stores local time in MS-DOS format (2-second resolution, years from 1980)
+const toDosDateTime = (date: Date) => {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+// Classic ZIP offsets and sizes are 32-bit; larger archives would need ZIP64
+const MAX_ZIP_SIZE = 0xffffffff
+
+const UTF8_FLAG = 0x0800
+
+export const createZip = (entries: ZipEntry[]): Uint8Array => {
+  const encoder = new TextEncoder()
+  const files = entries.map(entry => ({
+    ...entry,
+    nameBytes: encoder.encode(entry.name),
+    crc: crc32(entry.data),
+    ...toDosDateTime(entry.modified ?? new Date())
+  }))
+
+  const localSize = files.reduce((sum, file) => sum + 30 + file.nameBytes.length + file.data.length, 0)
+  const centralSize = files.reduce((sum, file) => sum + 46 + file.nameBytes.length, 0)
+  const totalSize = localSize + centralSize + 22
+  if (totalSize > MAX_ZIP_SIZE || files.length > 0xffff) {
+    throw new Error('Archive is too large for the ZIP format')
+  }
+
+  const output = new Uint8Array(totalSize)
+  const view = new DataView(output.buffer)
+  let offset = 0
+
+  const offsets = files.map(file => {
+    const start = offset
+    view.setUint32(offset, 0x04034b50, true) // local file header signature
+    view.setUint16(offset + 4, 20, true) // version needed to extract (2.0)
+    view.setUint16(offset + 6, UTF8_FLAG, true)
+    view.setUint16(offset + 8, 0, true) // method: stored
+    view.setUint16(offset + 10, file.time, true)
+    view.setUint16(offset + 12, file.date, true)
+    view.setUint32(offset + 14, file.crc, true)
+    view.setUint32(offset + 18, file.data.length, true) // compressed size
+    view.setUint32(offset + 22, file.data.length, true) // uncompressed size
+    view.setUint16(offset + 26, file.nameBytes.length, true)
+    view.setUint16(offset + 28, 0, true) // extra field length
+    output.set(file.nameBytes, offset + 30)
+    output.set(file.data, offset + 30 + file.nameBytes.length)
+    offset += 30 + file.nameBytes.length + file.data.length
+    return start
+  })
+
+  const centralStart = offset
+  files.forEach((file, index) => {
+    view.setUint32(offset, 0x02014b50, true) // central directory header signature
+    view.setUint16(offset + 4, 20, true) // version made by
+    view.setUint16(offset + 6, 20, true) // version needed to extract
+    view.setUint16(offset + 8, UTF8_FLAG, true)
+    view.setUint16(offset + 10, 0, true) // method: stored
+    view.setUint16(offset + 12, file.time, true)
+    view.setUint16(offset + 14, file.date, true)
+    view.setUint32(offset + 16, file.crc, true)
+    view.setUint32(offset + 20, file.data.length, true)
+    view.setUint32(offset + 24, file.data.length, true)
+    view.setUint16(offset + 28, file.nameBytes.length, true)
+    // extra length, comment length, disk number, internal and external attributes stay 0
+    view.setUint32(offset + 42, offsets[index], true)
+    output.set(file.nameBytes, offset + 46)
+    offset += 46 + file.nameBytes.length
+  })
+
+  view.setUint32(offset, 0x06054b50, true) // end of central directory signature
+  view.setUint16(offset + 8, files.length, true) // entries on this disk
+  view.setUint16(offset + 10, files.length, true) // total entries
+  view.setUint32(offset + 12, offset - centralStart, true)
+  view.setUint32(offset + 16, centralStart, true)
+
+  return output
+}
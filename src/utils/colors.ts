@@ -1,3 +1,4 @@
+// The built-in brand palette, as a shade table (see src/lib/palette.ts for palettes as data)
 export const brandColors = {
   red: {
     900: '#3C0009',
@@ -99,296 +100,3 @@ export const hexToRgb = (hex: string): [number, number, number] => {
 export const rgbToHex = (r: number, g: number, b: number): string => {
   return "#" + ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1);
 };
-
-// Convert the new brandColors structure to the existing Color interface format
-export const BRAND_COLORS: Color[] = Object.entries(brandColors).flatMap(([colorName, shades]) =>
-  Object.entries(shades).map(([shade, hex]) => ({
-    name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-    hex,
-    rgb: hexToRgb(hex)
-  }))
-);
-
-// Helper function to get colors by shade across all color families
-export const getColorsByShade = (shade: keyof typeof brandColors.red): Color[] => {
-  return Object.entries(brandColors).map(([colorName, shades]) => ({
-    name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-    hex: shades[shade],
-    rgb: hexToRgb(shades[shade])
-  }));
-};
-
-// Helper function to get all shades of a specific color
-export const getColorShades = (colorName: keyof typeof brandColors): Color[] => {
-  return Object.entries(brandColors[colorName]).map(([shade, hex]) => ({
-    name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-    hex,
-    rgb: hexToRgb(hex)
-  }));
-};
-
-// Updated to work with the new color structure
-export const getRandomColors = (count: number = 3): Color[] => {
-  const shuffled = [...BRAND_COLORS].sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, count);
-};
-
-// Get random colors from mid-range shades (400-600) for better gradients
-export const getRandomMidToneColors = (count: number = 3): Color[] => {
-  const midToneShades: (keyof typeof brandColors.red)[] = [400, 500, 600];
-  const colors: Color[] = [];
-  
-  Object.entries(brandColors).forEach(([colorName, shades]) => {
-    midToneShades.forEach(shade => {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: shades[shade],
-        rgb: hexToRgb(shades[shade])
-      });
-    });
-  });
-  
-  const shuffled = colors.sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, count);
-};
-
-// Color harmony functions for creating interesting compositions
-export const getComplementaryColors = (): Color[] => {
-  const colorPairs = [
-    ['red', 'green'],
-    ['blue', 'orange'],
-    ['yellow', 'purple'],
-  ];
-  
-  const randomPair = colorPairs[Math.floor(Math.random() * colorPairs.length)];
-  const shades = [400, 500, 600];
-  const colors: Color[] = [];
-  
-  randomPair.forEach(colorName => {
-    const shade = shades[Math.floor(Math.random() * shades.length)];
-    if (brandColors[colorName as keyof typeof brandColors]) {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red],
-        rgb: hexToRgb(brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red])
-      });
-    }
-  });
-  
-  return colors;
-};
-
-export const getAnalogousColors = (): Color[] => {
-  const colorGroups = [
-    ['red', 'orange', 'yellow'],
-    ['yellow', 'green', 'blue'],
-    ['blue', 'purple', 'red'],
-    ['green', 'blue', 'purple'],
-  ];
-  
-  const randomGroup = colorGroups[Math.floor(Math.random() * colorGroups.length)];
-  const shades = [300, 400, 500, 600];
-  const colors: Color[] = [];
-  
-  randomGroup.forEach(colorName => {
-    const shade = shades[Math.floor(Math.random() * shades.length)];
-    if (brandColors[colorName as keyof typeof brandColors]) {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red],
-        rgb: hexToRgb(brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red])
-      });
-    }
-  });
-  
-  return colors;
-};
-
-export const getTriadicColors = (): Color[] => {
-  const colorTriads = [
-    ['red', 'yellow', 'blue'],
-    ['orange', 'green', 'purple'],
-  ];
-  
-  const randomTriad = colorTriads[Math.floor(Math.random() * colorTriads.length)];
-  const shades = [400, 500, 600];
-  const colors: Color[] = [];
-  
-  randomTriad.forEach(colorName => {
-    const shade = shades[Math.floor(Math.random() * shades.length)];
-    if (brandColors[colorName as keyof typeof brandColors]) {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red],
-        rgb: hexToRgb(brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red])
-      });
-    }
-  });
-  
-  return colors;
-};
-
-export const getMonochromaticColors = (): Color[] => {
-  const colorNames = Object.keys(brandColors);
-  const randomColor = colorNames[Math.floor(Math.random() * colorNames.length)] as keyof typeof brandColors;
-  const shades = [300, 400, 500, 600, 700];
-  const colors: Color[] = [];
-  
-  // Pick 3 different shades of the same color
-  const selectedShades = shades.sort(() => 0.5 - Math.random()).slice(0, 3);
-  
-  selectedShades.forEach(shade => {
-    colors.push({
-      name: `${randomColor.charAt(0).toUpperCase() + randomColor.slice(1)} ${shade}`,
-      hex: brandColors[randomColor][shade as keyof typeof brandColors.red],
-      rgb: hexToRgb(brandColors[randomColor][shade as keyof typeof brandColors.red])
-    });
-  });
-  
-  return colors;
-};
-
-export const getWarmColors = (): Color[] => {
-  const warmColorNames = ['red', 'orange', 'yellow'];
-  const shades = [300, 400, 500, 600];
-  const colors: Color[] = [];
-  
-  // Pick 2-3 warm colors
-  const numColors = Math.floor(Math.random() * 2) + 2;
-  const selectedColors = warmColorNames.sort(() => 0.5 - Math.random()).slice(0, numColors);
-  
-  selectedColors.forEach(colorName => {
-    const shade = shades[Math.floor(Math.random() * shades.length)];
-    colors.push({
-      name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-      hex: brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red],
-      rgb: hexToRgb(brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red])
-    });
-  });
-  
-  return colors;
-};
-
-export const getCoolColors = (): Color[] => {
-  const coolColorNames = ['blue', 'green', 'purple'];
-  const shades = [300, 400, 500, 600];
-  const colors: Color[] = [];
-  
-  // Pick 2-3 cool colors
-  const numColors = Math.floor(Math.random() * 2) + 2;
-  const selectedColors = coolColorNames.sort(() => 0.5 - Math.random()).slice(0, numColors);
-  
-  selectedColors.forEach(colorName => {
-    const shade = shades[Math.floor(Math.random() * shades.length)];
-    if (brandColors[colorName as keyof typeof brandColors]) {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red],
-        rgb: hexToRgb(brandColors[colorName as keyof typeof brandColors][shade as keyof typeof brandColors.red])
-      });
-    }
-  });
-  
-  return colors;
-};
-
-export const getVibrantColors = (): Color[] => {
-  const vibrantShades = [400, 500] as const; // More saturated shades
-  const colors: Color[] = [];
-  
-  Object.entries(brandColors).forEach(([colorName, shades]) => {
-    vibrantShades.forEach(shade => {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: shades[shade as keyof typeof shades],
-        rgb: hexToRgb(shades[shade as keyof typeof shades])
-      });
-    });
-  });
-  
-  const shuffled = colors.sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, 3);
-};
-
-export const getSubtleColors = (): Color[] => {
-  const subtleShades = [200, 300] as const; // Lighter, more muted shades
-  const colors: Color[] = [];
-  
-  Object.entries(brandColors).forEach(([colorName, shades]) => {
-    subtleShades.forEach(shade => {
-      colors.push({
-        name: `${colorName.charAt(0).toUpperCase() + colorName.slice(1)} ${shade}`,
-        hex: shades[shade as keyof typeof shades],
-        rgb: hexToRgb(shades[shade as keyof typeof shades])
-      });
-    });
-  });
-  
-  const shuffled = colors.sort(() => 0.5 - Math.random());
-  return shuffled.slice(0, 3);
-};
-
-// Curated mood-based color combinations
-export const getSunsetColors = (): Color[] => {
-  return [
-    { name: 'Orange 500', hex: brandColors.orange[500], rgb: hexToRgb(brandColors.orange[500]) },
-    { name: 'Red 400', hex: brandColors.red[400], rgb: hexToRgb(brandColors.red[400]) },
-    { name: 'Yellow 400', hex: brandColors.yellow[400], rgb: hexToRgb(brandColors.yellow[400]) },
-  ];
-};
-
-export const getOceanColors = (): Color[] => {
-  return [
-    { name: 'Blue 500', hex: brandColors.blue[500], rgb: hexToRgb(brandColors.blue[500]) },
-    { name: 'Green 400', hex: brandColors.green[400], rgb: hexToRgb(brandColors.green[400]) },
-    { name: 'Blue 300', hex: brandColors.blue[300], rgb: hexToRgb(brandColors.blue[300]) },
-  ];
-};
-
-export const getForestColors = (): Color[] => {
-  return [
-    { name: 'Green 600', hex: brandColors.green[600], rgb: hexToRgb(brandColors.green[600]) },
-    { name: 'Green 400', hex: brandColors.green[400], rgb: hexToRgb(brandColors.green[400]) },
-    { name: 'Yellow 300', hex: brandColors.yellow[300], rgb: hexToRgb(brandColors.yellow[300]) },
-  ];
-};
-
-export const getRoyalColors = (): Color[] => {
-  return [
-    { name: 'Purple 600', hex: brandColors.purple[600], rgb: hexToRgb(brandColors.purple[600]) },
-    { name: 'Blue 600', hex: brandColors.blue[600], rgb: hexToRgb(brandColors.blue[600]) },
-    { name: 'Purple 400', hex: brandColors.purple[400], rgb: hexToRgb(brandColors.purple[400]) },
-  ];
-};
-
-// Get colors by mood/style
-export const getColorsByMood = (moodType: string): Color[] => {
-  switch (moodType) {
-    case 'warm':
-      return getWarmColors();
-    case 'cool':
-      return getCoolColors();
-    case 'expressive':
-      return getVibrantColors(); // High contrast, bold colors
-    case 'modern':
-      return getMonochromaticColors(); // Clean, sophisticated single-color variations
-    case 'sophisticated':
-      return getSubtleColors(); // Muted, elegant tones
-    case 'wild':
-      return getTriadicColors(); // Bold, high-contrast combinations
-    case 'energetic':
-      return getComplementaryColors(); // High contrast, dynamic
-    case 'calm':
-      return getAnalogousColors(); // Harmonious, flowing colors
-    case 'sunset':
-      return getSunsetColors();
-    case 'ocean':
-      return getOceanColors();
-    case 'forest':
-      return getForestColors();
-    case 'royal':
-      return getRoyalColors();
-    default:
-      return getRandomMidToneColors(3);
-  }
-}; 
\ No newline at end of file
@@ -0,0 +1,84 @@
+// Seeded random number generation so a seed plus settings always renders the same image
+
+export type RandomFn = () => number
+
+// Seeds are unsigned 32-bit integers so they survive JSON and URLs unchanged
+export const MAX_SEED = 0xffffffff
+
+export const normalizeSeed = (seed: number): number => {
+  if (!Number.isFinite(seed)) return 0
+  return Math.floor(Math.abs(seed)) % (MAX_SEED + 1)
+}
+
+export const randomSeed = (): number => {
+  return Math.floor(Math.random() * (MAX_SEED + 1))
+}
+
+const MULBERRY_INCREMENT = 0x6d2b79f5
+
+// mulberry32: tiny, fast and plenty good enough for visual noise
+// Its state advances by a constant per call, so `position` starts the stream at any point:
+// createRandom(seed, n) returns exactly what createRandom(seed) returns after n calls
+export const createRandom = (seed: number, position: number = 0): RandomFn => {
+  let state = (normalizeSeed(seed) + Math.imul(position % 4294967296, MULBERRY_INCREMENT)) >>> 0
+
+  return () => {
+    state = (state + MULBERRY_INCREMENT) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Derive an independent seed for one pipeline stage (FNV-1a over the label, mixed with the seed)
+// Each stage gets its own stream, so e.g. the grain pass consuming more numbers at export
+// resolution never shifts the blob positions of the gradient pass
+export const deriveSeed = (seed: number, label: string): number => {
+  let hash = 0x811c9dc5 ^ normalizeSeed(seed)
+  for (let i = 0; i < label.length; i++) {
+    hash ^= label.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// A stream that can skip numbers it does not need, e.g. the per-pixel draws of rows outside a tile
+export interface RandomStream {
+  next: RandomFn
+  skip: (count: number) => void
+}
+
+export const createRandomStream = (seed: number): RandomStream => {
+  let position = 0
+  let random = createRandom(seed)
+  return {
+    next: () => {
+      position++
+      return random()
+    },
+    skip: (count: number) => {
+      if (count <= 0) return
+      position += count
+      random = createRandom(seed, position)
+    }
+  }
+}
+
+export const createStageRandom = (seed: number, stage: string): RandomFn => {
+  return createRandom(deriveSeed(seed, stage))
+}
+
+// Fisher-Yates shuffle; `sort(() => 0.5 - Math.random())` is biased and engine-dependent
+export const shuffle = <T>(items: readonly T[], random: RandomFn = Math.random): T[] => {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+export const pick = <T>(items: readonly T[], random: RandomFn = Math.random): T => {
+  return items[Math.floor(random() * items.length)]
+}